@@ -0,0 +1,210 @@
+// Alert store against the local stand-in: the migrations applied in order to an in-memory SQLite
+// database (sql.js, so it runs on any Node release), wrapped by createSqliteD1.
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import initSqlJs from 'sql.js';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  createSqliteD1, findExistingAlertIds, formatAlertCursor, latestAlertCursor, parseAlertCursor, queryAlertsAfter, upsertAlerts,
+} from './alertStore';
+import { parseFireCsvData, parseIntegratedAlertsData } from '../src/services/alertParsers';
+import type { BindParams, Database } from 'sql.js';
+import type { D1Database, SqliteDatabase } from './alertStore';
+import type { ForestAlert } from '../src/services/forestDomain';
+
+const SQL = await initSqlJs();
+const MIGRATIONS = join(__dirname, 'migrations');
+
+// Applies the numbered migrations from..until, as wrangler would
+function migrate(database: SqliteDatabase, from = 1, until = Infinity): void {
+  const files = readdirSync(MIGRATIONS).filter((name) => name.endsWith('.sql')).sort();
+  for (const file of files.filter((name) => parseInt(name, 10) >= from && parseInt(name, 10) <= until)) {
+    database.exec(readFileSync(join(MIGRATIONS, file), 'utf8'));
+  }
+}
+
+// sql.js binds an array and steps through rows; the store expects the node:sqlite statement API
+function fromSqlJs(database: Database): SqliteDatabase {
+  const rows = (sql: string, params: unknown[]) => {
+    const statement = database.prepare(sql);
+    try {
+      statement.bind(params as BindParams);
+      const results: Record<string, unknown>[] = [];
+      while (statement.step()) results.push(statement.getAsObject());
+      return results;
+    } finally {
+      statement.free();
+    }
+  };
+  return {
+    exec: (sql) => {
+      database.exec(sql);
+    },
+    prepare: (sql) => ({
+      all: (...params) => rows(sql, params),
+      get: (...params) => rows(sql, params)[0],
+      run: (...params) => {
+        database.run(sql, params as BindParams);
+        return { changes: database.getRowsModified() };
+      },
+    }),
+  };
+}
+
+function openStore(until = Infinity): { db: D1Database; sqlite: SqliteDatabase } {
+  const database = fromSqlJs(new SQL.Database());
+  migrate(database, 1, until);
+  return { db: createSqliteD1(database), sqlite: database };
+}
+
+function alert(id: string, overrides: Partial<ForestAlert> = {}): ForestAlert {
+  return {
+    id,
+    timestamp: '2026-10-17T08:00:00.000Z',
+    location: 'Tsavo East',
+    type: 'fire',
+    severity: 'high',
+    confidence: 90,
+    description: 'Active fire detected',
+    coordinates: { lat: -2.9, lng: 38.5 },
+    metadata: {},
+    ...overrides,
+  };
+}
+
+// created_at comes from the database clock; tests pin it to get a known insertion order
+function setCreatedAt(database: SqliteDatabase, id: string, createdAt: string): void {
+  database.prepare('UPDATE forest_alerts SET created_at = ? WHERE id = ?').run(createdAt, id);
+}
+
+describe('alert store on the SQLite stand-in', () => {
+  let db: D1Database;
+  let database: SqliteDatabase;
+
+  beforeEach(() => {
+    ({ db, sqlite: database } = openStore());
+  });
+
+  it('inserts alerts with their coordinates, metadata and source', async () => {
+    await upsertAlerts(db, [alert('fire_a', { metadata: { satellite: 'VIIRS' } }), alert('fire_b')], 'nasa-firms');
+
+    const rows = await queryAlertsAfter(db, { createdAt: new Date(0).toISOString(), id: '' }, {}, 10);
+    expect(rows.map((row) => row.alert.id)).toEqual(['fire_a', 'fire_b']);
+    expect(rows[0].alert).toMatchObject({
+      coordinates: { lat: -2.9, lng: 38.5 },
+      metadata: { satellite: 'VIIRS' },
+      source: 'nasa-firms',
+    });
+  });
+
+  it('updates an alert stored again under the same id instead of duplicating it', async () => {
+    await upsertAlerts(db, [alert('fire_a')], 'nasa-firms');
+    setCreatedAt(database, 'fire_a', '2020-01-01T00:00:00.000Z');
+    await upsertAlerts(db, [alert('fire_a', { severity: 'critical' }), alert('fire_b')], 'nasa-firms');
+
+    expect(await findExistingAlertIds(db, ['fire_a', 'fire_b', 'fire_c'])).toEqual(new Set(['fire_a', 'fire_b']));
+    const rows = await queryAlertsAfter(db, { createdAt: new Date(0).toISOString(), id: '' }, {}, 10);
+    expect(rows.map((row) => row.alert.id)).toEqual(['fire_a', 'fire_b']);
+    expect(rows[0].alert.severity).toBe('critical');
+    // Refreshing an alert keeps its place in the stream
+    expect(rows[0].cursor.createdAt).toBe('2020-01-01T00:00:00.000Z');
+  });
+
+  it('pages past a cursor in insertion order, breaking created_at ties by id', async () => {
+    const ids = ['fire_e', 'fire_a', 'fire_d', 'fire_b', 'fire_c'];
+    await upsertAlerts(db, ids.map((id) => alert(id)), 'nasa-firms');
+    setCreatedAt(database, 'fire_e', '2026-10-17T09:00:00.000Z');
+    for (const id of ['fire_a', 'fire_d', 'fire_b']) setCreatedAt(database, id, '2026-10-17T10:00:00.000Z');
+    setCreatedAt(database, 'fire_c', '2026-10-17T11:00:00.000Z');
+
+    const pages: string[][] = [];
+    let cursor = { createdAt: new Date(0).toISOString(), id: '' };
+    // Bounded, so a cursor that stops advancing fails the test rather than hanging it
+    while (pages.length <= ids.length) {
+      const page = await queryAlertsAfter(db, cursor, {}, 2);
+      if (page.length === 0) break;
+      pages.push(page.map((row) => row.alert.id));
+      cursor = page[page.length - 1].cursor;
+    }
+
+    expect(pages).toEqual([['fire_e', 'fire_a'], ['fire_b', 'fire_d'], ['fire_c']]);
+    expect(await latestAlertCursor(db)).toEqual({ createdAt: '2026-10-17T11:00:00.000Z', id: 'fire_c' });
+  });
+
+  it('applies type, severity and bounding-box filters while paging', async () => {
+    await upsertAlerts(db, [
+      alert('fire_a'),
+      alert('fire_b', { severity: 'low' }),
+      alert('fire_c', { coordinates: { lat: 10, lng: 10 } }),
+      alert('deforest_a', { type: 'deforestation' }),
+    ], 'mixed');
+
+    const rows = await queryAlertsAfter(db, { createdAt: new Date(0).toISOString(), id: '' }, {
+      types: ['fire'],
+      severities: ['high', 'critical'],
+      bbox: [38, -3, 39, -2],
+    }, 10);
+    expect(rows.map((row) => row.alert.id)).toEqual(['fire_a']);
+  });
+
+  it('starts an empty store at the epoch', async () => {
+    expect(await latestAlertCursor(db)).toEqual({ createdAt: new Date(0).toISOString(), id: '' });
+  });
+});
+
+describe('alert cursors', () => {
+  it('round-trip as stream event ids, even for ids containing the separator', () => {
+    const cursor = { createdAt: '2026-10-17T08:00:00.000Z', id: 'webhook_ranger-app_a|b' };
+
+    expect(formatAlertCursor(cursor)).toBe('2026-10-17T08:00:00.000Z|webhook_ranger-app_a|b');
+    expect(parseAlertCursor(formatAlertCursor(cursor))).toEqual(cursor);
+    expect(parseAlertCursor(formatAlertCursor({ createdAt: new Date(0).toISOString(), id: '' })))
+      .toEqual({ createdAt: new Date(0).toISOString(), id: '' });
+  });
+
+  it('start from the latest alert without one', () => {
+    expect(parseAlertCursor(null)).toBeNull();
+    expect(parseAlertCursor('')).toBeNull();
+  });
+
+  it.each(['fire_a', '|fire_a', 'yesterday|fire_a'])('reject %s', (raw) => {
+    expect(() => parseAlertCursor(raw)).toThrow('since must be an event id from this stream');
+  });
+
+  it('resume a stream after the last event delivered', async () => {
+    const { db, sqlite: database } = openStore();
+    await upsertAlerts(db, [alert('fire_a'), alert('fire_b'), alert('fire_c')], 'nasa-firms');
+    for (const [id, createdAt] of [['fire_a', '2026-10-17T09:00:00.000Z'], ['fire_b', '2026-10-17T10:00:00.000Z'], ['fire_c', '2026-10-17T11:00:00.000Z']]) {
+      setCreatedAt(database, id, createdAt);
+    }
+
+    const [first] = await queryAlertsAfter(db, { createdAt: new Date(0).toISOString(), id: '' }, {}, 1);
+    const lastEventId = formatAlertCursor(first.cursor);
+    const rest = await queryAlertsAfter(db, parseAlertCursor(lastEventId)!, {}, 10);
+    expect(rest.map((row) => row.alert.id)).toEqual(['fire_b', 'fire_c']);
+  });
+});
+
+describe('migration 0007', () => {
+  it('gives alerts stored under hashed ids the ids the parsers now produce', async () => {
+    const { db, sqlite: database } = openStore(6);
+    const fires = parseFireCsvData([
+      'latitude,longitude,bright_ti4,acq_date,acq_time,satellite,confidence,frp,daynight',
+      '-3.12345,-62.98765,330.1,2026-10-17,135,N,n,12.5,D',
+      '12.34565,101.99995,341.7,2026-10-17,1742,N,h,40.2,N',
+    ].join('\n'), 'VIIRS_SNPP_NRT');
+    const pixels = parseIntegratedAlertsData({ data: [
+      { latitude: -3.123455, longitude: -60.000001, gfw_integrated_alerts__date: '2026-10-10', gfw_integrated_alerts__confidence: 'high' },
+    ] }, 'BRA');
+    await upsertAlerts(db, fires.map((fire, i) => ({ ...fire, id: `fire_0000000${i}` })), 'nasa-firms');
+    await upsertAlerts(db, pixels.map((pixel) => ({ ...pixel, id: 'deforest_0badf00d' })), 'gfw-integrated-alerts');
+    await upsertAlerts(db, [alert('webhook_ranger-app_fire_0000000a')], 'webhook:ranger-app');
+
+    migrate(database, 7, 7);
+
+    const ids = [...fires, ...pixels].map((stored) => stored.id);
+    expect(await findExistingAlertIds(db, ids)).toEqual(new Set(ids));
+    expect(await findExistingAlertIds(db, ['fire_00000000', 'deforest_0badf00d', 'webhook_ranger-app_fire_0000000a']))
+      .toEqual(new Set(['webhook_ranger-app_fire_0000000a']));
+  });
+});
@@ -0,0 +1,392 @@
+// Persistent alert store for the worker (Cloudflare D1, schema in migrations/0001_forest_store.sql)
+// Alerts are upserted by their stable ids, so re-fetching the same detections only refreshes them.
+// The same database keeps the ingestion bookkeeping (per-source run times, a log of sync runs and
+// webhook deliveries), user profiles, the users' encrypted API keys and daily upstream call counts.
+// Only the parts of the D1 API used here are typed; createSqliteD1 adapts a local synchronous
+// SQLite database (node:sqlite DatabaseSync, better-sqlite3, or sql.js as in alertStore.test.ts)
+// to the same interface for tests and scripts outside wrangler.
+import { isAccessRole, permissionsFor } from '../src/services/forestDomain';
+import type { AlertType, ApiKeyService, ApiKeySummary, ForestAlert, Severity, UserPermission, UserProfile, UserProfileUpdate } from '../src/services/forestDomain';
+import type { SealedKey } from './keyVault';
+
+export interface D1Result<T = Record<string, unknown>> {
+  results: T[];
+  success: boolean;
+  meta?: { changes?: number };
+}
+
+export interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  all<T = Record<string, unknown>>(): Promise<D1Result<T>>;
+  first<T = Record<string, unknown>>(): Promise<T | null>;
+  run(): Promise<D1Result>;
+}
+
+export interface D1Database {
+  prepare(sql: string): D1PreparedStatement;
+  batch(statements: D1PreparedStatement[]): Promise<D1Result[]>;
+}
+
+export interface AlertFilters {
+  types?: AlertType[];
+  severities?: Severity[];
+  bbox?: [number, number, number, number]; // west, south, east, north
+}
+
+export interface AlertHistoryQuery extends AlertFilters {
+  from: string; // ISO timestamp, inclusive
+  to: string; // ISO timestamp, exclusive
+  limit: number;
+  offset: number;
+}
+
+// Position in the order alerts were first stored; ids break ties within a batch
+export interface AlertCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface StoredAlert extends ForestAlert {
+  source: string;
+}
+
+export interface UpdateTimestamp {
+  updateType: string;
+  lastUpdate: string;
+  nextScheduled: string | null;
+  metadata: Record<string, unknown>;
+}
+
+export interface StoredApiKey extends ApiKeySummary, SealedKey {
+  userId: string;
+}
+
+// D1 caps statements per batch; keep well inside it
+const BATCH_SIZE = 100;
+
+const UPSERT_ALERT = `
+  INSERT INTO forest_alerts (id, timestamp, location, type, severity, confidence, description, coordinates, metadata, source)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  ON CONFLICT (id) DO UPDATE SET
+    timestamp = excluded.timestamp,
+    location = excluded.location,
+    type = excluded.type,
+    severity = excluded.severity,
+    confidence = excluded.confidence,
+    description = excluded.description,
+    coordinates = excluded.coordinates,
+    metadata = excluded.metadata,
+    source = excluded.source,
+    updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+
+const UPSERT_UPDATE_TIMESTAMP = `
+  INSERT INTO update_timestamps (update_type, last_update, next_scheduled, metadata) VALUES (?, ?, ?, ?)
+  ON CONFLICT (update_type) DO UPDATE SET
+    last_update = excluded.last_update,
+    next_scheduled = excluded.next_scheduled,
+    metadata = excluded.metadata`;
+
+export async function upsertAlerts(db: D1Database, alerts: ForestAlert[], source: string): Promise<number> {
+  const statements = alerts.map((alert) => db.prepare(UPSERT_ALERT).bind(
+    alert.id,
+    new Date(alert.timestamp).toISOString(),
+    alert.location,
+    alert.type,
+    alert.severity,
+    alert.confidence,
+    alert.description,
+    JSON.stringify({ lat: alert.coordinates.lat, lng: alert.coordinates.lng }),
+    JSON.stringify(alert.metadata ?? {}),
+    source,
+  ));
+  for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+    await db.batch(statements.slice(i, i + BATCH_SIZE));
+  }
+  return statements.length;
+}
+
+// Ids from the list that are already stored, queried in batch-sized chunks to stay under D1's
+// bound parameter limit
+export async function findExistingAlertIds(db: D1Database, ids: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    const chunk = ids.slice(i, i + BATCH_SIZE);
+    const { results } = await db.prepare(`SELECT id FROM forest_alerts WHERE id IN (${chunk.map(() => '?').join(', ')})`)
+      .bind(...chunk)
+      .all<{ id: string }>();
+    for (const row of results) existing.add(row.id);
+  }
+  return existing;
+}
+
+export async function recordUpdate(db: D1Database, update: UpdateTimestamp): Promise<void> {
+  await db.prepare(UPSERT_UPDATE_TIMESTAMP)
+    .bind(update.updateType, update.lastUpdate, update.nextScheduled, JSON.stringify(update.metadata))
+    .run();
+}
+
+export async function readUpdateTimestamps(db: D1Database): Promise<Map<string, UpdateTimestamp>> {
+  const { results } = await db.prepare('SELECT update_type, last_update, next_scheduled, metadata FROM update_timestamps')
+    .all<Record<string, any>>();
+  return new Map(results.map((row) => [row.update_type, {
+    updateType: row.update_type,
+    lastUpdate: row.last_update,
+    nextScheduled: row.next_scheduled ?? null,
+    metadata: JSON.parse(row.metadata || '{}'),
+  }]));
+}
+
+export async function logWebhookEvent(
+  db: D1Database,
+  event: { eventType: string; data: unknown; source?: string; status?: 'success' | 'error'; errorMessage?: string },
+): Promise<void> {
+  await db.prepare('INSERT INTO webhook_logs (id, event_type, data, source, status, error_message) VALUES (?, ?, ?, ?, ?, ?)')
+    .bind(crypto.randomUUID(), event.eventType, JSON.stringify(event.data ?? {}), event.source ?? null, event.status ?? 'success', event.errorMessage ?? null)
+    .run();
+}
+
+export async function queryAlertHistory(db: D1Database, query: AlertHistoryQuery): Promise<{ alerts: StoredAlert[]; total: number }> {
+  const filters = alertFilters(query);
+  const where = ['timestamp >= ?', 'timestamp < ?', ...filters.where];
+  const params: unknown[] = [query.from, query.to, ...filters.params];
+  const clause = where.join(' AND ');
+  const [rows, count] = await Promise.all([
+    db.prepare(`
+      SELECT id, timestamp, location, type, severity, confidence, description, coordinates, metadata, source
+      FROM forest_alerts WHERE ${clause}
+      ORDER BY timestamp DESC, id LIMIT ? OFFSET ?`).bind(...params, query.limit, query.offset).all<Record<string, any>>(),
+    db.prepare(`SELECT COUNT(*) AS total FROM forest_alerts WHERE ${clause}`).bind(...params).first<{ total: number }>(),
+  ]);
+  return { alerts: rows.results.map(toStoredAlert), total: Number(count?.total ?? 0) };
+}
+
+// Alerts first stored after the cursor, in the order they were stored. Re-ingested alerts keep
+// their original position, so each alert is returned once.
+export async function queryAlertsAfter(
+  db: D1Database,
+  cursor: AlertCursor,
+  filters: AlertFilters,
+  limit: number,
+): Promise<{ alert: StoredAlert; cursor: AlertCursor }[]> {
+  const { where, params } = alertFilters(filters);
+  const { results } = await db.prepare(`
+    SELECT id, timestamp, location, type, severity, confidence, description, coordinates, metadata, source, created_at
+    FROM forest_alerts WHERE (created_at > ? OR (created_at = ? AND id > ?))${where.map((condition) => ` AND ${condition}`).join('')}
+    ORDER BY created_at, id LIMIT ?`).bind(cursor.createdAt, cursor.createdAt, cursor.id, ...params, limit).all<Record<string, any>>();
+  return results.map((row) => ({ alert: toStoredAlert(row), cursor: { createdAt: row.created_at, id: row.id } }));
+}
+
+// Cursor just past the most recently stored alert; an empty store starts at the epoch
+export async function latestAlertCursor(db: D1Database): Promise<AlertCursor> {
+  const row = await db.prepare('SELECT created_at, id FROM forest_alerts ORDER BY created_at DESC, id DESC LIMIT 1')
+    .first<{ created_at: string; id: string }>();
+  return row ? { createdAt: row.created_at, id: row.id } : { createdAt: new Date(0).toISOString(), id: '' };
+}
+
+// Cursors are `<created_at>|<id>`; ids may contain `|`, timestamps never do
+export function formatAlertCursor(cursor: AlertCursor): string {
+  return `${cursor.createdAt}|${cursor.id}`;
+}
+
+export function parseAlertCursor(raw: string | null): AlertCursor | null {
+  if (!raw) return null;
+  const separator = raw.indexOf('|');
+  const createdAt = separator > 0 ? raw.slice(0, separator) : '';
+  if (!Number.isFinite(Date.parse(createdAt))) throw new Error('since must be an event id from this stream');
+  return { createdAt, id: raw.slice(separator + 1) };
+}
+
+function alertFilters(filters: AlertFilters): { where: string[]; params: unknown[] } {
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (filters.types?.length) {
+    where.push(`type IN (${filters.types.map(() => '?').join(', ')})`);
+    params.push(...filters.types);
+  }
+  if (filters.severities?.length) {
+    where.push(`severity IN (${filters.severities.map(() => '?').join(', ')})`);
+    params.push(...filters.severities);
+  }
+  if (filters.bbox) {
+    const [west, south, east, north] = filters.bbox;
+    where.push('lat BETWEEN ? AND ?', 'lng BETWEEN ? AND ?');
+    params.push(south, north, west, east);
+  }
+  return { where, params };
+}
+
+function toStoredAlert(row: Record<string, any>): StoredAlert {
+  const metadata = JSON.parse(row.metadata || '{}');
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    location: row.location,
+    type: row.type,
+    severity: row.severity,
+    confidence: Number(row.confidence),
+    description: row.description ?? '',
+    coordinates: JSON.parse(row.coordinates),
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+    source: row.source,
+  };
+}
+
+export async function readUserProfile(db: D1Database, id: string): Promise<UserProfile | null> {
+  const row = await db.prepare('SELECT id, email, name, organization, role, access_role, regions, permissions, created_at FROM user_profiles WHERE id = ?')
+    .bind(id)
+    .first<Record<string, any>>();
+  return row ? toUserProfile(row) : null;
+}
+
+// First sign-in creates the profile; a concurrent request may have created it already, in which
+// case that copy wins. Either way the stored profile is returned. New profiles get their access
+// role only; individual grants are added by administrators.
+export async function createUserProfile(db: D1Database, profile: UserProfile): Promise<UserProfile> {
+  await db.prepare(`
+    INSERT INTO user_profiles (id, email, name, organization, role, access_role, regions, permissions, last_login)
+    VALUES (?, ?, ?, ?, ?, ?, ?, '[]', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    ON CONFLICT (id) DO NOTHING`)
+    .bind(profile.id, profile.email ?? null, profile.name, profile.organization, profile.role, profile.accessRole, JSON.stringify(profile.regions))
+    .run();
+  return (await readUserProfile(db, profile.id))!;
+}
+
+export async function updateUserProfile(db: D1Database, id: string, update: UserProfileUpdate): Promise<UserProfile | null> {
+  const columns: Record<string, unknown> = {
+    name: update.name,
+    organization: update.organization,
+    role: update.role,
+    regions: update.regions && JSON.stringify(update.regions),
+  };
+  const set = Object.entries(columns).filter(([, value]) => value !== undefined);
+  if (set.length > 0) {
+    await db.prepare(`UPDATE user_profiles SET ${set.map(([column]) => `${column} = ?`).join(', ')}, updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = ?`)
+      .bind(...set.map(([, value]) => value), id)
+      .run();
+  }
+  return readUserProfile(db, id);
+}
+
+function toUserProfile(row: Record<string, any>): UserProfile {
+  const accessRole = isAccessRole(row.access_role) ? row.access_role : 'volunteer';
+  return {
+    id: row.id,
+    ...(row.email ? { email: row.email } : {}),
+    name: row.name,
+    organization: row.organization,
+    role: row.role,
+    accessRole,
+    joinDate: row.created_at,
+    regions: JSON.parse(row.regions || '[]'),
+    permissions: permissionsFor(accessRole, JSON.parse(row.permissions || '[]') as UserPermission[]),
+  };
+}
+
+const API_KEY_COLUMNS = 'id, user_id, service, label, hint, ciphertext, iv, created_at, last_used_at';
+
+export async function insertApiKey(db: D1Database, key: Omit<StoredApiKey, 'createdAt' | 'lastUsedAt'>): Promise<ApiKeySummary> {
+  await db.prepare('INSERT INTO api_keys (id, user_id, service, label, hint, ciphertext, iv) VALUES (?, ?, ?, ?, ?, ?, ?)')
+    .bind(key.id, key.userId, key.service, key.label, key.hint, key.ciphertext, key.iv)
+    .run();
+  return toApiKeySummary((await readApiKey(db, key.userId, key.id))!);
+}
+
+export async function listApiKeys(db: D1Database, userId: string): Promise<ApiKeySummary[]> {
+  const { results } = await db.prepare(`SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE user_id = ? ORDER BY created_at DESC, id`)
+    .bind(userId)
+    .all<Record<string, any>>();
+  return results.map((row) => toApiKeySummary(toStoredApiKey(row)));
+}
+
+// Keys are only ever looked up together with their owner
+export async function readApiKey(db: D1Database, userId: string, id: string): Promise<StoredApiKey | null> {
+  const row = await db.prepare(`SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = ? AND user_id = ?`)
+    .bind(id, userId)
+    .first<Record<string, any>>();
+  return row ? toStoredApiKey(row) : null;
+}
+
+export async function deleteApiKey(db: D1Database, userId: string, id: string): Promise<boolean> {
+  const result = await db.prepare('DELETE FROM api_keys WHERE id = ? AND user_id = ?').bind(id, userId).run();
+  return (result.meta?.changes ?? 0) > 0;
+}
+
+export async function touchApiKey(db: D1Database, id: string): Promise<void> {
+  await db.prepare(`UPDATE api_keys SET last_used_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = ?`).bind(id).run();
+}
+
+function toStoredApiKey(row: Record<string, any>): StoredApiKey {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    service: row.service as ApiKeyService,
+    label: row.label ?? '',
+    hint: row.hint,
+    ciphertext: row.ciphertext,
+    iv: row.iv,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at ?? null,
+  };
+}
+
+function toApiKeySummary({ id, service, label, hint, createdAt, lastUsedAt }: StoredApiKey): ApiKeySummary {
+  return { id, service, label, hint, createdAt, lastUsedAt };
+}
+
+// Adds to the day's per-provider call counts (migrations/0005_upstream_usage.sql)
+export async function addUpstreamUsage(db: D1Database, day: string, calls: Record<string, number>): Promise<void> {
+  const statements = Object.entries(calls)
+    .filter(([, count]) => count > 0)
+    .map(([provider, count]) => db.prepare('INSERT INTO upstream_usage (provider, day, calls) VALUES (?, ?, ?) ON CONFLICT (provider, day) DO UPDATE SET calls = calls + excluded.calls')
+      .bind(provider, day, count));
+  if (statements.length > 0) await db.batch(statements);
+}
+
+export async function readUpstreamUsage(db: D1Database, day: string): Promise<Record<string, number>> {
+  const { results } = await db.prepare('SELECT provider, calls FROM upstream_usage WHERE day = ?').bind(day).all<Record<string, any>>();
+  return Object.fromEntries(results.map((row) => [row.provider, Number(row.calls) || 0]));
+}
+
+// Local stand-in
+// The synchronous statement API shared by node:sqlite and better-sqlite3
+export interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): {
+    all(...params: unknown[]): unknown[];
+    get(...params: unknown[]): unknown;
+    run(...params: unknown[]): { changes: number | bigint };
+  };
+}
+
+export function createSqliteD1(sqlite: SqliteDatabase): D1Database {
+  const statement = (sql: string, params: unknown[] = []): D1PreparedStatement & { execute(): D1Result } => {
+    // SQLite drivers reject booleans and undefined; D1 stores them as 0/1 and NULL
+    const values = params.map((value) => value === undefined ? null : typeof value === 'boolean' ? Number(value) : value);
+    const execute = (): D1Result => {
+      const result = sqlite.prepare(sql).run(...values);
+      return { results: [], success: true, meta: { changes: Number(result.changes) } };
+    };
+    return {
+      bind: (...next: unknown[]) => statement(sql, next),
+      all: async <T,>() => ({ results: sqlite.prepare(sql).all(...values) as T[], success: true }),
+      first: async <T,>() => (sqlite.prepare(sql).get(...values) as T | undefined) ?? null,
+      run: async () => execute(),
+      execute,
+    };
+  };
+  return {
+    prepare: (sql) => statement(sql),
+    // D1 runs a batch as one transaction
+    batch: async (statements) => {
+      sqlite.exec('BEGIN');
+      try {
+        const results = statements.map((s) => (s as ReturnType<typeof statement>).execute());
+        sqlite.exec('COMMIT');
+        return results;
+      } catch (error) {
+        sqlite.exec('ROLLBACK');
+        throw error;
+      }
+    },
+  };
+}
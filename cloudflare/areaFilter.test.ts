@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { clipAlerts, parseAreaFilter, parseBbox } from './areaFilter';
+
+const URL_BASE = 'https://worker.example/fire-alerts';
+
+// A 10x10 square with a 4x4 hole in the middle
+const SQUARE_WITH_HOLE = {
+  type: 'Polygon',
+  coordinates: [
+    [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]],
+    [[3, 3], [7, 3], [7, 7], [3, 7], [3, 3]],
+  ],
+};
+const TRIANGLE = { type: 'Polygon', coordinates: [[[20, 0], [30, 0], [20, 10], [20, 0]]] };
+
+function post(body: unknown): Request {
+  return new Request(URL_BASE, { method: 'POST', body: JSON.stringify(body) });
+}
+
+async function postFilter(body: unknown) {
+  const request = post(body);
+  return parseAreaFilter(request, new URL(request.url));
+}
+
+function at(lng: number, lat: number) {
+  return { id: `alert_${lng}_${lat}`, coordinates: { lat, lng } };
+}
+
+describe('parseBbox', () => {
+  it('reads west,south,east,north and rounds outwards to four decimals', () => {
+    expect(parseBbox('-62.12345,-3.98761,-61.00001,-2.5')).toEqual([-62.1235, -3.9877, -61, -2.5]);
+  });
+
+  it.each([
+    ['1,2,3', /west,south,east,north/],
+    ['a,0,1,1', /west,south,east,north/],
+    ['-181,0,10,10', /outside/],
+    ['0,-91,10,10', /outside/],
+    ['10,0,0,10', /west < east/],
+    ['0,10,10,10', /south < north/],
+  ])('rejects %s', (raw, message) => {
+    expect(() => parseBbox(raw)).toThrow(message);
+  });
+});
+
+describe('parseAreaFilter', () => {
+  it('has no filter without a bbox', async () => {
+    expect(await parseAreaFilter(new Request(URL_BASE), new URL(URL_BASE))).toBeNull();
+  });
+
+  it('filters by the bbox on the query string', async () => {
+    const url = new URL(`${URL_BASE}?bbox=1,2,3,4`);
+    expect(await parseAreaFilter(new Request(url), url)).toEqual({ bbox: [1, 2, 3, 4], key: 'bbox:1,2,3,4' });
+  });
+
+  it('reads polygons from bare geometry, features and wrapped bodies', async () => {
+    const fromGeometry = await postFilter(SQUARE_WITH_HOLE);
+    expect(fromGeometry).toMatchObject({ bbox: [0, 0, 10, 10], polygons: [SQUARE_WITH_HOLE.coordinates] });
+    expect(fromGeometry?.key).toMatch(/^polygon:[0-9a-f]{16}$/);
+
+    expect(await postFilter({ type: 'Feature', geometry: SQUARE_WITH_HOLE, properties: {} })).toEqual(fromGeometry);
+    expect(await postFilter({ polygon: SQUARE_WITH_HOLE })).toEqual(fromGeometry);
+  });
+
+  it('covers every polygon of a collection with one bbox', async () => {
+    const filter = await postFilter({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', geometry: SQUARE_WITH_HOLE },
+        { type: 'Feature', geometry: { type: 'MultiPolygon', coordinates: [TRIANGLE.coordinates] } },
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [50, 50] } },
+      ],
+    });
+    expect(filter?.bbox).toEqual([0, 0, 30, 10]);
+    expect(filter?.polygons).toHaveLength(2);
+  });
+
+  it('keys different polygons apart', async () => {
+    expect((await postFilter(SQUARE_WITH_HOLE))?.key).not.toBe((await postFilter(TRIANGLE))?.key);
+  });
+
+  it('rejects bodies without a usable polygon', async () => {
+    await expect(parseAreaFilter(new Request(URL_BASE, { method: 'POST', body: 'not json' }), new URL(URL_BASE)))
+      .rejects.toThrow(/must be GeoJSON/);
+    await expect(postFilter({ type: 'Point', coordinates: [1, 2] })).rejects.toThrow(/Polygon or MultiPolygon/);
+    // A ring needs at least four positions to close
+    await expect(postFilter({ type: 'Polygon', coordinates: [[[0, 0], [1, 0], [0, 0]]] })).rejects.toThrow(/Polygon or MultiPolygon/);
+  });
+});
+
+describe('clipAlerts', () => {
+  it('passes everything through without a filter', () => {
+    const alerts = [at(0, 0), at(100, 50)];
+    expect(clipAlerts(alerts, null)).toBe(alerts);
+  });
+
+  it('keeps alerts inside the bbox, edges included', () => {
+    const clipped = clipAlerts([at(1, 2), at(3, 4), at(2, 3), at(0.9, 3), at(2, 4.1)], { bbox: [1, 2, 3, 4], key: 'bbox:1,2,3,4' });
+    expect(clipped.map((alert) => alert.id)).toEqual(['alert_1_2', 'alert_3_4', 'alert_2_3']);
+  });
+
+  it('keeps alerts inside a polygon shell but outside its holes', () => {
+    const clip = {
+      bbox: [0, 0, 30, 10] as [number, number, number, number],
+      polygons: [SQUARE_WITH_HOLE.coordinates, TRIANGLE.coordinates],
+      key: 'polygon:test',
+    };
+    const clipped = clipAlerts([at(1, 1), at(5, 5), at(9, 5), at(21, 1), at(29, 9), at(15, 5)], clip);
+    expect(clipped.map((alert) => alert.id)).toEqual(['alert_1_1', 'alert_9_5', 'alert_21_1']);
+  });
+});
@@ -0,0 +1,97 @@
+// Area filters for the alert routes: a bounding box on the query string or GeoJSON polygons in a
+// POST body
+import { hashString } from '../src/services/alertParsers';
+
+export interface AreaFilter {
+  bbox: [number, number, number, number];
+  polygons?: number[][][][];
+  key: string;
+}
+
+// `bbox=west,south,east,north` on the query string, or a GeoJSON Polygon/MultiPolygon (bare
+// geometry, Feature or FeatureCollection, optionally wrapped as `{ "polygon": ... }`) in a
+// POST body. FIRMS is queried with the bounding box; polygons are then clipped here.
+export async function parseAreaFilter(request: Request, url: URL): Promise<AreaFilter | null> {
+  if (request.method === 'POST') {
+    const body: any = await request.json().catch(() => null);
+    if (!body) throw new Error('Request body must be GeoJSON');
+    const polygons = extractPolygons(body.polygon ?? body);
+    if (polygons.length === 0) throw new Error('Request body must contain a GeoJSON Polygon or MultiPolygon');
+    let [west, south, east, north] = [180, 90, -180, -90];
+    for (const polygon of polygons) {
+      for (const [lng, lat] of polygon[0]) {
+        west = Math.min(west, lng);
+        south = Math.min(south, lat);
+        east = Math.max(east, lng);
+        north = Math.max(north, lat);
+      }
+    }
+    const bbox = normalizeBbox([west, south, east, north]);
+    return { bbox, polygons, key: `polygon:${hashString(JSON.stringify(polygons))}` };
+  }
+
+  const rawBbox = url.searchParams.get('bbox');
+  if (!rawBbox) return null;
+  const bbox = parseBbox(rawBbox);
+  return { bbox, key: `bbox:${bbox.join(',')}` };
+}
+
+export function parseBbox(raw: string): [number, number, number, number] {
+  const parts = raw.split(',').map((p) => parseFloat(p));
+  if (parts.length !== 4 || parts.some((p) => !Number.isFinite(p))) {
+    throw new Error('bbox must be west,south,east,north');
+  }
+  return normalizeBbox(parts as [number, number, number, number]);
+}
+
+function normalizeBbox([west, south, east, north]: [number, number, number, number]): [number, number, number, number] {
+  if (west < -180 || east > 180 || south < -90 || north > 90) throw new Error('bbox is outside -180,-90,180,90');
+  if (west >= east || south >= north) throw new Error('bbox must have west < east and south < north');
+  const round = (value: number, dir: 'down' | 'up') => (dir === 'down' ? Math.floor(value * 1e4) : Math.ceil(value * 1e4)) / 1e4;
+  return [round(west, 'down'), round(south, 'down'), round(east, 'up'), round(north, 'up')];
+}
+
+function extractPolygons(geojson: any): number[][][][] {
+  if (!geojson || typeof geojson !== 'object') return [];
+  switch (geojson.type) {
+    case 'FeatureCollection':
+      return (geojson.features || []).flatMap((feature: any) => extractPolygons(feature));
+    case 'Feature':
+      return extractPolygons(geojson.geometry);
+    case 'Polygon':
+      return isPolygonCoordinates(geojson.coordinates) ? [geojson.coordinates] : [];
+    case 'MultiPolygon':
+      return Array.isArray(geojson.coordinates) ? geojson.coordinates.filter(isPolygonCoordinates) : [];
+    default:
+      return [];
+  }
+}
+
+function isPolygonCoordinates(coords: any): coords is number[][][] {
+  return Array.isArray(coords) && coords.length > 0 && coords.every((ring: any) =>
+    Array.isArray(ring) && ring.length >= 4 && ring.every((pt: any) => Array.isArray(pt) && Number.isFinite(pt[0]) && Number.isFinite(pt[1])),
+  );
+}
+
+export function clipAlerts(alerts: any[], clip: AreaFilter | null): any[] {
+  if (!clip) return alerts;
+  const [west, south, east, north] = clip.bbox;
+  return alerts.filter(({ coordinates: { lat, lng } }) => {
+    if (lng < west || lng > east || lat < south || lat > north) return false;
+    return !clip.polygons || clip.polygons.some((polygon) => pointInPolygon(lng, lat, polygon));
+  });
+}
+
+// Even-odd ray casting; the first ring is the shell and any further rings are holes
+function pointInPolygon(x: number, y: number, polygon: number[][][]): boolean {
+  const inRing = (ring: number[][]) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+  };
+  return inRing(polygon[0]) && !polygon.slice(1).some(inRing);
+}
@@ -0,0 +1,155 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { verifyBearerToken, AuthConfig } from './auth';
+
+const NOW_S = Math.floor(Date.parse('2026-10-17T12:00:00.000Z') / 1000);
+const SECRET = 'super-secret-jwt-token-with-at-least-32-characters';
+
+const encoder = new TextEncoder();
+
+function base64Url(bytes: Uint8Array | string): string {
+  const raw = typeof bytes === 'string' ? encoder.encode(bytes) : bytes;
+  return btoa(String.fromCharCode(...raw)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function signJwt(header: Record<string, unknown>, claims: Record<string, unknown>, key: CryptoKey, algorithm: AlgorithmIdentifier | EcdsaParams): Promise<string> {
+  const signingInput = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`;
+  const signature = new Uint8Array(await crypto.subtle.sign(algorithm, key, encoder.encode(signingInput)));
+  return `${signingInput}.${base64Url(signature)}`;
+}
+
+function generateRsaKey(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(
+    { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' }, true, ['sign', 'verify'],
+  ) as Promise<CryptoKeyPair>;
+}
+
+async function hs256(claims: Record<string, unknown>, secret = SECRET): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return signJwt({ alg: 'HS256', typ: 'JWT' }, claims, key, 'HMAC');
+}
+
+function claims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return { sub: 'user-1', email: 'ranger@example.org', exp: NOW_S + 3600, iss: 'https://auth.example', aud: 'authenticated', ...overrides };
+}
+
+async function verify(token: string, config: AuthConfig) {
+  return verifyBearerToken(`Bearer ${token}`, config);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW_S * 1000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('verifyBearerToken with a shared secret', () => {
+  const config: AuthConfig = { secret: SECRET, issuer: 'https://auth.example', audience: 'authenticated' };
+
+  it('returns the claims of a valid token', async () => {
+    expect(await verify(await hs256(claims()), config)).toEqual({ ok: true, claims: claims() });
+  });
+
+  it('needs a configured verifier and a bearer token', async () => {
+    expect(await verifyBearerToken('Bearer x.y.z', {})).toEqual({ ok: false, status: 503, error: 'Authentication not configured' });
+    expect(await verifyBearerToken(null, config)).toEqual({ ok: false, status: 401, error: 'Missing bearer token' });
+    expect(await verifyBearerToken(`Basic ${await hs256(claims())}`, config)).toMatchObject({ status: 401, error: 'Missing bearer token' });
+  });
+
+  it.each([
+    ['a token signed with another secret', () => hs256(claims(), 'another-secret'), 'bad signature'],
+    ['an expired token', () => hs256(claims({ exp: NOW_S - 61 })), 'expired'],
+    ['a token without an expiry', () => hs256(claims({ exp: undefined })), 'expired'],
+    ['a token not valid yet', () => hs256(claims({ nbf: NOW_S + 61 })), 'not yet valid'],
+    ['a token from another issuer', () => hs256(claims({ iss: 'https://elsewhere.example' })), 'wrong issuer'],
+    ['a token for another audience', () => hs256(claims({ aud: ['other'] })), 'wrong audience'],
+    ['a token without a subject', () => hs256(claims({ sub: '' })), 'no subject'],
+    ['a token that is not a JWT', async () => 'not-a-jwt', 'malformed'],
+  ])('rejects %s', async (_, token, reason) => {
+    expect(await verify(await token(), config)).toEqual({ ok: false, status: 401, error: `Invalid token: ${reason}` });
+  });
+
+  it('allows a minute of clock skew and any listed audience', async () => {
+    expect(await verify(await hs256(claims({ exp: NOW_S - 60, nbf: NOW_S + 60 })), config)).toMatchObject({ ok: true });
+    expect(await verify(await hs256(claims({ aud: ['other', 'authenticated'] })), config)).toMatchObject({ ok: true });
+  });
+
+  it('refuses unsigned tokens', async () => {
+    const unsigned = `${base64Url(JSON.stringify({ alg: 'none' }))}.${base64Url(JSON.stringify(claims()))}.`;
+    expect(await verify(unsigned, config)).toMatchObject({ ok: false, error: 'Invalid token: unsupported algorithm none' });
+  });
+});
+
+describe('verifyBearerToken with a JWKS endpoint', () => {
+  let jwksUrl = '';
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let rsa: CryptoKeyPair;
+  let ec: CryptoKeyPair;
+  let published: (JsonWebKey & { kid: string })[];
+
+  beforeAll(async () => {
+    rsa = await generateRsaKey();
+    ec = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  });
+
+  beforeEach(async () => {
+    // The key set is cached per URL; a fresh URL keeps each test's fetches its own
+    jwksUrl = `https://auth.example/jwks-${Math.random().toString(36).slice(2)}.json`;
+    published = [
+      { ...await crypto.subtle.exportKey('jwk', rsa.publicKey), kid: 'rsa-1', use: 'sig' },
+      { ...await crypto.subtle.exportKey('jwk', ec.publicKey), kid: 'ec-1' },
+    ];
+    fetchMock = vi.fn(async () => new Response(JSON.stringify({ keys: published })));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  const rs256 = (kid: string, key = rsa.privateKey) => signJwt({ alg: 'RS256', kid }, claims(), key, 'RSASSA-PKCS1-v1_5');
+  const es256 = (kid: string) => signJwt({ alg: 'ES256', kid }, claims(), ec.privateKey, { name: 'ECDSA', hash: 'SHA-256' });
+
+  it('verifies RS256 and ES256 tokens against the published keys, fetching them once', async () => {
+    expect(await verify(await rs256('rsa-1'), { jwksUrl })).toMatchObject({ ok: true, claims: { sub: 'user-1' } });
+    expect(await verify(await es256('ec-1'), { jwksUrl })).toMatchObject({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(jwksUrl, expect.anything());
+  });
+
+  it('rejects a token signed by a key that is not published', async () => {
+    const other = await generateRsaKey();
+    expect(await verify(await rs256('rsa-1', other.privateKey), { jwksUrl })).toMatchObject({ ok: false, error: 'Invalid token: bad signature' });
+  });
+
+  it('does not accept HS256 tokens without a configured secret', async () => {
+    expect(await verify(await hs256(claims()), { jwksUrl })).toMatchObject({ ok: false, error: 'Invalid token: HS256 tokens are not accepted' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('refetches the key set for an unknown kid, at most every 30 seconds', async () => {
+    await verify(await rs256('rsa-1'), { jwksUrl });
+    expect(await verify(await rs256('rsa-2'), { jwksUrl })).toMatchObject({ ok: false, error: 'Invalid token: unknown signing key' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    published = [...published, { ...published[0], kid: 'rsa-2' }];
+    vi.setSystemTime((NOW_S + 31) * 1000);
+    expect(await verify(await rs256('rsa-2'), { jwksUrl })).toMatchObject({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('refetches the key set once it is ten minutes old', async () => {
+    await verify(await rs256('rsa-1'), { jwksUrl });
+    vi.setSystemTime((NOW_S + 599) * 1000);
+    await verify(await rs256('rsa-1'), { jwksUrl });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime((NOW_S + 601) * 1000);
+    expect(await verify(await rs256('rsa-1'), { jwksUrl })).toMatchObject({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports an unreachable key set as an invalid token', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('down', { status: 500 }));
+    expect(await verify(await rs256('rsa-1'), { jwksUrl })).toEqual({ ok: false, status: 401, error: 'Invalid token: JWKS fetch failed: 500' });
+  });
+});
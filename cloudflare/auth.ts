@@ -0,0 +1,105 @@
+// Bearer token verification for the worker
+// Accepts JWTs signed with a shared secret (HS256, e.g. a Supabase project's legacy JWT secret)
+// or by a key from a JWKS endpoint (RS256/ES256, e.g. Supabase signing keys or any OIDC
+// provider). Only WebCrypto is used, so this runs unchanged in workers and in Node.
+
+export interface AuthConfig {
+  jwksUrl?: string;
+  secret?: string;
+  issuer?: string;
+  audience?: string;
+}
+
+export interface AuthClaims {
+  sub: string;
+  email?: string;
+  exp: number;
+  user_metadata?: Record<string, unknown>;
+  [claim: string]: unknown;
+}
+
+export type AuthResult = { ok: true; claims: AuthClaims } | { ok: false; status: 401 | 503; error: string };
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+}
+
+// Signing keys rotate rarely; an unknown kid triggers one early refetch
+const JWKS_TTL_MS = 10 * 60 * 1000;
+const JWKS_MIN_REFETCH_MS = 30 * 1000;
+const CLOCK_SKEW_S = 60;
+
+const ALGORITHMS: Record<string, { import: RsaHashedImportParams | EcKeyImportParams | HmacImportParams; verify: AlgorithmIdentifier | EcdsaParams }> = {
+  HS256: { import: { name: 'HMAC', hash: 'SHA-256' }, verify: 'HMAC' },
+  RS256: { import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verify: 'RSASSA-PKCS1-v1_5' },
+  ES256: { import: { name: 'ECDSA', namedCurve: 'P-256' }, verify: { name: 'ECDSA', hash: 'SHA-256' } },
+};
+
+let jwksCache: { url: string; keys: Jwk[]; fetchedAt: number } | null = null;
+
+export function isAuthConfigured(config: AuthConfig): boolean {
+  return Boolean(config.jwksUrl || config.secret);
+}
+
+export async function verifyBearerToken(authorization: string | null, config: AuthConfig): Promise<AuthResult> {
+  if (!isAuthConfigured(config)) return { ok: false, status: 503, error: 'Authentication not configured' };
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) return { ok: false, status: 401, error: 'Missing bearer token' };
+  try {
+    return { ok: true, claims: await verifyJwt(token, config) };
+  } catch (error: any) {
+    return { ok: false, status: 401, error: `Invalid token: ${error?.message || 'verification failed'}` };
+  }
+}
+
+async function verifyJwt(token: string, config: AuthConfig): Promise<AuthClaims> {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new Error('malformed');
+  const header = JSON.parse(decodeBase64UrlText(parts[0]));
+  const algorithm = ALGORITHMS[header.alg];
+  if (!algorithm) throw new Error(`unsupported algorithm ${header.alg}`);
+
+  let key: CryptoKey;
+  if (header.alg === 'HS256') {
+    if (!config.secret) throw new Error('HS256 tokens are not accepted');
+    key = await crypto.subtle.importKey('raw', new TextEncoder().encode(config.secret), algorithm.import, false, ['verify']);
+  } else {
+    if (!config.jwksUrl) throw new Error(`${header.alg} tokens are not accepted`);
+    const jwk = await findSigningKey(config.jwksUrl, header.kid);
+    if (!jwk) throw new Error('unknown signing key');
+    key = await crypto.subtle.importKey('jwk', jwk, algorithm.import, false, ['verify']);
+  }
+  const signed = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+  if (!await crypto.subtle.verify(algorithm.verify, key, decodeBase64Url(parts[2]), signed)) throw new Error('bad signature');
+
+  const claims = JSON.parse(decodeBase64UrlText(parts[1]));
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp < now - CLOCK_SKEW_S) throw new Error('expired');
+  if (typeof claims.nbf === 'number' && claims.nbf > now + CLOCK_SKEW_S) throw new Error('not yet valid');
+  if (config.issuer && claims.iss !== config.issuer) throw new Error('wrong issuer');
+  if (config.audience && ![claims.aud].flat().includes(config.audience)) throw new Error('wrong audience');
+  if (typeof claims.sub !== 'string' || !claims.sub) throw new Error('no subject');
+  return claims;
+}
+
+async function findSigningKey(url: string, kid: string | undefined): Promise<Jwk | null> {
+  const pick = (keys: Jwk[]) => keys.find((key) => (kid ? key.kid === kid : true) && key.use !== 'enc') ?? null;
+  const age = jwksCache?.url === url ? Date.now() - jwksCache.fetchedAt : Infinity;
+  const cached = age < JWKS_TTL_MS ? pick(jwksCache!.keys) : null;
+  if (cached || age < JWKS_MIN_REFETCH_MS) return cached;
+
+  const res = await fetch(url, { headers: { 'Accept': 'application/json' } });
+  if (!res.ok) throw new Error(`JWKS fetch failed: ${res.status}`);
+  const body: any = await res.json();
+  jwksCache = { url, keys: Array.isArray(body?.keys) ? body.keys : [], fetchedAt: Date.now() };
+  return pick(jwksCache.keys);
+}
+
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function decodeBase64UrlText(value: string): string {
+  return new TextDecoder().decode(decodeBase64Url(value));
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { fuseFireDetections } from './fireFusion';
+
+function detection(id: string, lat: number, lng: number, timestamp: string, metadata: Record<string, unknown> = {}) {
+  return {
+    id,
+    timestamp,
+    location: 'Amazon Basin, Brazil',
+    type: 'fire',
+    severity: 'low',
+    confidence: 70,
+    description: 'Fire detected',
+    coordinates: { lat, lng },
+    metadata: { frp: 5, satellite: 'Suomi NPP', dataset: 'VIIRS_SNPP_NRT', dayNight: 'day', ...metadata },
+  };
+}
+
+// 0.009 degrees of latitude is about 1 km
+describe('fuseFireDetections', () => {
+  it('merges detections of one fire by different sensors into a confirmed event', () => {
+    const [event, ...rest] = fuseFireDetections([
+      detection('fire_a', -3, -62, '2026-10-17T04:10:00.000Z', { frp: 20 }),
+      detection('fire_b', -3.009, -62, '2026-10-17T05:30:00.000Z', { frp: 60, satellite: 'NOAA-20', dataset: 'VIIRS_NOAA20_NRT' }),
+      detection('fire_c', -3.0045, -62.0045, '2026-10-17T07:20:00.000Z', { frp: 10, satellite: 'Aqua', dataset: 'MODIS_NRT', dayNight: 'night' }),
+    ], 1.5, 6);
+
+    expect(rest).toEqual([]);
+    expect(event.timestamp).toBe('2026-10-17T04:10:00.000Z');
+    expect(event.severity).toBe('critical');
+    expect(event.metadata).toMatchObject({
+      frp: 60,
+      fused: true,
+      sensors: ['Aqua', 'NOAA-20', 'Suomi NPP'],
+      datasets: ['MODIS_NRT', 'VIIRS_NOAA20_NRT', 'VIIRS_SNPP_NRT'],
+      confirmations: 3,
+      detections: 3,
+      detectionIds: ['fire_a', 'fire_b', 'fire_c'],
+      firstSeen: '2026-10-17T04:10:00.000Z',
+      lastSeen: '2026-10-17T07:20:00.000Z',
+      dayNight: ['day', 'night'],
+    });
+    // Weighted towards the strongest detection
+    expect(event.coordinates.lat).toBeCloseTo(-3.0065, 4);
+    expect(event.description).toMatch(/^Fire confirmed by 3 satellites/);
+  });
+
+  it('keeps detections apart beyond the cluster distance or time window', () => {
+    const events = fuseFireDetections([
+      detection('fire_a', -3, -62, '2026-10-17T04:00:00.000Z'),
+      detection('fire_b', -3.018, -62, '2026-10-17T04:00:00.000Z'),
+      detection('fire_c', -3, -62, '2026-10-17T11:00:00.000Z'),
+    ], 1.5, 6);
+
+    expect(events.map((event) => event.metadata.detectionIds)).toEqual([['fire_c'], ['fire_a'], ['fire_b']]);
+    expect(events[0]).toMatchObject({ severity: 'low', metadata: { confirmations: 1 } });
+    expect(events[0].description).toMatch(/^Fire detected by Suomi NPP/);
+  });
+
+  it('chains detections that are each within reach of the next', () => {
+    const chain = [0, 1, 2, 3].map((i) => detection(`fire_${i}`, -3 - i * 0.012, -62, '2026-10-17T04:00:00.000Z'));
+
+    expect(fuseFireDetections(chain, 1.5, 6)).toHaveLength(1);
+    expect(fuseFireDetections(chain, 1, 6)).toHaveLength(4);
+  });
+
+  it('names an event after its detections, whatever order they arrive in', () => {
+    const detections = [
+      detection('fire_a', -3, -62, '2026-10-17T04:00:00.000Z'),
+      detection('fire_b', -3.005, -62, '2026-10-17T05:00:00.000Z', { satellite: 'NOAA-20' }),
+    ];
+
+    const [event] = fuseFireDetections(detections, 1.5, 6);
+    expect(event.id).toMatch(/^fire_evt_[0-9a-f]{16}$/);
+    expect(fuseFireDetections([...detections].reverse(), 1.5, 6)[0].id).toBe(event.id);
+  });
+
+  it('returns no events for no detections', () => {
+    expect(fuseFireDetections([], 1.5, 6)).toEqual([]);
+  });
+});
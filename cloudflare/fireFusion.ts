@@ -0,0 +1,107 @@
+// Multi-sensor fire fusion for /fire-alerts?mode=fused
+// MODIS and the VIIRS platforms each report their own detections of the same fire; fusion merges
+// them into fire events and counts the sensors that confirmed each one.
+import { calculateFireSeverity, getLocationName, hashString } from '../src/services/alertParsers';
+
+// Groups detections that lie within clusterKm of each other and within clusterHours in time
+// (single-link) into one fire event, so the same fire seen by MODIS and both VIIRS platforms
+// is reported once with the list of sensors that confirmed it. A spatial grid keeps this
+// close to linear; longitudes are not wrapped at the antimeridian.
+export function fuseFireDetections(detections: any[], clusterKm: number, clusterHours: number): any[] {
+  const parent = detections.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[rb] = ra;
+  };
+
+  const windowMs = clusterHours * 60 * 60 * 1000;
+  const times = detections.map((d) => new Date(d.timestamp).getTime());
+  const cellOf = (d: any): [number, number] => {
+    const { lat, lng } = d.coordinates;
+    const y = (lat * 110.57) / clusterKm;
+    const x = (lng * 111.32 * Math.cos((lat * Math.PI) / 180)) / clusterKm;
+    return [Math.floor(x), Math.floor(y)];
+  };
+
+  const grid = new Map<string, number[]>();
+  detections.forEach((d, i) => {
+    const [cx, cy] = cellOf(d);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const j of grid.get(`${cx + dx}:${cy + dy}`) || []) {
+          if (Math.abs(times[i] - times[j]) > windowMs) continue;
+          if (distanceKm(d.coordinates, detections[j].coordinates) <= clusterKm) union(i, j);
+        }
+      }
+    }
+    const key = `${cx}:${cy}`;
+    const bucket = grid.get(key);
+    if (bucket) bucket.push(i);
+    else grid.set(key, [i]);
+  });
+
+  const clusters = new Map<number, any[]>();
+  detections.forEach((d, i) => {
+    const root = find(i);
+    const members = clusters.get(root);
+    if (members) members.push(d);
+    else clusters.set(root, [d]);
+  });
+
+  const events: any[] = [];
+  for (const members of clusters.values()) {
+    const sensors = Array.from(new Set(members.map((m) => m.metadata.satellite))).sort();
+    const datasets = Array.from(new Set(members.map((m) => m.metadata.dataset))).sort();
+    const frp = Math.max(...members.map((m) => m.metadata.frp || 0));
+    const confidence = Math.max(...members.map((m) => m.confidence || 0));
+    const weights = members.map((m) => Math.max(m.metadata.frp || 0, 0.1));
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const lat = members.reduce((sum, m, i) => sum + m.coordinates.lat * weights[i], 0) / totalWeight;
+    const lng = members.reduce((sum, m, i) => sum + m.coordinates.lng * weights[i], 0) / totalWeight;
+    const timestamps = members.map((m) => m.timestamp).sort();
+    const detectionIds = members.map((m) => m.id).sort();
+
+    events.push({
+      id: `fire_evt_${hashString(detectionIds.join('|'))}`,
+      timestamp: timestamps[0],
+      location: getLocationName(lat, lng),
+      type: 'fire',
+      severity: calculateFireSeverity(frp, confidence, sensors.length),
+      confidence,
+      description: sensors.length > 1
+        ? `Fire confirmed by ${sensors.length} satellites (${sensors.join(', ')}) with ${frp.toFixed(1)} MW peak radiative power`
+        : `Fire detected by ${sensors[0]} with ${frp.toFixed(1)} MW peak radiative power`,
+      coordinates: { lat, lng },
+      metadata: {
+        frp,
+        fused: true,
+        sensors,
+        datasets,
+        confirmations: sensors.length,
+        detections: members.length,
+        detectionIds,
+        firstSeen: timestamps[0],
+        lastSeen: timestamps[timestamps.length - 1],
+        dayNight: Array.from(new Set(members.map((m) => m.metadata.dayNight))).sort(),
+      },
+    });
+  }
+
+  return events.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+function distanceKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.min(1, Math.sqrt(h)));
+}
@@ -0,0 +1,68 @@
+// Encryption for upstream API keys stored by users (rows in api_keys, migrations/0004_api_keys.sql)
+// Keys are sealed with AES-256-GCM under a key derived with HKDF-SHA-256 from KEY_VAULT_SECRET.
+// The owner, key id and service are bound as additional data, so a ciphertext copied to another
+// row or user fails to open. Rotating KEY_VAULT_SECRET makes every stored key unreadable.
+import type { ApiKeyService } from '../src/services/forestDomain';
+
+export interface SealedKey {
+  ciphertext: string; // base64, GCM tag included
+  iv: string; // base64
+}
+
+export interface VaultKeyContext {
+  userId: string;
+  id: string;
+  service: ApiKeyService;
+}
+
+const HKDF_INFO = 'forest-worker api-key vault v1';
+const IV_BYTES = 12;
+
+let derived: { secret: string; key: Promise<CryptoKey> } | null = null;
+
+export async function sealApiKey(secret: string, context: VaultKeyContext, plaintext: string): Promise<SealedKey> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: additionalData(context) },
+    await vaultKey(secret),
+    new TextEncoder().encode(plaintext),
+  );
+  return { ciphertext: toBase64(new Uint8Array(ciphertext)), iv: toBase64(iv) };
+}
+
+// Throws when the secret changed or the row was tampered with
+export async function openApiKey(secret: string, context: VaultKeyContext, sealed: SealedKey): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(sealed.iv), additionalData: additionalData(context) },
+    await vaultKey(secret),
+    fromBase64(sealed.ciphertext),
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+function vaultKey(secret: string): Promise<CryptoKey> {
+  if (derived?.secret !== secret) {
+    const key = crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'HKDF', false, ['deriveKey'])
+      .then((material) => crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode(HKDF_INFO) },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+      ));
+    derived = { secret, key };
+  }
+  return derived.key;
+}
+
+function additionalData(context: VaultKeyContext): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify([context.userId, context.id, context.service]));
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,95 @@
+-- Forest data store for the Cloudflare worker (D1 / SQLite)
+-- SQLite port of the tables from the deprecated Supabase migration
+-- (deprecated/supabase_deprecated/migrations/20241209000001_forest_data_tables.sql):
+-- timestamps are ISO-8601 UTC text so they sort lexically, JSONB columns are JSON text.
+-- Apply with: npx wrangler d1 migrations apply forest-store [--local]
+
+-- Normalized alerts from every source, keyed by the stable ids the worker generates
+CREATE TABLE IF NOT EXISTS forest_alerts (
+  id TEXT PRIMARY KEY,
+  timestamp TEXT NOT NULL,
+  location TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('fire', 'deforestation', 'biodiversity', 'weather', 'illegal_logging', 'disease')),
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  confidence REAL,
+  description TEXT,
+  coordinates TEXT NOT NULL CHECK (json_valid(coordinates)),
+  metadata TEXT NOT NULL DEFAULT '{}' CHECK (json_valid(metadata)),
+  source TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  -- Derived from coordinates for bounding-box queries
+  lat REAL GENERATED ALWAYS AS (json_extract(coordinates, '$.lat')) VIRTUAL,
+  lng REAL GENERATED ALWAYS AS (json_extract(coordinates, '$.lng')) VIRTUAL
+);
+
+CREATE INDEX IF NOT EXISTS idx_forest_alerts_timestamp ON forest_alerts(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_forest_alerts_type ON forest_alerts(type, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_forest_alerts_severity ON forest_alerts(severity);
+CREATE INDEX IF NOT EXISTS idx_forest_alerts_location ON forest_alerts(lat, lng);
+
+CREATE TABLE IF NOT EXISTS webhook_logs (
+  id TEXT PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  data TEXT NOT NULL CHECK (json_valid(data)),
+  source TEXT,
+  status TEXT NOT NULL DEFAULT 'success',
+  error_message TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_event_type ON webhook_logs(event_type);
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_created_at ON webhook_logs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_status ON webhook_logs(status);
+
+CREATE TABLE IF NOT EXISTS update_timestamps (
+  update_type TEXT PRIMARY KEY,
+  last_update TEXT NOT NULL,
+  next_scheduled TEXT,
+  metadata TEXT NOT NULL DEFAULT '{}' CHECK (json_valid(metadata))
+);
+
+CREATE TABLE IF NOT EXISTS forest_regions (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  lat REAL NOT NULL,
+  lng REAL NOT NULL,
+  health_score REAL,
+  deforestation_rate REAL,
+  biodiversity_index REAL,
+  alert_level TEXT CHECK (alert_level IN ('low', 'medium', 'high', 'critical')),
+  area INTEGER,
+  forest_cover REAL,
+  fire_risk REAL,
+  temperature REAL,
+  precipitation REAL,
+  last_update TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  metadata TEXT NOT NULL DEFAULT '{}' CHECK (json_valid(metadata)),
+  source TEXT NOT NULL DEFAULT 'server'
+);
+
+CREATE INDEX IF NOT EXISTS idx_forest_regions_location ON forest_regions(lat, lng);
+CREATE INDEX IF NOT EXISTS idx_forest_regions_alert_level ON forest_regions(alert_level);
+CREATE INDEX IF NOT EXISTS idx_forest_regions_health_score ON forest_regions(health_score DESC);
+
+CREATE TABLE IF NOT EXISTS species_data (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  scientific_name TEXT NOT NULL,
+  conservation_status TEXT,
+  population INTEGER,
+  trend REAL,
+  habitat TEXT,
+  threat_level REAL,
+  confidence REAL,
+  last_seen TEXT,
+  coordinates TEXT CHECK (coordinates IS NULL OR json_valid(coordinates)),
+  metadata TEXT NOT NULL DEFAULT '{}' CHECK (json_valid(metadata)),
+  source TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_species_data_conservation_status ON species_data(conservation_status);
+CREATE INDEX IF NOT EXISTS idx_species_data_threat_level ON species_data(threat_level DESC);
+CREATE INDEX IF NOT EXISTS idx_species_data_scientific_name ON species_data(scientific_name);
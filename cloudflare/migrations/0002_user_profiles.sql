@@ -0,0 +1,20 @@
+-- User profiles keyed by the verified token subject (the Supabase user id)
+-- Port of user_profiles from the deprecated Supabase migration; permissions are only written by
+-- administrators, e.g.
+--   npx wrangler d1 execute forest-store --command "UPDATE user_profiles SET permissions = '[\"view_alerts\",\"manage_regions\",\"export_data\"]' WHERE email = '...'"
+
+CREATE TABLE IF NOT EXISTS user_profiles (
+  id TEXT PRIMARY KEY,
+  email TEXT,
+  name TEXT NOT NULL,
+  organization TEXT NOT NULL DEFAULT '',
+  role TEXT NOT NULL DEFAULT '',
+  regions TEXT NOT NULL DEFAULT '[]' CHECK (json_valid(regions)),
+  permissions TEXT NOT NULL DEFAULT '[]' CHECK (json_valid(permissions)),
+  last_login TEXT,
+  metadata TEXT NOT NULL DEFAULT '{}' CHECK (json_valid(metadata)),
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_email ON user_profiles(email);
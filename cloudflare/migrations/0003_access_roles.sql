@@ -0,0 +1,7 @@
+-- Access roles for user profiles (ACCESS_ROLES in src/services/forestDomain.ts)
+-- A profile's permissions are its role's plus the individual grants in `permissions`. Existing
+-- profiles become volunteers and keep their grants, so nobody loses access. Promote with e.g.
+--   npx wrangler d1 execute forest-store --command "UPDATE user_profiles SET access_role = 'admin' WHERE email = '...'"
+
+ALTER TABLE user_profiles ADD COLUMN access_role TEXT NOT NULL DEFAULT 'volunteer'
+  CHECK (access_role IN ('volunteer', 'researcher', 'admin'));
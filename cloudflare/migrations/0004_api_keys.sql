@@ -0,0 +1,17 @@
+-- Upstream API keys stored by users (cloudflare/keyVault.ts)
+-- Only AES-GCM ciphertext is stored; the worker decrypts a key when a request references it by
+-- id and never returns it. `hint` is the key's last four characters, for telling keys apart.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  service TEXT NOT NULL CHECK (service IN ('nasa_firms', 'openweather', 'global_forest_watch')),
+  label TEXT NOT NULL DEFAULT '',
+  hint TEXT NOT NULL,
+  ciphertext TEXT NOT NULL,
+  iv TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  last_used_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id, created_at DESC);
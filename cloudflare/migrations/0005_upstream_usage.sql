@@ -0,0 +1,10 @@
+-- Upstream calls per provider per UTC day (cloudflare/rateLimits.ts)
+-- Worker instances add their calls here about once a minute and read back the totals, so every
+-- instance sees roughly how much of each provider's daily quota (RATE_LIMITS) is left.
+
+CREATE TABLE IF NOT EXISTS upstream_usage (
+  provider TEXT NOT NULL,
+  day TEXT NOT NULL, -- YYYY-MM-DD, UTC
+  calls INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (provider, day)
+);
@@ -0,0 +1,5 @@
+-- Storage order of alerts for GET /alerts/stream
+-- The stream resumes from a (created_at, id) cursor and polls for rows past it, so both columns
+-- are indexed together.
+
+CREATE INDEX IF NOT EXISTS idx_forest_alerts_created_at ON forest_alerts(created_at, id);
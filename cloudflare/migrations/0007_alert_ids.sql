@@ -0,0 +1,27 @@
+-- Collision-free ids for stored upstream alerts (firmsDetectionId and integratedAlertId in
+-- src/services/alertParsers.ts)
+-- FIRMS detections and GFW integrated alerts used to be keyed by a 32-bit hash, which collides
+-- within days of global data, and the upsert then overwrote one detection with another. Their ids
+-- now spell the detection out; rows stored under a hash get the same id from the columns kept
+-- with them, so later fetches update them instead of storing them twice. Detections already
+-- overwritten by a collision cannot be recovered.
+
+UPDATE OR REPLACE forest_alerts
+SET id = 'fire_' || json_extract(metadata, '$.dataset')
+  || '_' || json_extract(metadata, '$.acqDate')
+  || '_' || json_extract(metadata, '$.acqTime')
+  || '_' || printf('%.4f', lat)
+  || '_' || printf('%.4f', lng)
+WHERE source LIKE 'nasa-firms%'
+  AND id GLOB 'fire_[0-9a-f][0-9a-f][0-9a-f][0-9a-f][0-9a-f][0-9a-f][0-9a-f][0-9a-f]'
+  AND json_extract(metadata, '$.dataset') IS NOT NULL
+  AND json_extract(metadata, '$.acqDate') IS NOT NULL
+  AND json_extract(metadata, '$.acqTime') IS NOT NULL;
+
+UPDATE OR REPLACE forest_alerts
+SET id = 'deforest_' || json_extract(metadata, '$.date')
+  || '_' || printf('%.5f', lat)
+  || '_' || printf('%.5f', lng)
+WHERE source = 'gfw-integrated-alerts'
+  AND id GLOB 'deforest_[0-9a-f][0-9a-f][0-9a-f][0-9a-f][0-9a-f][0-9a-f][0-9a-f][0-9a-f]'
+  AND json_extract(metadata, '$.date') IS NOT NULL;
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { countUpstreamCall, quotaStatus, takeToken, UPSTREAM_QUOTAS } from './rateLimits';
+
+// Buckets and usage live in module memory: each test uses its own client names and UTC day
+const NOON = Date.parse('2026-10-17T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('takeToken', () => {
+  it('lets a new client spend a full bucket, then refuses', () => {
+    const results = Array.from({ length: 4 }, () => takeToken('burst', 3, NOON));
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3]).toEqual({ allowed: false, limit: 3, remaining: 0, retryAfterSeconds: 20 });
+  });
+
+  it('refills continuously at the per-minute rate', () => {
+    for (let i = 0; i < 60; i++) takeToken('refill', 60, NOON);
+    expect(takeToken('refill', 60, NOON).allowed).toBe(false);
+
+    expect(takeToken('refill', 60, NOON + 500)).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+    expect(takeToken('refill', 60, NOON + 1000)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(takeToken('refill', 60, NOON + 11_000)).toMatchObject({ allowed: true, remaining: 9 });
+  });
+
+  it('never holds more than one minute of tokens', () => {
+    takeToken('idle', 10, NOON);
+    expect(takeToken('idle', 10, NOON + 60 * 60 * 1000)).toMatchObject({ allowed: true, remaining: 9 });
+  });
+
+  it('keeps a bucket per client', () => {
+    takeToken('user:a', 1, NOON);
+    expect(takeToken('user:a', 1, NOON).allowed).toBe(false);
+    expect(takeToken('user:b', 1, NOON).allowed).toBe(true);
+  });
+});
+
+describe('quotaStatus', () => {
+  it('counts upstream calls against the daily quota', () => {
+    const now = NOON;
+    for (let i = 0; i < 3; i++) countUpstreamCall('gbif', now);
+
+    expect(quotaStatus('gbif', now)).toEqual({
+      limit: UPSTREAM_QUOTAS.gbif,
+      used: 3,
+      remaining: UPSTREAM_QUOTAS.gbif - 3,
+      reserve: false,
+      exhausted: false,
+      resetsAt: '2026-10-18T00:00:00.000Z',
+    });
+  });
+
+  it('holds back the last tenth of a quota and reports it used up at zero', () => {
+    const now = NOON + DAY_MS;
+    const limit = UPSTREAM_QUOTAS.nasa_firms;
+    for (let i = 0; i < limit * 0.9 - 1; i++) countUpstreamCall('nasa_firms', now);
+    expect(quotaStatus('nasa_firms', now).reserve).toBe(false);
+
+    countUpstreamCall('nasa_firms', now);
+    expect(quotaStatus('nasa_firms', now)).toMatchObject({ reserve: true, exhausted: false });
+
+    for (let i = 0; i < limit * 0.1 + 5; i++) countUpstreamCall('nasa_firms', now);
+    expect(quotaStatus('nasa_firms', now)).toMatchObject({ used: limit + 5, remaining: 0, reserve: true, exhausted: true });
+  });
+
+  it('starts every UTC day from zero', () => {
+    const lateEvening = Date.parse('2026-10-19T23:59:59.000Z');
+    countUpstreamCall('openweather', lateEvening);
+    expect(quotaStatus('openweather', lateEvening).used).toBe(1);
+
+    expect(quotaStatus('openweather', lateEvening + 1000)).toMatchObject({ used: 0, resetsAt: '2026-10-21T00:00:00.000Z' });
+  });
+});
@@ -0,0 +1,133 @@
+// Client rate limiting and upstream quota accounting for the worker
+// Each client gets a token bucket, keyed by user id for requests with a valid bearer token and by
+// IP otherwise. Buckets live in isolate memory, so the limit holds per worker instance: enough to
+// stop a runaway client, not an exact global count.
+// Upstream calls are counted per provider per UTC day against the daily quotas in RATE_LIMITS.
+// Counts are kept in memory and merged with the upstream_usage table
+// (migrations/0005_upstream_usage.sql) at most once every USAGE_SYNC_MS, so each instance sees
+// the others' calls with a short delay; without a store each instance only knows its own.
+import { RATE_LIMITS } from '../src/services/apiConfig';
+import { addUpstreamUsage, readUpstreamUsage, D1Database } from './alertStore';
+
+export type UpstreamProvider = 'nasa_firms' | 'openweather' | 'global_forest_watch' | 'gbif';
+
+export const UPSTREAM_QUOTAS: Record<UpstreamProvider, number> = {
+  nasa_firms: RATE_LIMITS.NASA_FIRMS,
+  openweather: RATE_LIMITS.OPENWEATHER,
+  global_forest_watch: RATE_LIMITS.GLOBAL_FOREST_WATCH,
+  gbif: RATE_LIMITS.GBIF,
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export interface QuotaStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  // Little enough left that cached copies are served instead of calling the upstream
+  reserve: boolean;
+  exhausted: boolean;
+  resetsAt: string;
+}
+
+// Share of a daily quota held back for requests nothing cached can answer
+const QUOTA_RESERVE_FRACTION = 0.1;
+const USAGE_SYNC_MS = 60 * 1000;
+const MAX_BUCKETS = 10_000;
+
+const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+let usage: { day: string; calls: Record<string, number>; pending: Record<string, number>; syncedAt: number } = {
+  day: '', calls: {}, pending: {}, syncedAt: 0,
+};
+
+// Buckets hold `perMinute` tokens and refill continuously at the same rate per minute
+export function takeToken(client: string, perMinute: number, now: number = Date.now()): RateLimitResult {
+  const refillPerMs = perMinute / 60_000;
+  const bucket = buckets.get(client) ?? { tokens: perMinute, updatedAt: now };
+  bucket.tokens = Math.min(perMinute, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+  bucket.updatedAt = now;
+  const allowed = bucket.tokens >= 1;
+  if (allowed) bucket.tokens -= 1;
+  // Re-inserting keeps the map in least-recently-used order, so eviction drops idle clients
+  buckets.delete(client);
+  buckets.set(client, bucket);
+  if (buckets.size > MAX_BUCKETS) buckets.delete(buckets.keys().next().value!);
+  return {
+    allowed,
+    limit: perMinute,
+    remaining: Math.floor(bucket.tokens),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((1 - bucket.tokens) / refillPerMs / 1000),
+  };
+}
+
+export function countUpstreamCall(provider: UpstreamProvider, now: number = Date.now()): void {
+  const today = currentUsage(now);
+  today.calls[provider] = (today.calls[provider] ?? 0) + 1;
+  today.pending[provider] = (today.pending[provider] ?? 0) + 1;
+}
+
+export function quotaStatus(provider: UpstreamProvider, now: number = Date.now()): QuotaStatus {
+  const limit = UPSTREAM_QUOTAS[provider];
+  const used = currentUsage(now).calls[provider] ?? 0;
+  const remaining = Math.max(0, limit - used);
+  return {
+    limit,
+    used,
+    remaining,
+    reserve: remaining <= limit * QUOTA_RESERVE_FRACTION,
+    exhausted: remaining === 0,
+    resetsAt: `${nextDay(now)}T00:00:00.000Z`,
+  };
+}
+
+export function quotaStatuses(now: number = Date.now()): Record<UpstreamProvider, QuotaStatus> {
+  return Object.fromEntries(
+    (Object.keys(UPSTREAM_QUOTAS) as UpstreamProvider[]).map((provider) => [provider, quotaStatus(provider, now)]),
+  ) as Record<UpstreamProvider, QuotaStatus>;
+}
+
+// Writes this instance's new calls and reads back everyone's totals; a no-op until USAGE_SYNC_MS
+// has passed since the last sync. Failures are logged and the calls retried next time.
+export async function syncUpstreamUsage(db: D1Database | undefined, now: number = Date.now()): Promise<void> {
+  const today = currentUsage(now);
+  if (!db || now - today.syncedAt < USAGE_SYNC_MS) return;
+  today.syncedAt = now;
+  const pending = today.pending;
+  today.pending = {};
+  try {
+    await addUpstreamUsage(db, today.day, pending);
+  } catch (error: any) {
+    for (const [provider, count] of Object.entries(pending)) {
+      today.pending[provider] = (today.pending[provider] ?? 0) + count;
+    }
+    console.warn('Quota: could not record upstream usage:', error?.message || error);
+    return;
+  }
+  try {
+    const totals = await readUpstreamUsage(db, today.day);
+    // Calls made while the sync ran are not in the totals yet
+    for (const provider of new Set([...Object.keys(totals), ...Object.keys(today.calls)])) {
+      today.calls[provider] = (totals[provider] ?? 0) + (today.pending[provider] ?? 0);
+    }
+  } catch (error: any) {
+    console.warn('Quota: could not read upstream usage:', error?.message || error);
+  }
+}
+
+function currentUsage(now: number): typeof usage {
+  const day = new Date(now).toISOString().slice(0, 10);
+  if (usage.day !== day) usage = { day, calls: {}, pending: {}, syncedAt: 0 };
+  return usage;
+}
+
+function nextDay(now: number): string {
+  const date = new Date(now);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
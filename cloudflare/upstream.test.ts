@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Breakers live in module memory; each test imports a fresh copy of the module
+let upstreamFetch: typeof import('./upstream').upstreamFetch;
+let upstreamStatuses: typeof import('./upstream').upstreamStatuses;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+const NOW = Date.parse('2026-10-17T12:00:00.000Z');
+const URL_GET = 'https://api.openweathermap.org/data/2.5/weather';
+
+function respond(...responses: (Response | Error)[]) {
+  for (const response of responses) {
+    if (response instanceof Error) fetchMock.mockRejectedValueOnce(response);
+    else fetchMock.mockResolvedValueOnce(response);
+  }
+}
+
+function status(code: number, headers: Record<string, string> = {}): Response {
+  return new Response(null, { status: code, headers });
+}
+
+// Settles the call while stepping the fake clock through its retry delays
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  const result = promise.then((value) => ({ value }), (error) => ({ error }));
+  await vi.runAllTimersAsync();
+  const outcome: { value?: T; error?: unknown } = await result;
+  if ('error' in outcome) throw outcome.error;
+  return outcome.value as T;
+}
+
+// Opens the breaker with failed POSTs, which are never retried
+async function openBreaker(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    respond(new TypeError('fetch failed'));
+    await expect(settle(upstreamFetch('gbif', 'https://api.gbif.org/v1/occurrence', { method: 'POST' }))).rejects.toThrow();
+  }
+}
+
+beforeEach(async () => {
+  vi.resetModules();
+  ({ upstreamFetch, upstreamStatuses } = await import('./upstream'));
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+  vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  fetchMock = vi.fn();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('upstreamFetch retries', () => {
+  it('retries GETs that get 429 or 5xx with exponential backoff', async () => {
+    respond(status(503), status(429), status(200));
+
+    const call = upstreamFetch('openweather', URL_GET);
+    await vi.advanceTimersByTimeAsync(249);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(500);
+    expect((await call).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(upstreamStatuses().openweather).toEqual({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('returns the last error response once the retries are spent', async () => {
+    respond(status(502), status(502), status(500));
+
+    expect((await settle(upstreamFetch('openweather', URL_GET))).status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(upstreamStatuses().openweather).toMatchObject({ state: 'closed', consecutiveFailures: 1, lastError: 'HTTP 500' });
+  });
+
+  it('throws after retrying connection failures', async () => {
+    respond(new TypeError('fetch failed'), new TypeError('fetch failed'));
+
+    await expect(settle(upstreamFetch('global_forest_watch', 'https://data-api.globalforestwatch.org/dataset')))
+      .rejects.toThrow('Global Forest Watch request failed: fetch failed');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry a POST', async () => {
+    respond(status(503));
+
+    expect((await settle(upstreamFetch('openweather', URL_GET, { method: 'POST' }))).status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns other 4xx responses as they are, without counting a failure', async () => {
+    respond(status(401));
+
+    expect((await settle(upstreamFetch('openweather', URL_GET))).status).toBe(401);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(upstreamStatuses().openweather.consecutiveFailures).toBe(0);
+  });
+
+  it('waits out a short Retry-After and gives up on a long one', async () => {
+    respond(status(429, { 'Retry-After': '2' }), status(200));
+    const call = upstreamFetch('openweather', URL_GET);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await call).status).toBe(200);
+
+    fetchMock.mockClear();
+    respond(status(429, { 'Retry-After': '60' }));
+    expect((await settle(upstreamFetch('openweather', URL_GET))).status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out a hanging provider once, without retrying', async () => {
+    fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')));
+    }));
+
+    await expect(settle(upstreamFetch('openweather', URL_GET))).rejects.toThrow('OpenWeather request failed: timed out after 5000ms');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('upstreamFetch circuit breaker', () => {
+  it('opens after five failed calls in a row and then fails fast', async () => {
+    await openBreaker();
+    fetchMock.mockClear();
+
+    await expect(upstreamFetch('gbif', 'https://api.gbif.org/v1/species')).rejects.toThrow(/^GBIF unavailable \(circuit open until 2026-10-17T12:01:00.000Z\): fetch failed$/);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(upstreamStatuses().gbif).toEqual({
+      state: 'open',
+      consecutiveFailures: 5,
+      failingSince: '2026-10-17T12:00:00.000Z',
+      retryAt: '2026-10-17T12:01:00.000Z',
+      lastError: 'fetch failed',
+    });
+    // Other providers are unaffected
+    expect(upstreamStatuses().openweather.state).toBe('closed');
+  });
+
+  it('lets one trial call through after the cool-down and closes on success', async () => {
+    await openBreaker();
+    vi.setSystemTime(NOW + 60_000);
+    expect(upstreamStatuses().gbif.state).toBe('half-open');
+
+    let release: (res: Response) => void = () => {};
+    fetchMock.mockReturnValueOnce(new Promise<Response>((resolve) => { release = resolve; }));
+    const trial = upstreamFetch('gbif', 'https://api.gbif.org/v1/species');
+    await expect(upstreamFetch('gbif', 'https://api.gbif.org/v1/species')).rejects.toThrow(/GBIF unavailable/);
+
+    release(status(200));
+    expect((await trial).status).toBe(200);
+    expect(upstreamStatuses().gbif).toEqual({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('reopens for twice as long when the trial call fails, up to 15 minutes', async () => {
+    await openBreaker();
+    const expected = [120, 240, 480, 900, 900];
+    let openedAt = NOW;
+    for (const seconds of expected) {
+      const openMs = Date.parse(upstreamStatuses().gbif.retryAt!) - openedAt;
+      vi.setSystemTime(openedAt + openMs);
+      openedAt = Date.now();
+      respond(new TypeError('fetch failed'));
+      await expect(settle(upstreamFetch('gbif', 'https://api.gbif.org/v1/species', { method: 'POST' }))).rejects.toThrow('GBIF request failed');
+      expect(Date.parse(upstreamStatuses().gbif.retryAt!) - openedAt).toBe(seconds * 1000);
+    }
+  });
+});
@@ -0,0 +1,137 @@
+// Upstream fetch layer shared by the worker's handlers
+// Every call to a provider goes through upstreamFetch. It counts against the provider's daily
+// quota (rateLimits.ts), and it times out after the provider's limit. GET requests that fail to
+// connect or get 429/5xx are retried with jittered exponential backoff; a timeout is not retried,
+// so a hanging provider costs one timeout per request rather than several.
+// Each provider has a circuit breaker. It opens after BREAKER_THRESHOLD failed calls in a row; while
+// it is open, calls fail at once instead of waiting on a provider that is down, and handlers fall
+// back as for any other upstream error. After the cool-down a single trial call either closes it
+// or reopens it for twice as long. Other 4xx responses (a bad key, an unknown area) are returned
+// to the caller and do not count as failures.
+// Breaker state lives in isolate memory, so each worker instance notices an outage on its own.
+import { countUpstreamCall, UpstreamProvider } from './rateLimits';
+
+interface UpstreamPolicy {
+  name: string;
+  timeoutMs: number;
+  retries: number;
+}
+
+export interface UpstreamStatus {
+  state: 'closed' | 'open' | 'half-open';
+  consecutiveFailures: number;
+  // Start of the current run of failures, and when an open breaker lets a trial call through
+  failingSince?: string;
+  retryAt?: string;
+  lastError?: string;
+}
+
+const POLICIES: Record<UpstreamProvider, UpstreamPolicy> = {
+  nasa_firms: { name: 'NASA FIRMS', timeoutMs: 15_000, retries: 2 },
+  openweather: { name: 'OpenWeather', timeoutMs: 5_000, retries: 2 },
+  global_forest_watch: { name: 'Global Forest Watch', timeoutMs: 10_000, retries: 1 },
+  gbif: { name: 'GBIF', timeoutMs: 5_000, retries: 1 },
+};
+
+const BREAKER_THRESHOLD = 5;
+const BREAKER_OPEN_MS = 60 * 1000;
+const BREAKER_MAX_OPEN_MS = 15 * 60 * 1000;
+const RETRY_BASE_MS = 250;
+// Longer Retry-After hints are not waited out within a request
+const RETRY_AFTER_MAX_MS = 5 * 1000;
+
+const breakers = new Map<UpstreamProvider, {
+  failures: number;
+  failingSince: number;
+  openUntil: number;
+  openMs: number;
+  trial: boolean;
+  lastError?: string;
+}>();
+
+export async function upstreamFetch(provider: UpstreamProvider, url: string, init: RequestInit = {}): Promise<Response> {
+  const policy = POLICIES[provider];
+  const breaker = breakers.get(provider);
+  const now = Date.now();
+  if (breaker && breaker.openUntil > 0) {
+    if (now < breaker.openUntil || breaker.trial) {
+      throw new Error(`${policy.name} unavailable (circuit open until ${new Date(breaker.openUntil).toISOString()}): ${breaker.lastError}`);
+    }
+    breaker.trial = true;
+  }
+
+  const retries = !init.method || ['GET', 'HEAD'].includes(init.method.toUpperCase()) ? policy.retries : 0;
+  for (let attempt = 0; ; attempt++) {
+    let failure: string;
+    let retryAfterMs = 0;
+    try {
+      const res = await fetchWithTimeout(provider, url, init, policy.timeoutMs);
+      if (res.status !== 429 && res.status < 500) {
+        recordSuccess(provider);
+        return res;
+      }
+      failure = `HTTP ${res.status}`;
+      retryAfterMs = Number(res.headers.get('Retry-After')) * 1000 || 0;
+      if (attempt >= retries || retryAfterMs > RETRY_AFTER_MAX_MS) {
+        recordFailure(provider, failure);
+        return res;
+      }
+    } catch (error: any) {
+      const timedOut = error?.name === 'AbortError';
+      failure = timedOut ? `timed out after ${policy.timeoutMs}ms` : error?.message || 'network error';
+      if (timedOut || attempt >= retries) {
+        recordFailure(provider, failure);
+        throw new Error(`${policy.name} request failed: ${failure}`);
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, Math.max(retryAfterMs, RETRY_BASE_MS * 2 ** attempt * (0.5 + Math.random()))));
+  }
+}
+
+export function upstreamStatuses(now: number = Date.now()): Record<UpstreamProvider, UpstreamStatus> {
+  return Object.fromEntries((Object.keys(POLICIES) as UpstreamProvider[]).map((provider) => {
+    const breaker = breakers.get(provider);
+    if (!breaker) return [provider, { state: 'closed', consecutiveFailures: 0 }];
+    const state = breaker.openUntil === 0 ? 'closed' : now < breaker.openUntil ? 'open' : 'half-open';
+    return [provider, {
+      state,
+      consecutiveFailures: breaker.failures,
+      failingSince: new Date(breaker.failingSince).toISOString(),
+      ...(breaker.openUntil ? { retryAt: new Date(Math.max(now, breaker.openUntil)).toISOString() } : {}),
+      lastError: breaker.lastError,
+    }];
+  })) as Record<UpstreamProvider, UpstreamStatus>;
+}
+
+async function fetchWithTimeout(provider: UpstreamProvider, url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  countUpstreamCall(provider);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function recordSuccess(provider: UpstreamProvider): void {
+  breakers.delete(provider);
+}
+
+function recordFailure(provider: UpstreamProvider, error: string): void {
+  const now = Date.now();
+  const breaker = breakers.get(provider) ?? { failures: 0, failingSince: now, openUntil: 0, openMs: 0, trial: false };
+  breaker.failures++;
+  breaker.lastError = error;
+  if (breaker.trial) {
+    // The trial call failed: stay open, for longer each time
+    breaker.openMs = Math.min(breaker.openMs * 2, BREAKER_MAX_OPEN_MS);
+    breaker.openUntil = now + breaker.openMs;
+    breaker.trial = false;
+  } else if (breaker.openUntil === 0 && breaker.failures >= BREAKER_THRESHOLD) {
+    breaker.openMs = BREAKER_OPEN_MS;
+    breaker.openUntil = now + breaker.openMs;
+    console.warn(`${POLICIES[provider].name}: circuit open after ${breaker.failures} failed calls (${error})`);
+  }
+  breakers.set(provider, breaker);
+}
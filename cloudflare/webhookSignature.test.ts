@@ -0,0 +1,62 @@
+import { createHmac } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { verifyWebhookSignature } from './webhookSignature';
+
+const SECRET = 'partner-secret';
+const BODY = JSON.stringify({ alerts: [{ id: 'a1' }] });
+const NOW = Date.parse('2026-10-17T12:00:00.000Z');
+const TIMESTAMP = String(NOW / 1000);
+
+function sign(timestamp: string, body: string, secret = SECRET): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function delivery(headers: Record<string, string>): Request {
+  return new Request('https://worker.example/webhooks/ranger-app', { method: 'POST', headers });
+}
+
+describe('verifyWebhookSignature', () => {
+  it('accepts a delivery signed with the source secret, with or without the sha256= prefix', async () => {
+    const signature = sign(TIMESTAMP, BODY);
+
+    expect(await verifyWebhookSignature(delivery({ 'X-Webhook-Timestamp': TIMESTAMP, 'X-Webhook-Signature': `sha256=${signature}` }), BODY, SECRET, NOW)).toBeNull();
+    expect(await verifyWebhookSignature(delivery({ 'X-Webhook-Timestamp': TIMESTAMP, 'X-Webhook-Signature': signature.toUpperCase() }), BODY, SECRET, NOW)).toBeNull();
+  });
+
+  it('rejects a signature made with another secret or over another body', async () => {
+    const headers = (signature: string) => delivery({ 'X-Webhook-Timestamp': TIMESTAMP, 'X-Webhook-Signature': signature });
+
+    expect(await verifyWebhookSignature(headers(sign(TIMESTAMP, BODY, 'other-secret')), BODY, SECRET, NOW)).toBe('Signature mismatch');
+    expect(await verifyWebhookSignature(headers(sign(TIMESTAMP, BODY)), `${BODY} `, SECRET, NOW)).toBe('Signature mismatch');
+    expect(await verifyWebhookSignature(headers(sign(TIMESTAMP, BODY).slice(0, 63)), BODY, SECRET, NOW)).toBe('Signature mismatch');
+  });
+
+  it('binds the signature to the timestamp it was sent with', async () => {
+    const later = String(NOW / 1000 + 60);
+    const request = delivery({ 'X-Webhook-Timestamp': later, 'X-Webhook-Signature': sign(TIMESTAMP, BODY) });
+
+    expect(await verifyWebhookSignature(request, BODY, SECRET, NOW)).toBe('Signature mismatch');
+  });
+
+  it('accepts timestamps up to five minutes either side of now', async () => {
+    const at = (offsetSeconds: number) => {
+      const timestamp = String(NOW / 1000 + offsetSeconds);
+      return verifyWebhookSignature(delivery({ 'X-Webhook-Timestamp': timestamp, 'X-Webhook-Signature': sign(timestamp, BODY) }), BODY, SECRET, NOW);
+    };
+
+    expect(await at(-300)).toBeNull();
+    expect(await at(300)).toBeNull();
+    expect(await at(-301)).toBe('Timestamp outside the accepted window');
+    expect(await at(301)).toBe('Timestamp outside the accepted window');
+  });
+
+  it.each([
+    [{}],
+    [{ 'X-Webhook-Timestamp': TIMESTAMP }],
+    [{ 'X-Webhook-Signature': 'abc' }],
+    [{ 'X-Webhook-Timestamp': '2026-10-17T12:00:00Z', 'X-Webhook-Signature': 'abc' }],
+    [{ 'X-Webhook-Timestamp': TIMESTAMP, 'X-Webhook-Signature': 'sha256=' }],
+  ])('reports missing headers in %o', async (headers) => {
+    expect(await verifyWebhookSignature(delivery(headers), BODY, SECRET, NOW)).toBe('Missing X-Webhook-Timestamp or X-Webhook-Signature');
+  });
+});
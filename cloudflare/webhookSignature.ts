@@ -0,0 +1,29 @@
+// Signatures on partner webhook deliveries (POST /webhooks/:source, scheme described in the route
+// table in src/services/workerRoutes.ts); each source's secret comes from WEBHOOK_SECRETS
+
+const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000;
+
+// Returns why the delivery is not authentic, or null when it is
+export async function verifyWebhookSignature(request: Request, body: string, secret: string, now: number = Date.now()): Promise<string | null> {
+  const timestamp = request.headers.get('X-Webhook-Timestamp') || '';
+  const signature = (request.headers.get('X-Webhook-Signature') || '').replace(/^sha256=/, '').toLowerCase();
+  if (!/^\d+$/.test(timestamp) || !signature) return 'Missing X-Webhook-Timestamp or X-Webhook-Signature';
+  // Bounds replays of a captured delivery
+  if (Math.abs(now - Number(timestamp) * 1000) > WEBHOOK_TOLERANCE_MS) return 'Timestamp outside the accepted window';
+  const expected = await hmacSha256Hex(secret, `${timestamp}.${body}`);
+  return timingSafeEqual(expected, signature) ? null : 'Signature mismatch';
+}
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const mac = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return [...new Uint8Array(mac)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Compares without returning early, so response timing does not reveal how much of a guess matched
+function timingSafeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+}
@@ -1,28 +1,105 @@
 // Cloudflare Worker consolidating forest API endpoints
-// Active routes:
+// Routes are described in src/services/workerRoutes.ts, served as OpenAPI at /openapi.json;
+// keep that table in step with the switch in route(). Active routes:
 //  - GET /health
-//  - GET /fire-alerts?region=world&days=1
-//  - GET /deforestation-alerts?region=BRA
+//  - GET /openapi.json
+//  - GET /fire-alerts?region=world&days=1&limit=1000&offset=0
+//  - GET /fire-alerts?format=json|geojson|csv|kml (or the matching Accept header)
+//  - GET /fire-alerts?mode=fused&cluster_km=1.5&cluster_hours=6
+//  - GET /fire-alerts?bbox=west,south,east,north
+//  - POST /fire-alerts (body: GeoJSON Polygon/MultiPolygon)
+//  - GET /deforestation-alerts?region=BRA,BRA/14,BRA/14/5300108 | geostore=<id>
+//  - POST /deforestation-alerts (body: GeoJSON Polygon/MultiPolygon)
+//  - GET /deforestation-alerts?format=json|geojson|csv|kml (or the matching Accept header)
+//  - GET /alerts/history?from=..&to=..&type=fire,deforestation&severity=high,critical&bbox=..
+//  - GET /alerts/stream?since=<cursor>&type=..&severity=..&bbox=.. (Server-Sent Events of newly
+//    stored alerts; Last-Event-ID resumes)
 //  - GET /weather?lat=..&lng=..
+//  - GET /weather/forecast?lat=..&lng=..&hours=120
 //  - GET /forest-regions
 //  - GET /biodiversity?region=global&limit=20
 //  - GET /satellite-data?lat=..&lng=..&layer=...
-//  - GET /user-profile
+//  - GET /user-profile, PUT /user-profile (Authorization: Bearer <Supabase or JWKS-issued JWT>)
+//  - GET /sync (last/next run per source), POST /sync?type=fire-alerts,weather-data (run now)
+//  - GET /api-keys, POST /api-keys, DELETE /api-keys/:id (the caller's encrypted upstream keys,
+//    used via key_id on the fire, deforestation and weather routes)
+//  - POST /webhooks/:source (HMAC-signed alert pushes from partner apps)
+// Operations with a `permission` in the route table are checked in route() before dispatch.
+// Every request takes a token from its client's bucket (RATE_LIMIT_PER_MINUTE; 429 when empty),
+// and upstream calls are counted against each provider's daily quota (cloudflare/rateLimits.ts).
+// Upstream calls share timeouts, retries and a circuit breaker per provider (cloudflare/upstream.ts).
+// The scheduled() handler (cron in wrangler.toml) refreshes each source on its own interval.
+
+import { CACHE_DURATIONS } from '../src/services/apiConfig';
+import { calculateFwiDay, FWI_STARTUP_STATE, resolveFwiStartState, FwiStateRecord } from '../src/services/fireWeatherIndex';
+import { applyFireWeatherIndex, localDate, parseOpenWeatherData, parseOpenWeatherForecast } from '../src/services/weatherParsers';
+import {
+  reportInvalidRecords, validateBiodiversityData, validateForestAlert, validateForestRegion, validateRecords, validateWeatherData,
+  validateUserProfileUpdate, validateApiKeySubmission, isAccessRole, permissionsFor, ALERT_TYPES, SEVERITIES, AccessRole, AlertType, ApiKeyService,
+  ForestAlert, InvalidRecord, Severity, UserPermission, UserProfile, UserProfileUpdate, Validator,
+} from '../src/services/forestDomain';
+import { buildOpenApiDocument, matchRoute, HttpMethod, RouteOperation, WORKER_ROUTES } from '../src/services/workerRoutes';
+import { ALERT_FORMATS, formatAlerts, negotiateAlertFormat } from '../src/services/alertFormats';
+import { formatServerSentEvent } from '../src/services/serverSentEvents';
+import { getLocationName, parseFireCsvData, parseIntegratedAlertsData, FIRMS_DATASETS } from '../src/services/alertParsers';
+import {
+  createUserProfile, deleteApiKey, findExistingAlertIds, formatAlertCursor, insertApiKey, latestAlertCursor, listApiKeys, logWebhookEvent, parseAlertCursor,
+  queryAlertHistory, queryAlertsAfter, readApiKey, readUpdateTimestamps, readUserProfile, recordUpdate, touchApiKey, updateUserProfile, upsertAlerts,
+  AlertCursor, AlertFilters, AlertHistoryQuery, D1Database, UpdateTimestamp,
+} from './alertStore';
+import { clipAlerts, parseAreaFilter, parseBbox, AreaFilter } from './areaFilter';
+import { verifyBearerToken, AuthClaims, AuthConfig, AuthResult } from './auth';
+import { fuseFireDetections } from './fireFusion';
+import { openApiKey, sealApiKey } from './keyVault';
+import { quotaStatus, quotaStatuses, syncUpstreamUsage, takeToken, RateLimitResult, UpstreamProvider } from './rateLimits';
+import { upstreamFetch, upstreamStatuses } from './upstream';
+import { verifyWebhookSignature } from './webhookSignature';
 
 export interface Env {
   NASA_FIRMS_API_KEY?: string;
   OPENWEATHER_API_KEY?: string;
+  GFW_API_KEY?: string;
+  // D1 database holding the alert history (wrangler.toml [[d1_databases]]); optional so the
+  // worker still runs without one
+  ALERTS_DB?: D1Database;
+  // JSON object mapping each webhook source to its HMAC secret, e.g. {"ranger-app": "..."}
+  WEBHOOK_SECRETS?: string;
+  // Bearer token verification (cloudflare/auth.ts): a JWKS URL for asymmetric keys and/or the
+  // HS256 secret, plus the issuer and audience tokens must carry
+  AUTH_JWKS_URL?: string;
+  AUTH_JWT_SECRET?: string;
+  AUTH_ISSUER?: string;
+  AUTH_AUDIENCE?: string;
+  // Access role given to new profiles: volunteer (default), researcher or admin
+  AUTH_DEFAULT_ROLE?: string;
+  // Secret the users' stored API keys are encrypted under (cloudflare/keyVault.ts); the key vault
+  // also needs ALERTS_DB
+  KEY_VAULT_SECRET?: string;
+  // Requests per minute each client (user, or IP when signed out) may make; "0" turns the limit off
+  RATE_LIMIT_PER_MINUTE?: string;
+}
+
+interface WorkerContext {
+  waitUntil(promise: Promise<unknown>): void;
+  // Set by ingestion runs: skip cached copies and always reload from the upstream
+  refresh?: boolean;
+}
+
+interface ScheduledController {
+  scheduledTime: number;
+  cron: string;
 }
 
 const corsHeaders: Record<string, string> = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'age, cache-control, x-cache, x-total-count, content-disposition, retry-after, x-ratelimit-limit, x-ratelimit-remaining',
   'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
   'Content-Type': 'application/json',
 };
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: WorkerContext): Promise<Response> {
     if (request.method === 'OPTIONS') {
       return new Response('ok', { headers: corsHeaders });
     }
@@ -33,32 +110,69 @@ export default {
       if (path.startsWith('/api/')) path = path.slice(4);
       else if (path === '/api') path = '/';
 
-      switch (path) {
-        case '/health':
-          return handleHealth(env);
-        case '/fire-alerts':
-          return handleFireAlerts(url, env);
-        case '/deforestation-alerts':
-          return handleDeforestationAlerts(url);
-        case '/weather':
-          return handleWeather(url, env);
-        case '/forest-regions':
-          return handleForestRegions();
-        case '/biodiversity':
-          return handleBiodiversity(url);
-        case '/satellite-data':
-          return handleSatelliteData(url);
-        case '/user-profile':
-          return handleUserProfile(request);
-        default:
-          return json({ success: false, error: 'Endpoint not found' }, 404);
+      const rate = await rateLimit(request, env);
+      if (rate && !rate.allowed) {
+        return withRateLimitHeaders(withCacheHeaders(json({ success: false, error: 'Too many requests', retryAfter: rate.retryAfterSeconds }, 429)), rate);
       }
+      await syncUpstreamUsage(env.ALERTS_DB);
+      return withRateLimitHeaders(withCacheHeaders(await route(path, request, url, env, ctx)), rate);
     } catch (error: any) {
-      return json({ success: false, error: 'Internal server error', details: error?.message }, 500);
+      return withCacheHeaders(json({ success: false, error: 'Internal server error', details: error?.message }, 500));
     }
   },
+
+  async scheduled(controller: ScheduledController, env: Env, ctx: WorkerContext): Promise<void> {
+    ctx.waitUntil(syncUpstreamUsage(env.ALERTS_DB).then(() => runSync(env, ctx, { trigger: 'scheduled', now: controller.scheduledTime })));
+  },
 };
 
+async function route(path: string, request: Request, url: URL, env: Env, ctx: WorkerContext): Promise<Response> {
+  // Keys in URLs end up in logs and browser history
+  if (url.searchParams.has('key') || url.searchParams.has('mapKey')) {
+    return json({ success: false, error: 'API keys are not accepted in URLs; store them with POST /api-keys and pass key_id' }, 400);
+  }
+  const matched = matchRoute(path);
+  const permission = matched && routePermission(matched.path, request.method);
+  if (permission) {
+    const user = await requirePermission(request, env, permission);
+    if (user instanceof Response) return user;
+  }
+  if (path.startsWith('/webhooks/')) return handleWebhook(request, decodeURIComponent(path.slice('/webhooks/'.length)), env);
+  if (matched?.path === '/api-keys/{id}') return handleApiKey(request, matched.params.id, env);
+  switch (path) {
+    case '/health':
+      return handleHealth(env);
+    case '/openapi.json':
+      return handleOpenApi(url);
+    case '/fire-alerts':
+      return withAlertFormat(request, url, env, 'fire-alerts', () => handleFireAlerts(request, url, env, ctx));
+    case '/deforestation-alerts':
+      return withAlertFormat(request, url, env, 'deforestation-alerts', () => handleDeforestationAlerts(request, url, env, ctx));
+    case '/alerts/history':
+      return withAlertFormat(request, url, env, 'alert-history', () => handleAlertHistory(url, env));
+    case '/alerts/stream':
+      return handleAlertStream(request, url, env);
+    case '/weather':
+      return handleWeather(request, url, env, ctx);
+    case '/weather/forecast':
+      return handleWeatherForecast(request, url, env, ctx);
+    case '/forest-regions':
+      return handleForestRegions(url, ctx);
+    case '/biodiversity':
+      return handleBiodiversity(url, ctx);
+    case '/satellite-data':
+      return handleSatelliteData(url);
+    case '/user-profile':
+      return handleUserProfile(request, env);
+    case '/sync':
+      return handleSync(request, url, env, ctx);
+    case '/api-keys':
+      return handleApiKeys(request, env);
+    default:
+      return json({ success: false, error: 'Endpoint not found' }, 404);
+  }
+}
+
 // Handlers
 function handleHealth(env: Env): Response {
   return json({
@@ -68,167 +182,408 @@ function handleHealth(env: Env): Response {
     apis: {
       nasa_firms: Boolean(env.NASA_FIRMS_API_KEY && env.NASA_FIRMS_API_KEY !== 'YOUR_NASA_FIRMS_API_KEY_HERE'),
       openweather: Boolean(env.OPENWEATHER_API_KEY && env.OPENWEATHER_API_KEY !== 'YOUR_OPENWEATHER_API_KEY_HERE'),
+      global_forest_watch: Boolean(env.GFW_API_KEY),
     },
+    keyVault: Boolean(env.ALERTS_DB && env.KEY_VAULT_SECRET),
+    quotas: quotaStatuses(),
+    upstreams: upstreamStatuses(),
+    rateLimit: { perMinute: rateLimitPerMinute(env) },
   });
 }
 
-async function handleFireAlerts(url: URL, env: Env): Promise<Response> {
-  const region = url.searchParams.get('region') || url.searchParams.get('area') || 'world';
+// Alert endpoints cache their JSON envelope; GeoJSON, CSV and KML are rendered from it per request,
+// so every format shares one cache entry. Errors stay JSON whatever was asked for. Exports
+// (anything but JSON) need the export_data permission.
+async function withAlertFormat(request: Request, url: URL, env: Env, name: string, handler: () => Promise<Response>): Promise<Response> {
+  const format = negotiateAlertFormat(url.searchParams.get('format'), request.headers.get('Accept'));
+  if (!format) {
+    return json({ success: false, error: `Unsupported format; use one of ${Object.keys(ALERT_FORMATS).join(', ')}` }, 400);
+  }
+  if (format !== 'json') {
+    const user = await requirePermission(request, env, 'export_data');
+    if (user instanceof Response) return user;
+  }
+  const res = await handler();
+  const headers = new Headers(res.headers);
+  headers.append('Vary', 'Accept');
+  const body: any = format === 'json' || !res.ok ? null : await res.clone().json().catch(() => null);
+  if (!body?.success || !Array.isArray(body.data)) {
+    return new Response(res.body, { status: res.status, headers });
+  }
+  const { contentType, extension } = ALERT_FORMATS[format];
+  headers.set('Content-Type', contentType);
+  headers.set('Content-Disposition', `inline; filename="${name}.${extension}"`);
+  headers.set('X-Total-Count', String(body.pagination?.total ?? body.data.length));
+  return new Response(formatAlerts(body.data, format, `Forest monitor ${name.replace('-', ' ')}`), { status: res.status, headers });
+}
+
+// Server URL follows the request so the document works behind the /api prefix and on any host
+function handleOpenApi(url: URL): Response {
+  const prefix = url.pathname.startsWith('/api/') ? '/api' : '';
+  return json(buildOpenApiDocument(`${url.origin}${prefix}`));
+}
+
+async function handleFireAlerts(request: Request, url: URL, env: Env, ctx: WorkerContext): Promise<Response> {
+  let clip: AreaFilter | null = null;
+  try {
+    clip = await parseAreaFilter(request, url);
+  } catch (e: any) {
+    return json({ success: false, error: e?.message || 'Invalid area filter' }, 400);
+  }
+  const region = clip ? clip.bbox.join(',') : url.searchParams.get('region') || url.searchParams.get('area') || 'world';
   const days = url.searchParams.get('days') || '1';
   const forcedDataset = (url.searchParams.get('dataset') || '').toUpperCase();
   const forcedDate = url.searchParams.get('date') || '';
+  const mode = url.searchParams.get('mode') === 'fused' ? 'fused' : 'first';
+  const clusterKm = parsePositiveFloat(url.searchParams.get('cluster_km'), FIRE_FUSION_DEFAULT_KM, FIRE_FUSION_MAX_KM);
+  const clusterHours = parsePositiveFloat(url.searchParams.get('cluster_hours'), FIRE_FUSION_DEFAULT_HOURS, FIRE_FUSION_MAX_HOURS);
+  const { limit, offset } = parsePagination(url, FIRE_ALERTS_DEFAULT_LIMIT, FIRE_ALERTS_MAX_LIMIT);
 
-  const cacheKey = new Request(`https://cache.fire-alerts/${region}/${days}`);
-  const cache: any = (caches as any).default ?? caches;
-  const cached = await cache.match(cacheKey);
-  if (cached) return cached;
+  const storedKey = await resolveStoredKey(request, url, env, ctx, 'nasa_firms');
+  if (storedKey instanceof Response) return storedKey;
+  const apiKey = storedKey?.key || env.NASA_FIRMS_API_KEY || 'YOUR_NASA_FIRMS_API_KEY_HERE';
+  const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const dateToUse = forcedDate || yesterday;
+  const datasets = forcedDataset ? forcedDataset.split(',').filter(Boolean) : FIRMS_DATASETS;
+  const noMock = url.searchParams.get('no_mock') === '1';
 
-  const overrideKey = url.searchParams.get('key') || url.searchParams.get('mapKey') || '';
-  const apiKey = overrideKey || env.NASA_FIRMS_API_KEY || 'YOUR_NASA_FIRMS_API_KEY_HERE';
-  try {
-    if (apiKey === 'YOUR_NASA_FIRMS_API_KEY_HERE') {
-      if (url.searchParams.get('no_mock') === '1') return json({ success: false, error: 'NASA FIRMS key not configured' }, 502);
-      const res = json({ success: true, data: generateMockFireAlerts(), source: 'mock' });
-      await cache.put(cacheKey, res.clone());
-      return res;
-    }
+  const cacheKey = buildCacheKey('/fire-alerts', {
+    region: clip ? null : region.toLowerCase(),
+    clip: clip?.key,
+    days: parseInt(days, 10) || 1,
+    date: dateToUse,
+    dataset: forcedDataset ? [...datasets].sort().join(',') : null,
+    mode,
+    cluster_km: mode === 'fused' ? clusterKm : null,
+    cluster_hours: mode === 'fused' ? clusterHours : null,
+    limit,
+    offset,
+    key_id: storedKey?.id,
+    no_mock: noMock,
+  });
 
-    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-    const datasets = forcedDataset ? [forcedDataset] : ['MODIS_NRT', 'VIIRS_SNPP_NRT', 'VIIRS_NOAA20_NRT'];
-    let lastError: any = null;
-    for (const dataset of datasets) {
-      try {
-        const dateToUse = forcedDate || yesterday;
-        const url = `https://firms.modaps.eosdis.nasa.gov/api/area/csv/${apiKey}/${dataset}/${region}/${days}/${dateToUse}`;
-        const r = await fetch(url, { headers: { 'Accept': 'text/csv', 'User-Agent': 'Global-Forest-Explorer-Worker/1.0' } });
-        if (!r.ok) throw new Error(`NASA FIRMS API error: ${r.status}`);
-        const csv = await r.text();
-        const data = parseFireCsvData(csv);
-        const res = json({ success: true, data, source: `nasa-firms:${dataset.toLowerCase()}` });
-        await cache.put(cacheKey, res.clone());
-        return res;
-      } catch (err) {
-        lastError = err;
-        continue;
+  return serveCached(cacheKey, CACHE_DURATIONS.FIRE_DATA, ctx, storedKey ? null : 'nasa_firms', async () => {
+    try {
+      if (apiKey === 'YOUR_NASA_FIRMS_API_KEY_HERE') {
+        if (noMock) return uncached(json({ success: false, error: 'NASA FIRMS key not configured' }, 502));
+        return fromFallback(json({ success: true, ...paginate(clipAlerts(generateMockFireAlerts(), clip), limit, offset), source: 'mock' }));
+      }
+
+      if (mode === 'fused') {
+        const results = await Promise.allSettled(datasets.map((dataset) => fetchFirmsDataset(apiKey, dataset, region, days, dateToUse)));
+        const detections: any[] = [];
+        const datasetStatus: Record<string, { ok: boolean; count?: number; error?: string }> = {};
+        results.forEach((result, i) => {
+          if (result.status === 'fulfilled') {
+            detections.push(...result.value);
+            datasetStatus[datasets[i]] = { ok: true, count: result.value.length };
+          } else {
+            datasetStatus[datasets[i]] = { ok: false, error: result.reason?.message || 'request failed' };
+          }
+        });
+        if (!Object.values(datasetStatus).some((status) => status.ok)) {
+          throw new Error(Object.values(datasetStatus).map((status) => status.error).join('; ') || 'NASA FIRMS datasets unavailable');
+        }
+        const clipped = clipAlerts(detections, clip);
+        // The store keeps the individual detections: their ids are stable, fused event ids are not
+        storeAlerts(env, ctx, validateRecords(clipped, validateForestAlert).valid, 'nasa-firms');
+        const { data: events, invalid } = checkOutput('/fire-alerts', fuseFireDetections(clipped, clusterKm, clusterHours), validateForestAlert);
+        return fromUpstream(json({
+          success: true,
+          ...paginate(events, limit, offset),
+          invalid,
+          source: 'nasa-firms:fused',
+          fusion: { clusterKm, clusterHours, detections: detections.length, events: events.length, datasets: datasetStatus },
+        }));
       }
+
+      let lastError: any = null;
+      for (const dataset of datasets) {
+        try {
+          const { data, invalid } = checkOutput('/fire-alerts', clipAlerts(await fetchFirmsDataset(apiKey, dataset, region, days, dateToUse), clip), validateForestAlert);
+          storeAlerts(env, ctx, data, `nasa-firms:${dataset.toLowerCase()}`);
+          return fromUpstream(json({ success: true, ...paginate(data, limit, offset), invalid, source: `nasa-firms:${dataset.toLowerCase()}` }));
+        } catch (err) {
+          lastError = err;
+          continue;
+        }
+      }
+      throw lastError || new Error('NASA FIRMS datasets unavailable');
+    } catch (e: any) {
+      if (noMock) return uncached(json({ success: false, error: e?.message || 'Fire alerts failed' }, 502));
+      return fromFallback(json({ success: true, ...paginate(clipAlerts(generateMockFireAlerts(), clip), limit, offset), source: 'mock-fallback', error: e?.message }));
     }
-    throw lastError || new Error('NASA FIRMS datasets unavailable');
-  } catch (e: any) {
-    if (url.searchParams.get('no_mock') === '1') return json({ success: false, error: e?.message || 'Fire alerts failed' }, 502);
-    return json({ success: true, data: generateMockFireAlerts(), source: 'mock-fallback', error: e?.message });
-  }
+  });
 }
 
-async function handleDeforestationAlerts(url: URL): Promise<Response> {
-  const region = url.searchParams.get('region') || 'BRA';
-  const days = parseInt(url.searchParams.get('days') || '90', 10);
-  const limit = parseInt(url.searchParams.get('limit') || '50', 10);
+async function handleDeforestationAlerts(request: Request, url: URL, env: Env, ctx: WorkerContext): Promise<Response> {
+  let areas: DeforestationArea[];
+  try {
+    areas = await parseDeforestationAreas(request, url);
+  } catch (e: any) {
+    return json({ success: false, error: e?.message || 'Invalid area' }, 400);
+  }
+  const days = parseInt(url.searchParams.get('days') || '90', 10) || 90;
+  const limit = Math.min(parseInt(url.searchParams.get('limit') || '50', 10) || 50, DEFORESTATION_MAX_LIMIT);
+  const noMock = url.searchParams.get('no_mock') === '1';
+  const storedKey = await resolveStoredKey(request, url, env, ctx, 'global_forest_watch');
+  if (storedKey instanceof Response) return storedKey;
+  const gfwKey = storedKey?.key || env.GFW_API_KEY;
 
   const end = new Date();
   const start = new Date(Date.now() - Math.max(1, days) * 24 * 60 * 60 * 1000);
   const endStr = end.toISOString().split('T')[0];
   const startStr = start.toISOString().split('T')[0];
 
-  const cacheKey = new Request(`https://cache.deforestation-alerts/${region}/${days}/${endStr}/${limit}`);
-  const cache: any = (caches as any).default ?? caches;
-  const cached = await cache.match(cacheKey);
-  if (cached) return cached;
+  const cacheKey = buildCacheKey('/deforestation-alerts', {
+    region: areas.map((area) => area.key).sort().join(','),
+    days,
+    end: endStr,
+    limit,
+    key_id: storedKey?.id,
+    no_mock: noMock,
+  });
+
+  return serveCached(cacheKey, CACHE_DURATIONS.DEFORESTATION_DATA, ctx, storedKey ? null : 'global_forest_watch', async () => {
+    try {
+      // Point-level integrated alerts need a GFW Data API key; without one (or if that query
+      // fails) only admin-level counts are available, which carry no geometry to plot.
+      let pointError: any = null;
+      if (gfwKey) {
+        try {
+          const results = await Promise.all(areas.map(async (area) => {
+            const geostoreId = await resolveGeostore(area, gfwKey);
+            const [points, byConfidence] = await Promise.all([
+              fetchIntegratedAlerts(gfwKey, geostoreId, area, startStr, endStr, limit),
+              fetchIntegratedAlertCounts(gfwKey, geostoreId, startStr, endStr),
+            ]);
+            const alerts = Object.values(byConfidence).reduce((sum, count) => sum + count, 0);
+            return { points, aggregate: { ...describeArea(area, geostoreId), alerts, byConfidence, severity: getDeforestationSeverity(alerts) } };
+          }));
+          // Nested areas (a state and one of its municipalities) report the same pixels
+          const points = new Map<string, any>();
+          for (const point of results.flatMap((result) => result.points)) {
+            if (!points.has(point.id)) points.set(point.id, point);
+          }
+          const { data, invalid } = checkOutput('/deforestation-alerts', [...points.values()]
+            .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+            .slice(0, limit), validateForestAlert);
+          storeAlerts(env, ctx, data, 'gfw-integrated-alerts');
+          const aggregates = results.map((result) => result.aggregate);
+          return fromUpstream(json({ success: true, data, invalid, aggregated: false, aggregates, source: 'gfw-integrated-alerts' }));
+        } catch (err) {
+          pointError = err;
+        }
+      }
+      const aggregates = await Promise.all(areas.map(async (area) => {
+        const geostoreId = area.iso ? null : await resolveGeostore(area, gfwKey);
+        const alerts = await fetchGladAlertCount(area, geostoreId, startStr, endStr);
+        return { ...describeArea(area, geostoreId), alerts, byConfidence: null, severity: getDeforestationSeverity(alerts) };
+      }));
+      const res = json({ success: true, data: [], aggregated: true, aggregates, source: 'global-forest-watch:admin', error: pointError?.message });
+      return pointError ? fromFallback(res) : fromUpstream(res);
+    } catch (e: any) {
+      if (noMock) return uncached(json({ success: false, error: e?.message || 'Deforestation alerts failed' }, 502));
+      return fromFallback(json({ success: true, data: generateMockDeforestationAlerts(), source: 'mock-fallback', error: e?.message }));
+    }
+  });
+}
 
+// Reads the alert store rather than an upstream, so it is never cached: new alerts land in it
+// whenever the fire and deforestation endpoints refresh.
+async function handleAlertHistory(url: URL, env: Env): Promise<Response> {
+  if (!env.ALERTS_DB) return json({ success: false, error: 'Alert store not configured' }, 503);
+  let query: AlertHistoryQuery;
   try {
-    const gfwUrl = `https://production-api.globalforestwatch.org/v1/glad-alerts/admin/${region}?period=${startStr},${endStr}&gladConfirmOnly=false&limit=${limit}`;
-    const r = await fetch(gfwUrl, { headers: { 'Accept': 'application/json', 'User-Agent': 'Global-Forest-Explorer-Worker/1.0' } });
-    if (!r.ok) throw new Error(`GFW API error: ${r.status}`);
-    const jsonData = await r.json();
-    const data = parseGladAlertsData(jsonData);
-    const res = json({ success: true, data, source: 'global-forest-watch' });
-    await cache.put(cacheKey, res.clone());
-    return res;
+    query = parseHistoryQuery(url);
   } catch (e: any) {
-    if (url.searchParams.get('no_mock') === '1') return json({ success: false, error: e?.message || 'Deforestation alerts failed' }, 502);
-    const res = json({ success: true, data: generateMockDeforestationAlerts(), source: 'mock-fallback', error: e?.message });
-    await cache.put(cacheKey, res.clone());
-    return res;
+    return json({ success: false, error: e?.message || 'Invalid parameters' }, 400);
   }
+  const { alerts, total } = await queryAlertHistory(env.ALERTS_DB, query);
+  return json({
+    success: true,
+    data: alerts,
+    pagination: { total, limit: query.limit, offset: query.offset, hasMore: query.offset + alerts.length < total },
+    source: 'alert-store',
+  });
 }
 
-async function handleWeather(url: URL, env: Env): Promise<Response> {
-  const lat = url.searchParams.get('lat');
-  const lng = url.searchParams.get('lng');
-  if (!lat || !lng) return json({ success: false, error: 'Latitude and longitude required' }, 400);
-
-  const cacheKey = new Request(`https://cache.weather/${lat}/${lng}`);
-  const cache: any = (caches as any).default ?? caches;
-  const cached = await cache.match(cacheKey);
-  if (cached) return cached;
-
-  const apiKey = env.OPENWEATHER_API_KEY || 'YOUR_OPENWEATHER_API_KEY_HERE';
+// Newly stored alerts as Server-Sent Events. Each pull waits ALERT_STREAM_POLL_MS (unless the last
+// read filled a batch), reads the alerts stored past the cursor and sends them; an idle pull sends
+// a comment so proxies keep the connection open. The stream ends after ALERT_STREAM_WINDOW_MS so
+// no connection holds the worker for long, and clients reconnect from the last event id.
+async function handleAlertStream(request: Request, url: URL, env: Env): Promise<Response> {
+  const db = env.ALERTS_DB;
+  if (!db) return json({ success: false, error: 'Alert store not configured' }, 503);
+  let filters: AlertFilters;
+  let resume: AlertCursor | null;
   try {
-    if (apiKey === 'YOUR_OPENWEATHER_API_KEY_HERE') {
-      if (url.searchParams.get('no_mock') === '1') return json({ success: false, error: 'OpenWeather key not configured' }, 502);
-      const res = json({ success: true, data: mockWeather(parseFloat(lat), parseFloat(lng)), source: 'mock' });
-      await cache.put(cacheKey, res.clone());
-      return res;
-    }
-    const weatherUrl = `https://api.openweathermap.org/data/2.5/weather?lat=${lat}&lon=${lng}&appid=${apiKey}&units=metric`;
-    const r = await fetch(weatherUrl, { headers: { 'Accept': 'application/json' } });
-    if (!r.ok) throw new Error(`OpenWeather API error: ${r.status}`);
-    const data = parseOpenWeatherData(await r.json());
-    const res = json({ success: true, data, source: 'openweather' });
-    await cache.put(cacheKey, res.clone());
-    return res;
+    filters = parseAlertFilters(url);
+    resume = parseAlertCursor(request.headers.get('Last-Event-ID') || url.searchParams.get('since'));
   } catch (e: any) {
-    if (url.searchParams.get('no_mock') === '1') return json({ success: false, error: e?.message || 'Weather failed' }, 502);
-    return json({ success: true, data: mockWeather(parseFloat(lat), parseFloat(lng)), source: 'mock-fallback', error: e?.message });
+    return json({ success: false, error: e?.message || 'Invalid parameters' }, 400);
   }
+  let cursor = resume ?? await latestAlertCursor(db);
+
+  const encoder = new TextEncoder();
+  const deadline = Date.now() + ALERT_STREAM_WINDOW_MS;
+  let opened = false;
+  let backlog = true;
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let chunk = '';
+      if (!opened) {
+        opened = true;
+        chunk += `retry: ${ALERT_STREAM_RETRY_MS}\n${formatServerSentEvent('ready', formatAlertCursor(cursor), { cursor: formatAlertCursor(cursor) })}`;
+      } else if (!backlog) {
+        await new Promise((resolve) => setTimeout(resolve, ALERT_STREAM_POLL_MS));
+      }
+      if (Date.now() >= deadline) {
+        controller.close();
+        return;
+      }
+      try {
+        const stored = await queryAlertsAfter(db, cursor, filters, ALERT_STREAM_BATCH);
+        for (const { alert, cursor: next } of stored) {
+          cursor = next;
+          chunk += formatServerSentEvent('alert', formatAlertCursor(next), alert);
+        }
+        backlog = stored.length === ALERT_STREAM_BATCH;
+      } catch (error: any) {
+        console.warn('Alert stream: store read failed:', error?.message || error);
+        controller.close();
+        return;
+      }
+      controller.enqueue(encoder.encode(chunk || ': keepalive\n\n'));
+    },
+  });
+  return new Response(stream, { headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' } });
 }
 
-async function handleForestRegions(): Promise<Response> {
-  const cacheKey = new Request('https://cache.forest-regions');
-  const cache: any = (caches as any).default ?? caches;
-  const cached = await cache.match(cacheKey);
-  if (cached) return cached;
+async function handleWeather(request: Request, url: URL, env: Env, ctx: WorkerContext): Promise<Response> {
+  const coords = parseCoordinates(url);
+  if (!coords) return json({ success: false, error: 'Latitude and longitude required' }, 400);
+  const { lat, lng } = coords;
+  const noMock = url.searchParams.get('no_mock') === '1';
+  const storedKey = await resolveStoredKey(request, url, env, ctx, 'openweather');
+  if (storedKey instanceof Response) return storedKey;
 
-  const data = generateEnhancedForestRegions();
-  const res = json({ success: true, data, source: 'server-generated' });
-  await cache.put(cacheKey, res.clone());
-  return res;
+  const cacheKey = buildCacheKey('/weather', { lat, lng, key_id: storedKey?.id, no_mock: noMock });
+
+  const apiKey = storedKey?.key || env.OPENWEATHER_API_KEY || 'YOUR_OPENWEATHER_API_KEY_HERE';
+  return serveCached(cacheKey, CACHE_DURATIONS.WEATHER_DATA, ctx, storedKey ? null : 'openweather', async () => {
+    try {
+      if (apiKey === 'YOUR_OPENWEATHER_API_KEY_HERE') {
+        if (noMock) return uncached(json({ success: false, error: 'OpenWeather key not configured' }, 502));
+        return fromFallback(json({ success: true, data: mockWeather(lat, lng), source: 'mock' }));
+      }
+      // Current conditions plus today's forecast: the daily index needs the noon step and the day's rain
+      const query = `lat=${lat}&lon=${lng}&appid=${apiKey}&units=metric`;
+      const [r, forecastRes] = await Promise.all(['weather', 'forecast'].map((endpoint) =>
+        upstreamFetch('openweather', `https://api.openweathermap.org/data/2.5/${endpoint}?${query}`, { headers: { 'Accept': 'application/json' } })));
+      if (!r.ok) throw new Error(`OpenWeather API error: ${r.status}`);
+      if (!forecastRes.ok) throw new Error(`OpenWeather forecast API error: ${forecastRes.status}`);
+      const [raw, forecast] = await Promise.all([r.json(), forecastRes.json()]);
+      const date = localDate((Number(raw.dt) || Date.now() / 1000) * 1000, Number(raw.timezone) || 0);
+      const start = resolveFwiStartState(await readFwiState(lat, lng), date);
+      const data = parseOpenWeatherData(raw, forecast, start, lat);
+      const checked = validateWeatherData(data);
+      if (!checked.ok) throw new Error(`Invalid weather data: ${checked.errors.join('; ')}`);
+      await writeFwiState(lat, lng, { date, start, end: data.fwi });
+      return fromUpstream(json({ success: true, data, source: 'openweather' }));
+    } catch (e: any) {
+      if (noMock) return uncached(json({ success: false, error: e?.message || 'Weather failed' }, 502));
+      return fromFallback(json({ success: true, data: mockWeather(lat, lng), source: 'mock-fallback', error: e?.message }));
+    }
+  });
 }
 
-async function handleBiodiversity(url: URL): Promise<Response> {
-  const region = url.searchParams.get('region') || 'global';
-  const limit = parseInt(url.searchParams.get('limit') || '20', 10);
+// OpenWeather's free forecast is 5 days in 3-hour steps; each step gets its own fire weather
+// index and the steps are rolled up into a per-day outlook (local days at the location). The
+// FWI codes continue from the last observed day stored by /weather for the location.
+async function handleWeatherForecast(request: Request, url: URL, env: Env, ctx: WorkerContext): Promise<Response> {
+  const coords = parseCoordinates(url);
+  if (!coords) return json({ success: false, error: 'Latitude and longitude required' }, 400);
+  const { lat, lng } = coords;
+  const hours = Math.max(3, Math.round(parsePositiveFloat(url.searchParams.get('hours'), FORECAST_DEFAULT_HOURS, FORECAST_MAX_HOURS)));
+  const noMock = url.searchParams.get('no_mock') === '1';
+  const storedKey = await resolveStoredKey(request, url, env, ctx, 'openweather');
+  if (storedKey instanceof Response) return storedKey;
 
-  const cacheKey = new Request(`https://cache.biodiversity/${region}/${limit}`);
-  const cache: any = (caches as any).default ?? caches;
-  const cached = await cache.match(cacheKey);
-  if (cached) return cached;
+  const cacheKey = buildCacheKey('/weather/forecast', { lat, lng, hours, key_id: storedKey?.id, no_mock: noMock });
 
-  const speciesQueries = [
-    'Pongo abelii',
-    'Panthera onca',
-    'Gorilla beringei',
-    'Harpia harpyja',
-    'Ara macao',
-  ];
-  const results: any[] = [];
-  for (const q of speciesQueries) {
+  const apiKey = storedKey?.key || env.OPENWEATHER_API_KEY || 'YOUR_OPENWEATHER_API_KEY_HERE';
+  return serveCached(cacheKey, CACHE_DURATIONS.WEATHER_DATA, ctx, storedKey ? null : 'openweather', async () => {
     try {
-      const r = await fetch(`https://api.gbif.org/v1/species/search?q=${encodeURIComponent(q)}&limit=1`, { headers: { 'Accept': 'application/json', 'User-Agent': 'Global-Forest-Explorer-Worker/1.0' } });
-      if (r.ok) {
-        const j = await r.json();
-        if (j.results && j.results.length > 0) results.push(parseGBIFSpeciesData(j.results[0]));
+      if (apiKey === 'YOUR_OPENWEATHER_API_KEY_HERE') {
+        if (noMock) return uncached(json({ success: false, error: 'OpenWeather key not configured' }, 502));
+        return fromFallback(json({ success: true, data: mockForecast(lat, lng, hours), source: 'mock' }));
       }
-    } catch {
-      // ignore
+      const forecastUrl = `https://api.openweathermap.org/data/2.5/forecast?lat=${lat}&lon=${lng}&appid=${apiKey}&units=metric`;
+      const r = await upstreamFetch('openweather', forecastUrl, { headers: { 'Accept': 'application/json' } });
+      if (!r.ok) throw new Error(`OpenWeather API error: ${r.status}`);
+      const raw = await r.json();
+      const date = localDate(Date.now(), Number(raw?.city?.timezone) || 0);
+      const data = parseOpenWeatherForecast(raw, hours, resolveFwiStartState(await readFwiState(lat, lng), date), lat);
+      return fromUpstream(json({ success: true, data, source: 'openweather' }));
+    } catch (e: any) {
+      if (noMock) return uncached(json({ success: false, error: e?.message || 'Weather forecast failed' }, 502));
+      return fromFallback(json({ success: true, data: mockForecast(lat, lng, hours), source: 'mock-fallback', error: e?.message }));
     }
-  }
-  while (results.length < Math.min(limit, speciesQueries.length)) {
-    if (url.searchParams.get('no_mock') === '1') break;
-    results.push(...generateMockBiodiversityData().slice(results.length, results.length + 1));
-  }
-  const res = json({ success: true, data: results.slice(0, limit), source: results.length >= speciesQueries.length ? 'gbif-enhanced' : 'mock' });
-  await cache.put(cacheKey, res.clone());
-  return res;
+  });
+}
+
+// Regions are generated, so there is nothing to answer with when generated data is refused
+async function handleForestRegions(url: URL, ctx: WorkerContext): Promise<Response> {
+  if (url.searchParams.get('no_mock') === '1') return json({ success: false, error: 'No live forest region data; regions are generated' }, 502);
+  const cacheKey = buildCacheKey('/forest-regions', {});
+  return serveCached(cacheKey, CACHE_DURATIONS.FOREST_DATA, ctx, null, async () => {
+    const { data, invalid } = checkOutput('/forest-regions', generateEnhancedForestRegions(), validateForestRegion);
+    return fromUpstream(json({ success: true, data, invalid, source: 'server-generated' }));
+  });
+}
+
+async function handleBiodiversity(url: URL, ctx: WorkerContext): Promise<Response> {
+  const region = (url.searchParams.get('region') || 'global').trim().toLowerCase();
+  const limit = parseInt(url.searchParams.get('limit') || '20', 10) || 20;
+  const noMock = url.searchParams.get('no_mock') === '1';
+
+  const cacheKey = buildCacheKey('/biodiversity', { region, limit, no_mock: noMock });
+
+  return serveCached(cacheKey, CACHE_DURATIONS.SPECIES_DATA, ctx, 'gbif', async () => {
+    const speciesQueries = [
+      'Pongo abelii',
+      'Panthera onca',
+      'Gorilla beringei',
+      'Harpia harpyja',
+      'Ara macao',
+    ];
+    const results: any[] = [];
+    let fetched = 0;
+    for (const q of speciesQueries) {
+      try {
+        const r = await upstreamFetch('gbif', `https://api.gbif.org/v1/species/search?q=${encodeURIComponent(q)}&limit=1`, { headers: { 'Accept': 'application/json', 'User-Agent': 'Global-Forest-Explorer-Worker/1.0' } });
+        if (r.ok) {
+          const j = await r.json();
+          if (j.results && j.results.length > 0) {
+            results.push(parseGBIFSpeciesData(j.results[0]));
+            fetched++;
+          }
+        }
+      } catch {
+        // ignore
+      }
+    }
+    const complete = fetched >= speciesQueries.length;
+    // Pad with mock species, stopping when they run out; each record names its own source
+    const mockSpecies = noMock ? [] : generateMockBiodiversityData();
+    while (results.length < Math.min(limit, speciesQueries.length, mockSpecies.length)) {
+      results.push({ ...mockSpecies[results.length], source: 'mock' });
+    }
+    const { data, invalid } = checkOutput('/biodiversity', results.slice(0, limit), validateBiodiversityData);
+    const res = json({ success: true, data, invalid, source: fetched > 0 ? 'gbif' : 'mock' });
+    return complete ? fromUpstream(res) : fromFallback(res);
+  });
 }
 
 async function handleSatelliteData(url: URL): Promise<Response> {
@@ -236,6 +591,9 @@ async function handleSatelliteData(url: URL): Promise<Response> {
   const lng = url.searchParams.get('lng');
   const layer = url.searchParams.get('layer') || 'MODIS_Terra_CorrectedReflectance_TrueColor';
   if (!lat || !lng) return json({ success: false, error: 'Latitude and longitude required' }, 400);
+  // Coverage and cloud cover are generated; only the imagery links are real, so the payload is
+  // reported as generated and never kept as last-known-good data
+  if (url.searchParams.get('no_mock') === '1') return json({ success: false, error: 'No live satellite coverage data; coverage figures are generated' }, 502);
   const today = new Date().toISOString().split('T')[0];
   const data = {
     timestamp: new Date().toISOString(),
@@ -247,105 +605,722 @@ async function handleSatelliteData(url: URL): Promise<Response> {
     tileUrl: `https://gibs.earthdata.nasa.gov/wmts/epsg4326/best/wmts.cgi?SERVICE=WMTS&REQUEST=GetTile&VERSION=1.0.0&LAYER=${layer}&STYLE=default&TILEMATRIXSET=EPSG4326_250m&TILEMATRIX=6&TILEROW=32&TILECOL=64&FORMAT=image%2Fjpeg&TIME=${today}`,
     wmsUrl: `https://gibs.earthdata.nasa.gov/wms/epsg4326/best/wms.cgi?SERVICE=WMS&REQUEST=GetMap&VERSION=1.3.0&LAYERS=${layer}&STYLES=default&CRS=EPSG:4326&BBOX=${parseFloat(lat)-1},${parseFloat(lng)-1},${parseFloat(lat)+1},${parseFloat(lng)+1}&WIDTH=512&HEIGHT=512&FORMAT=image/png&TIME=${today}`,
   };
-  return json({ success: true, data, source: 'nasa-gibs' });
-}
-
-async function handleUserProfile(request: Request): Promise<Response> {
-  const auth = request.headers.get('Authorization');
-  if (!auth) return json({ success: false, error: 'No authorization header' }, 401);
-  const profile = {
-    name: 'Forest Researcher',
-    organization: 'Global Conservation Institute',
-    role: 'Senior Forest Analyst',
-    joinDate: '2023-01-15',
-    regions: ['amazon', 'congo', 'boreal'],
-    permissions: ['view_alerts', 'manage_regions', 'export_data'],
+  return json({ success: true, data, source: 'server-generated' });
+}
+
+// GET returns the caller's profile, creating it on first sign-in; PUT changes the fields in
+// UserProfileUpdate. Access roles and permissions can only be changed in the store by an
+// administrator.
+async function handleUserProfile(request: Request, env: Env): Promise<Response> {
+  if (request.method !== 'GET' && request.method !== 'PUT') return json({ success: false, error: 'Use GET or PUT' }, 405);
+  const user = await resolveUser(request, env);
+  if (user instanceof Response) return user;
+  if (request.method === 'GET') {
+    return json({ success: true, data: user.profile, source: user.stored ? 'worker-profile' : 'token-claims' });
+  }
+
+  if (!env.ALERTS_DB) return json({ success: false, error: 'Profile store not configured' }, 503);
+  const body: any = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return json({ success: false, error: 'Body must be a JSON object' }, 400);
+  const editable = Object.keys(validateUserProfileUpdate.schema.properties);
+  const readOnly = Object.keys(body).filter((key) => !editable.includes(key));
+  if (readOnly.length > 0) {
+    return json({ success: false, error: `Cannot change ${readOnly.join(', ')}; editable fields are ${editable.join(', ')}` }, 400);
+  }
+  const result = validateUserProfileUpdate(body);
+  if (!result.ok) return json({ success: false, error: 'Invalid profile', details: result.errors.join('; ') }, 400);
+  const update: UserProfileUpdate = {
+    ...result.value,
+    ...(result.value.regions ? { regions: [...new Set(result.value.regions.map((region) => region.trim()).filter(Boolean))] } : {}),
   };
+  if (update.name !== undefined && !update.name.trim()) return json({ success: false, error: 'name cannot be empty' }, 400);
+  const profile = await updateUserProfile(env.ALERTS_DB, user.profile.id, update);
   return json({ success: true, data: profile, source: 'worker-profile' });
 }
 
-// Utilities
-function json(body: any, status: number = 200): Response {
-  return new Response(JSON.stringify(body), { status, headers: corsHeaders });
+// GET reports each source's last and next run; POST runs the requested sources (all by default)
+// now, skipping any that completed within SYNC_COOLDOWN_MS so repeated clicks cannot hammer the
+// upstreams.
+async function handleSync(request: Request, url: URL, env: Env, ctx: WorkerContext): Promise<Response> {
+  if (request.method === 'GET') {
+    const timestamps = env.ALERTS_DB ? await readUpdateTimestamps(env.ALERTS_DB) : new Map<string, UpdateTimestamp>();
+    const data = SYNC_JOBS.map((job) => {
+      const record = timestamps.get(job.type);
+      return {
+        type: job.type,
+        intervalMinutes: job.intervalMs / 60_000,
+        lastRun: record?.lastUpdate ?? null,
+        nextRun: record?.nextScheduled ?? null,
+        lastResult: record?.metadata ?? null,
+      };
+    });
+    return json({ success: true, data, tracked: Boolean(env.ALERTS_DB), source: 'worker-sync' });
+  }
+  if (request.method !== 'POST') return json({ success: false, error: 'Use GET or POST' }, 405);
+
+  const types = (url.searchParams.get('type') || '').split(',').map((type) => type.trim()).filter(Boolean);
+  const unknown = types.filter((type) => !SYNC_JOBS.some((job) => job.type === type));
+  if (unknown.length > 0) {
+    return json({ success: false, error: `Unknown type ${unknown.join(', ')}; use ${SYNC_JOBS.map((job) => job.type).join(', ')}` }, 400);
+  }
+  const report = await runSync(env, ctx, { trigger: 'manual', now: Date.now(), types });
+  const failed = report.results.filter((result) => !result.success && !result.skipped);
+  return json({ success: failed.length === 0, data: report, error: failed.length ? `Failed: ${failed.map((result) => result.type).join(', ')}` : undefined, source: 'worker-sync' });
 }
 
-function parseFireCsvData(csvData: string): any[] {
-  const alerts: any[] = [];
-  const lines = csvData.split('\n');
-  for (let i = 1; i < Math.min(lines.length, 51); i++) {
-    const line = lines[i]?.trim();
-    if (!line) continue;
-    const fields = line.split(',');
-    if (fields.length >= 13) {
-      const lat = parseFloat(fields[0]);
-      const lng = parseFloat(fields[1]);
-      const confidence = parseFloat(fields[8]);
-      const frp = parseFloat(fields[11]);
-      alerts.push({
-        id: `fire_${lat}_${lng}_${Date.now()}`,
-        timestamp: new Date().toISOString(),
-        location: getLocationName(lat, lng),
-        type: 'fire',
-        severity: calculateFireSeverity(frp, confidence),
-        confidence,
-        description: `Fire detected with ${frp.toFixed(1)} MW radiative power`,
-        coordinates: { lat, lng },
-        metadata: { frp },
-      });
-    }
+// GET lists the caller's stored upstream keys and POST stores one. Keys are encrypted before they
+// reach the store and are never returned, only their last four characters.
+async function handleApiKeys(request: Request, env: Env): Promise<Response> {
+  if (request.method !== 'GET' && request.method !== 'POST') return json({ success: false, error: 'Use GET or POST' }, 405);
+  if (!env.ALERTS_DB || !env.KEY_VAULT_SECRET) return json({ success: false, error: 'Key vault not configured' }, 503);
+  const user = await resolveUser(request, env);
+  if (user instanceof Response) return user;
+  if (request.method === 'GET') {
+    return json({ success: true, data: await listApiKeys(env.ALERTS_DB, user.profile.id), source: 'key-vault' });
+  }
+
+  const result = validateApiKeySubmission(await request.json().catch(() => null));
+  if (!result.ok) return json({ success: false, error: 'Invalid key', details: result.errors.join('; ') }, 400);
+  const existing = await listApiKeys(env.ALERTS_DB, user.profile.id);
+  if (existing.length >= API_KEYS_MAX_PER_USER) {
+    return json({ success: false, error: `At most ${API_KEYS_MAX_PER_USER} keys can be stored; delete one first` }, 409);
+  }
+  const { service, key, label } = result.value;
+  const id = crypto.randomUUID();
+  const sealed = await sealApiKey(env.KEY_VAULT_SECRET, { userId: user.profile.id, id, service }, key);
+  const summary = await insertApiKey(env.ALERTS_DB, {
+    id,
+    userId: user.profile.id,
+    service,
+    label: label?.trim() || '',
+    hint: key.slice(-4),
+    ...sealed,
+  });
+  return json({ success: true, data: summary, source: 'key-vault' }, 201);
+}
+
+async function handleApiKey(request: Request, id: string, env: Env): Promise<Response> {
+  if (request.method !== 'DELETE') return json({ success: false, error: 'Use DELETE' }, 405);
+  if (!env.ALERTS_DB || !env.KEY_VAULT_SECRET) return json({ success: false, error: 'Key vault not configured' }, 503);
+  const user = await resolveUser(request, env);
+  if (user instanceof Response) return user;
+  if (!await deleteApiKey(env.ALERTS_DB, user.profile.id, id)) return json({ success: false, error: 'Stored key not found' }, 404);
+  return json({ success: true, data: { id }, source: 'key-vault' });
+}
+
+// Partner apps push alerts (e.g. rangers' ground-truth reports) signed with their source's
+// secret: X-Webhook-Timestamp is the send time in Unix seconds and X-Webhook-Signature is
+// `sha256=` + hex HMAC-SHA256 of `<timestamp>.<raw body>`. The body is one alert, an array or
+// `{ "alerts": [...] }` in the ForestAlert shape. Partner ids are prefixed with the source so
+// partners cannot overwrite each other's reports, and a re-sent alert refreshes its stored copy
+// instead of adding a row. Every delivery is logged to webhook_logs, rejected ones included.
+async function handleWebhook(request: Request, rawSource: string, env: Env): Promise<Response> {
+  if (request.method !== 'POST') return json({ success: false, error: 'Use POST' }, 405);
+  const db = env.ALERTS_DB;
+  if (!db) return json({ success: false, error: 'Alert store not configured' }, 503);
+  // The source name appears in the console log, so keep whatever the caller sent to a bounded length
+  const source = rawSource.slice(0, 64);
+  const eventType = `webhook:${source}`;
+  // Until the signature checks out anyone can call, so failures go to the console, not webhook_logs
+  const refuse = (status: number, error: string): Response => {
+    console.warn(`Webhook ${source}: refused unsigned delivery (${status}): ${error}`);
+    return json({ success: false, error }, status);
+  };
+  const reject = async (status: number, error: string, details: Record<string, unknown> = {}): Promise<Response> => {
+    await logWebhookEvent(db, { eventType, data: details, source, status: 'error', errorMessage: error })
+      .catch((logError) => console.warn(`Webhook ${source}: could not log delivery:`, logError?.message || logError));
+    return json({ success: false, error, ...details }, status);
+  };
+
+  const secret = WEBHOOK_SOURCE_PATTERN.test(rawSource) ? readWebhookSecret(env, source) : null;
+  if (!secret) return refuse(404, `Unknown webhook source ${source}`);
+  // Limits are in bytes: Content-Length when sent, then the body actually received
+  const tooLarge = `Body exceeds ${WEBHOOK_MAX_BYTES} bytes`;
+  if (Number(request.headers.get('Content-Length')) > WEBHOOK_MAX_BYTES) return refuse(413, tooLarge);
+  const bytes = await request.arrayBuffer();
+  if (bytes.byteLength > WEBHOOK_MAX_BYTES) return refuse(413, tooLarge);
+  const body = new TextDecoder().decode(bytes);
+  const signatureError = await verifyWebhookSignature(request, body, secret);
+  if (signatureError) return refuse(401, signatureError);
+
+  let payload: any;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return reject(400, 'Body must be JSON');
   }
-  return alerts;
-}
-
-function parseGladAlertsData(data: any): any[] {
-  const alerts: any[] = [];
-  if (data?.data && Array.isArray(data.data)) {
-    data.data.slice(0, 25).forEach((alert: any, index: number) => {
-      alerts.push({
-        id: `deforest_${index}_${Date.now()}`,
-        timestamp: alert.date || new Date().toISOString(),
-        location: alert.iso || alert.admin || 'Forest Region',
-        type: 'deforestation',
-        severity: getDeforestationSeverity(alert.alerts || alert.area || 1),
-        confidence: alert.confidence || 85,
-        description: `Deforestation detected: ${alert.alerts || alert.area || 'area'} alerts`,
-        coordinates: { lat: alert.lat || (Math.random() * 10 - 5), lng: alert.lng || (Math.random() * 20 - 10) },
-        metadata: alert,
-      });
+  const items: unknown[] = Array.isArray(payload) ? payload : Array.isArray(payload?.alerts) ? payload.alerts : payload ? [payload] : [];
+  if (items.length === 0) return reject(400, 'No alerts in payload');
+  if (items.length > WEBHOOK_MAX_ALERTS) return reject(413, `At most ${WEBHOOK_MAX_ALERTS} alerts per delivery`);
+
+  const { valid, invalid } = validateRecords(items, validateForestAlert);
+  if (invalid.length > 0) reportInvalidRecords(eventType, invalid);
+  if (valid.length === 0) return reject(422, 'No valid alerts in payload', { received: items.length, invalid: invalid.slice(0, 20) });
+
+  const alerts = [...new Map(valid.map((alert) => [`webhook_${source}_${alert.id}`, { ...alert, id: `webhook_${source}_${alert.id}` }])).values()];
+  let existing: Set<string>;
+  try {
+    existing = await findExistingAlertIds(db, alerts.map((alert) => alert.id));
+    await upsertAlerts(db, alerts, eventType);
+  } catch (e: any) {
+    return reject(503, `Could not store alerts: ${e?.message || 'store unavailable'}`, { received: items.length });
+  }
+  const data = {
+    received: items.length,
+    created: alerts.length - existing.size,
+    duplicates: valid.length - alerts.length + existing.size,
+    ids: alerts.map((alert) => alert.id),
+  };
+  await logWebhookEvent(db, { eventType, data: { ...data, invalid: invalid.length }, source })
+    .catch((logError) => console.warn(`Webhook ${source}: could not log delivery:`, logError?.message || logError));
+  return json({ success: true, data, invalid: invalid.length ? invalid.slice(0, 20) : undefined, source: eventType });
+}
+
+function readWebhookSecret(env: Env, source: string): string | null {
+  try {
+    const secrets = JSON.parse(env.WEBHOOK_SECRETS || '{}');
+    return typeof secrets[source] === 'string' && secrets[source] ? secrets[source] : null;
+  } catch {
+    console.warn('WEBHOOK_SECRETS is not a JSON object');
+    return null;
+  }
+}
+
+// Upstream fetchers
+async function fetchFirmsDataset(apiKey: string, dataset: string, region: string, days: string, date: string): Promise<any[]> {
+  const url = `https://firms.modaps.eosdis.nasa.gov/api/area/csv/${apiKey}/${dataset}/${region}/${days}/${date}`;
+  const r = await upstreamFetch('nasa_firms', url, { headers: { 'Accept': 'text/csv', 'User-Agent': 'Global-Forest-Explorer-Worker/1.0' } });
+  if (!r.ok) throw new Error(`NASA FIRMS API error (${dataset}): ${r.status}`);
+  return parseFireCsvData(await r.text(), dataset);
+}
+
+async function resolveGeostore(area: DeforestationArea, apiKey?: string): Promise<string> {
+  if (area.geostore) return area.geostore;
+  const headers: Record<string, string> = { 'Accept': 'application/json', 'User-Agent': 'Global-Forest-Explorer-Worker/1.0' };
+  let r: Response;
+  if (area.geometry) {
+    if (apiKey) headers['x-api-key'] = apiKey;
+    r = await upstreamFetch('global_forest_watch', 'https://api.resourcewatch.org/v2/geostore', {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ geojson: { type: 'FeatureCollection', features: [{ type: 'Feature', properties: {}, geometry: area.geometry }] } }),
     });
+  } else {
+    const path = [area.iso, area.adm1, area.adm2].filter(Boolean).map((part) => encodeURIComponent(part!)).join('/');
+    r = await upstreamFetch('global_forest_watch', `https://api.resourcewatch.org/v2/geostore/admin/${path}?simplify=0.005`, { headers });
   }
-  return alerts;
+  if (!r.ok) throw new Error(`GFW geostore error (${area.key}): ${r.status}`);
+  const body: any = await r.json();
+  const id = body?.data?.id;
+  if (!id) throw new Error(`GFW geostore not found for ${area.key}`);
+  return id;
+}
+
+async function queryIntegratedAlerts(apiKey: string, geostoreId: string, sql: string): Promise<any> {
+  const params = new URLSearchParams({ sql, geostore_id: geostoreId, geostore_origin: 'rw' });
+  const r = await upstreamFetch('global_forest_watch', `https://data-api.globalforestwatch.org/dataset/gfw_integrated_alerts/latest/query/json?${params}`, { headers: { 'Accept': 'application/json', 'x-api-key': apiKey, 'User-Agent': 'Global-Forest-Explorer-Worker/1.0' } });
+  if (!r.ok) throw new Error(`GFW Data API error: ${r.status}`);
+  return r.json();
 }
 
-function parseOpenWeatherData(data: any): any {
+async function fetchIntegratedAlerts(apiKey: string, geostoreId: string, area: DeforestationArea, start: string, end: string, limit: number): Promise<any[]> {
+  const sql = `SELECT latitude, longitude, gfw_integrated_alerts__date, gfw_integrated_alerts__confidence FROM results WHERE gfw_integrated_alerts__date >= '${start}' AND gfw_integrated_alerts__date <= '${end}' ORDER BY gfw_integrated_alerts__date DESC LIMIT ${limit}`;
+  return parseIntegratedAlertsData(await queryIntegratedAlerts(apiKey, geostoreId, sql), area.key, {
+    area: area.key, iso: area.iso ?? null, adm1: area.adm1 ?? null, adm2: area.adm2 ?? null,
+  });
+}
+
+async function fetchIntegratedAlertCounts(apiKey: string, geostoreId: string, start: string, end: string): Promise<Record<string, number>> {
+  const sql = `SELECT gfw_integrated_alerts__confidence, COUNT(*) AS alert__count FROM results WHERE gfw_integrated_alerts__date >= '${start}' AND gfw_integrated_alerts__date <= '${end}' GROUP BY gfw_integrated_alerts__confidence`;
+  const body = await queryIntegratedAlerts(apiKey, geostoreId, sql);
+  const counts: Record<string, number> = { nominal: 0, high: 0, highest: 0 };
+  for (const row of Array.isArray(body?.data) ? body.data : []) {
+    const confidenceClass = String(row.gfw_integrated_alerts__confidence || 'nominal').toLowerCase();
+    counts[confidenceClass] = (counts[confidenceClass] || 0) + (Number(row.alert__count) || 0);
+  }
+  return counts;
+}
+
+async function fetchGladAlertCount(area: DeforestationArea, geostoreId: string | null, start: string, end: string): Promise<number> {
+  const period = `period=${start},${end}&gladConfirmOnly=false`;
+  const gfwUrl = area.iso
+    ? `https://production-api.globalforestwatch.org/v1/glad-alerts/admin/${[area.iso, area.adm1, area.adm2].filter(Boolean).map((part) => encodeURIComponent(part!)).join('/')}?${period}`
+    : `https://production-api.globalforestwatch.org/v1/glad-alerts?geostore=${encodeURIComponent(geostoreId || '')}&${period}`;
+  const r = await upstreamFetch('global_forest_watch', gfwUrl, { headers: { 'Accept': 'application/json', 'User-Agent': 'Global-Forest-Explorer-Worker/1.0' } });
+  if (!r.ok) throw new Error(`GFW API error: ${r.status}`);
+  return parseGladAlertCount(await r.json());
+}
+
+// Deforestation areas
+interface DeforestationArea {
+  key: string;
+  iso?: string;
+  adm1?: string;
+  adm2?: string;
+  geostore?: string;
+  geometry?: { type: 'MultiPolygon'; coordinates: number[][][][] };
+}
+
+// `region=BRA`, `region=BRA/14` (state) or `region=BRA/14/5300108` (municipality), several
+// comma-separated; `geostore=<id>` for an existing GFW geostore; or a GeoJSON
+// Polygon/MultiPolygon POST body (same shapes as /fire-alerts). Each area gets its own aggregate.
+async function parseDeforestationAreas(request: Request, url: URL): Promise<DeforestationArea[]> {
+  if (request.method === 'POST') {
+    const filter = await parseAreaFilter(request, url);
+    return [{ key: filter!.key, geometry: { type: 'MultiPolygon', coordinates: filter!.polygons! } }];
+  }
+
+  const geostore = url.searchParams.get('geostore');
+  if (geostore) {
+    if (!/^[A-Za-z0-9_-]{1,64}$/.test(geostore)) throw new Error('geostore must be a GFW geostore id');
+    return [{ key: `geostore:${geostore}`, geostore }];
+  }
+
+  const regions = (url.searchParams.get('region') || 'BRA').split(',').map((region) => region.trim()).filter(Boolean);
+  if (regions.length > DEFORESTATION_MAX_AREAS) throw new Error(`At most ${DEFORESTATION_MAX_AREAS} regions per request`);
+  return regions.map((region) => {
+    const match = /^([A-Za-z]{3})(?:\/(\d{1,10}))?(?:\/(\d{1,10}))?$/.exec(region);
+    if (!match) throw new Error(`region must be ISO3[/adm1[/adm2]], got ${region}`);
+    const [, iso, adm1, adm2] = match;
+    const parts = [iso.toUpperCase(), adm1, adm2].filter(Boolean) as string[];
+    return { key: parts.join('/'), iso: parts[0], adm1, adm2 };
+  });
+}
+
+function describeArea(area: DeforestationArea, geostoreId: string | null) {
+  return { area: area.key, iso: area.iso ?? null, adm1: area.adm1 ?? null, adm2: area.adm2 ?? null, geostore: geostoreId };
+}
+
+// Cache
+// Every cached handler derives its key from buildCacheKey so that all parameters which change
+// the payload are part of the key. Keys are normalized (sorted, empty values dropped) and never
+// contain raw API keys. Cached copies carry X-Cached-At so hits can report a real Age.
+//
+// TTLs come from CACHE_DURATIONS, shared with the frontend. Upstream payloads are also kept as
+// a "last good" copy for CACHE_DURATIONS.STALE_DATA: once the fresh entry expires that copy is
+// served (X-Cache: STALE) while a refresh runs in the background. Mock and fallback payloads
+// only live for CACHE_DURATIONS.FALLBACK_DATA and never replace the last good copy.
+//
+// Routes name the provider whose shared quota a reload spends (none when the caller's stored key
+// pays for it). Once that quota is down to its reserve, any cached copy is served as it is, without
+// a background refresh, and scheduled refreshes are skipped; when it is used up, requests nothing
+// cached can answer get a 503 until the quota resets.
+type CacheResult = { res: Response; kind: 'upstream' | 'fallback' | 'uncached' };
+
+const fromUpstream = (res: Response): CacheResult => ({ res, kind: 'upstream' });
+const fromFallback = (res: Response): CacheResult => ({ res, kind: 'fallback' });
+const uncached = (res: Response): CacheResult => ({ res, kind: 'uncached' });
+
+const refreshing = new Set<string>();
+
+function buildCacheKey(route: string, params: Record<string, string | number | boolean | null | undefined>): Request {
+  const search = new URLSearchParams();
+  for (const name of Object.keys(params).sort()) {
+    const value = params[name];
+    if (value === undefined || value === null || value === '' || value === false) continue;
+    search.set(name, value === true ? '1' : String(value));
+  }
+  const query = search.toString();
+  return new Request(`https://cache.forest-worker${route}${query ? `?${query}` : ''}`);
+}
+
+function lastGoodKey(cacheKey: Request): Request {
+  return new Request(cacheKey.url.replace('https://cache.forest-worker/', 'https://last-good.forest-worker/'));
+}
+
+function getCache(): any {
+  return (caches as any).default ?? caches;
+}
+
+async function serveCached(
+  cacheKey: Request,
+  ttlMs: number,
+  ctx: WorkerContext,
+  quota: UpstreamProvider | null,
+  load: () => Promise<CacheResult>,
+): Promise<Response> {
+  const status = quota ? quotaStatus(quota) : null;
+  if (ctx.refresh && !status?.reserve) return storeResult(cacheKey, ttlMs, await load());
+
+  const cached = await readCache(cacheKey);
+  if (cached) return cached;
+
+  const stale = await readCache(lastGoodKey(cacheKey));
+  if (stale) {
+    if (!status?.reserve && !refreshing.has(cacheKey.url)) {
+      refreshing.add(cacheKey.url);
+      ctx.waitUntil(
+        load()
+          .then((result) => (result.kind === 'upstream' ? storeResult(cacheKey, ttlMs, result) : undefined))
+          .catch(() => undefined)
+          .finally(() => refreshing.delete(cacheKey.url)),
+      );
+    }
+    stale.headers.set('Cache-Control', 'public, max-age=0');
+    stale.headers.set('X-Cache', 'STALE');
+    return stale;
+  }
+
+  if (status?.exhausted) {
+    const res = json({ success: false, error: `Daily ${quota} quota used up; resets at ${status.resetsAt}` }, 503);
+    res.headers.set('Retry-After', String(Math.ceil((Date.parse(status.resetsAt) - Date.now()) / 1000)));
+    return res;
+  }
+  return storeResult(cacheKey, ttlMs, await load());
+}
+
+async function storeResult(cacheKey: Request, ttlMs: number, { res, kind }: CacheResult): Promise<Response> {
+  const toSeconds = (ms: number) => Math.round(ms / 1000);
+  switch (kind) {
+    case 'upstream':
+      await writeCache(lastGoodKey(cacheKey), res, toSeconds(CACHE_DURATIONS.STALE_DATA));
+      return writeCache(cacheKey, res, toSeconds(ttlMs), toSeconds(CACHE_DURATIONS.STALE_DATA));
+    case 'fallback':
+      return writeCache(cacheKey, res, toSeconds(CACHE_DURATIONS.FALLBACK_DATA));
+    default:
+      return res;
+  }
+}
+
+async function readCache(cacheKey: Request): Promise<Response | null> {
+  const cached: Response | undefined = await getCache().match(cacheKey);
+  if (!cached) return null;
+  const cachedAt = Number(cached.headers.get('X-Cached-At')) || Date.now();
+  const res = new Response(cached.body, cached);
+  res.headers.set('Age', String(Math.max(0, Math.floor((Date.now() - cachedAt) / 1000))));
+  res.headers.set('X-Cache', 'HIT');
+  return res;
+}
+
+async function writeCache(cacheKey: Request, res: Response, ttlSeconds: number, staleSeconds: number = 0): Promise<Response> {
+  res.headers.set('Cache-Control', `public, max-age=${ttlSeconds}${staleSeconds ? `, stale-while-revalidate=${staleSeconds}` : ''}`);
+  res.headers.set('Age', '0');
+  res.headers.set('X-Cache', 'MISS');
+  const stored = new Response(res.clone().body, res);
+  stored.headers.set('X-Cached-At', String(Date.now()));
+  await getCache().put(cacheKey, stored);
+  return res;
+}
+
+// FWI carry-over state per location (~0.1° grid), kept long enough to bridge gaps in requests.
+// Like the response cache this is per data centre, so a cold location restarts from the
+// standard start-up codes.
+function fwiStateKey(lat: number, lng: number): Request {
+  return new Request(`https://fwi-state.forest-worker/?lat=${lat.toFixed(1)}&lng=${lng.toFixed(1)}`);
+}
+
+async function readFwiState(lat: number, lng: number): Promise<FwiStateRecord | null> {
+  const cached: Response | undefined = await getCache().match(fwiStateKey(lat, lng));
+  return cached ? cached.json().catch(() => null) : null;
+}
+
+async function writeFwiState(lat: number, lng: number, record: FwiStateRecord): Promise<void> {
+  const { ffmc, dmc, dc } = record.end;
+  await getCache().put(fwiStateKey(lat, lng), new Response(JSON.stringify({ ...record, end: { ffmc, dmc, dc } }), {
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': `public, max-age=${Math.round(FWI_STATE_TTL_MS / 1000)}` },
+  }));
+}
+
+// Responses that never went through the cache are marked as uncacheable misses
+function withCacheHeaders(res: Response): Response {
+  if (res.headers.has('X-Cache')) return res;
+  res.headers.set('Cache-Control', 'no-store');
+  res.headers.set('Age', '0');
+  res.headers.set('X-Cache', 'MISS');
+  return res;
+}
+
+// Alert store
+// Upstream alerts are written in the background so responses never wait on the database. Only
+// validated upstream records are stored; mock and fallback data never are.
+function storeAlerts(env: Env, ctx: WorkerContext, alerts: ForestAlert[], source: string): void {
+  if (!env.ALERTS_DB || alerts.length === 0) return;
+  ctx.waitUntil(upsertAlerts(env.ALERTS_DB, alerts, source).catch((error) => {
+    console.warn(`Alert store: failed to record ${alerts.length} alerts from ${source}:`, error?.message || error);
+  }));
+}
+
+function parseHistoryQuery(url: URL): AlertHistoryQuery {
+  const parseTime = (name: string, fallback: number): string => {
+    const raw = url.searchParams.get(name);
+    const time = raw ? Date.parse(raw) : fallback;
+    if (!Number.isFinite(time)) throw new Error(`${name} must be an ISO date or timestamp`);
+    return new Date(time).toISOString();
+  };
+  const to = parseTime('to', Date.now());
+  const from = parseTime('from', Date.parse(to) - ALERT_HISTORY_DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+  if (from >= to) throw new Error('from must be before to');
+  return {
+    from,
+    to,
+    ...parseAlertFilters(url),
+    ...parsePagination(url, FIRE_ALERTS_DEFAULT_LIMIT, FIRE_ALERTS_MAX_LIMIT),
+  };
+}
+
+function parseAlertFilters(url: URL): AlertFilters {
+  const parseList = <T extends string>(name: string, allowed: readonly T[]): T[] | undefined => {
+    const values = (url.searchParams.get(name) || '').split(',').map((value) => value.trim().toLowerCase()).filter(Boolean);
+    const unknown = values.filter((value) => !allowed.includes(value as T));
+    if (unknown.length > 0) throw new Error(`Unknown ${name} ${unknown.join(', ')}; use ${allowed.join(', ')}`);
+    return values.length > 0 ? values as T[] : undefined;
+  };
   return {
-    temperature: data.main.temp,
-    humidity: data.main.humidity,
-    precipitation: data.rain?.['1h'] || data.snow?.['1h'] || 0,
-    windSpeed: data.wind.speed,
-    pressure: data.main.pressure,
-    cloudCover: data.clouds.all,
-    uvIndex: 0,
-    fireWeatherIndex: calculateFireWeatherIndex(data.main.temp, data.main.humidity, data.rain?.['1h'] || 0),
-    location: data.name,
-    country: data.sys.country,
-    description: data.weather?.[0]?.description,
+    types: parseList<AlertType>('type', ALERT_TYPES),
+    severities: parseList<Severity>('severity', SEVERITIES),
+    bbox: url.searchParams.get('bbox') ? parseBbox(url.searchParams.get('bbox')!) : undefined,
   };
 }
 
+// Access control
+// Callers are identified by a verified bearer token. Profiles are created on first sign-in with
+// the AUTH_DEFAULT_ROLE access role; without a store they are rebuilt from the token on every
+// request. Route-level permissions come from the route table, so the OpenAPI document and the
+// checks cannot drift apart.
+function authConfig(env: Env): AuthConfig {
+  return { jwksUrl: env.AUTH_JWKS_URL, secret: env.AUTH_JWT_SECRET, issuer: env.AUTH_ISSUER, audience: env.AUTH_AUDIENCE };
+}
+
+// The rate limiter, the route permission check and the handlers all need the caller, so the
+// token is verified and the profile looked up once per request and shared through these
+const verifiedTokens = new WeakMap<Request, Promise<AuthResult>>();
+const resolvedUsers = new WeakMap<Request, Promise<{ profile: UserProfile; stored: boolean } | Response>>();
+
+function authenticate(request: Request, env: Env): Promise<AuthResult> {
+  let auth = verifiedTokens.get(request);
+  if (!auth) {
+    auth = verifyBearerToken(request.headers.get('Authorization'), authConfig(env));
+    verifiedTokens.set(request, auth);
+  }
+  return auth;
+}
+
+function resolveUser(request: Request, env: Env): Promise<{ profile: UserProfile; stored: boolean } | Response> {
+  let user = resolvedUsers.get(request);
+  if (!user) {
+    user = lookUpUser(request, env);
+    resolvedUsers.set(request, user);
+  }
+  return user;
+}
+
+async function lookUpUser(request: Request, env: Env): Promise<{ profile: UserProfile; stored: boolean } | Response> {
+  const auth = await authenticate(request, env);
+  if (!auth.ok) return json({ success: false, error: auth.error }, auth.status);
+  const profile = profileFromClaims(auth.claims, env);
+  if (!env.ALERTS_DB) return { profile, stored: false };
+  return { profile: await readUserProfile(env.ALERTS_DB, profile.id) ?? await createUserProfile(env.ALERTS_DB, profile), stored: true };
+}
+
+function routePermission(path: string, method: string): UserPermission | undefined {
+  const operations = (WORKER_ROUTES as Record<string, Partial<Record<HttpMethod, RouteOperation>>>)[path];
+  return operations?.[method.toLowerCase() as HttpMethod]?.permission;
+}
+
+async function requirePermission(request: Request, env: Env, permission: UserPermission): Promise<UserProfile | Response> {
+  const user = await resolveUser(request, env);
+  if (user instanceof Response) return user;
+  if (!user.profile.permissions.includes(permission)) {
+    return json({ success: false, error: `Requires the ${permission} permission` }, 403);
+  }
+  return user.profile;
+}
+
+// The caller's stored key for `service` when the request names one with key_id. Only the owner
+// can use a key; the id, never the key, goes into cache keys.
+async function resolveStoredKey(request: Request, url: URL, env: Env, ctx: WorkerContext, service: ApiKeyService): Promise<{ id: string; key: string } | null | Response> {
+  const id = url.searchParams.get('key_id');
+  if (!id) return null;
+  if (!env.ALERTS_DB || !env.KEY_VAULT_SECRET) return json({ success: false, error: 'Key vault not configured' }, 503);
+  const user = await resolveUser(request, env);
+  if (user instanceof Response) return user;
+  const stored = await readApiKey(env.ALERTS_DB, user.profile.id, id);
+  if (!stored) return json({ success: false, error: 'Stored key not found' }, 404);
+  if (stored.service !== service) return json({ success: false, error: `Stored key ${id} is for ${stored.service}, not ${service}` }, 400);
+  let key: string;
+  try {
+    key = await openApiKey(env.KEY_VAULT_SECRET, { userId: stored.userId, id, service }, stored);
+  } catch {
+    return json({ success: false, error: 'Stored key cannot be decrypted; store it again' }, 500);
+  }
+  ctx.waitUntil(touchApiKey(env.ALERTS_DB, id).catch(() => {}));
+  return { id, key };
+}
+
+// Supabase keeps sign-up form fields in user_metadata
+function profileFromClaims(claims: AuthClaims, env: Env): UserProfile {
+  const metadata = claims.user_metadata || {};
+  const field = (...names: string[]) => names.map((name) => metadata[name]).find((value): value is string => typeof value === 'string' && value.trim() !== '');
+  const accessRole: AccessRole = isAccessRole(env.AUTH_DEFAULT_ROLE) ? env.AUTH_DEFAULT_ROLE : DEFAULT_ACCESS_ROLE;
+  return {
+    id: claims.sub,
+    ...(claims.email ? { email: claims.email } : {}),
+    name: field('name', 'full_name') || claims.email?.split('@')[0] || 'Forest user',
+    organization: field('organization') || '',
+    role: field('role', 'title') || '',
+    accessRole,
+    joinDate: new Date().toISOString(),
+    regions: [],
+    permissions: permissionsFor(accessRole),
+  };
+}
+
+// Rate limiting
+// Signed-in callers are limited per user, so several people behind one address do not share a
+// bucket; an invalid token falls back to the address and is rejected later if the route needs it.
+function rateLimitPerMinute(env: Env): number {
+  const perMinute = Number(env.RATE_LIMIT_PER_MINUTE ?? RATE_LIMIT_DEFAULT_PER_MINUTE);
+  return Number.isFinite(perMinute) && perMinute >= 0 ? perMinute : RATE_LIMIT_DEFAULT_PER_MINUTE;
+}
+
+async function rateLimit(request: Request, env: Env): Promise<RateLimitResult | null> {
+  const perMinute = rateLimitPerMinute(env);
+  if (perMinute === 0) return null;
+  let client = `ip:${request.headers.get('CF-Connecting-IP') || 'unknown'}`;
+  if (request.headers.has('Authorization')) {
+    const auth = await authenticate(request, env);
+    if (auth.ok) client = `user:${auth.claims.sub}`;
+  }
+  return takeToken(client, perMinute);
+}
+
+function withRateLimitHeaders(res: Response, rate: RateLimitResult | null): Response {
+  if (!rate) return res;
+  res.headers.set('X-RateLimit-Limit', String(rate.limit));
+  res.headers.set('X-RateLimit-Remaining', String(rate.remaining));
+  if (!rate.allowed) res.headers.set('Retry-After', String(rate.retryAfterSeconds));
+  return res;
+}
+
+// Scheduled ingestion
+// Each source is refreshed by requesting its own route with the cache bypassed, so a sync warms
+// exactly the entries the app reads and upstream alerts reach the store the usual way. Run times
+// are kept in update_timestamps; without a store a source is due whenever the cron tick crosses
+// a multiple of its interval.
+interface SyncJob {
+  type: string;
+  intervalMs: number;
+  paths: string[];
+}
+
+interface SyncResult {
+  type: string;
+  success: boolean;
+  skipped?: boolean;
+  count?: number;
+  sources?: string[];
+  error?: string;
+  nextRun?: string;
+}
+
+const SYNC_JOBS: SyncJob[] = [
+  { type: 'fire-alerts', intervalMs: 15 * 60 * 1000, paths: ['/fire-alerts'] },
+  { type: 'deforestation-alerts', intervalMs: 60 * 60 * 1000, paths: ['/deforestation-alerts'] },
+  {
+    type: 'weather-data',
+    intervalMs: 10 * 60 * 1000,
+    // Amazon, Congo Basin, Alaskan boreal forest and Southeast Asia
+    paths: ['/weather?lat=-3.4653&lng=-62.2159', '/weather?lat=-0.228&lng=15.8277', '/weather?lat=64.2008&lng=-153.4937', '/weather?lat=1.3521&lng=103.8198'],
+  },
+  { type: 'biodiversity-data', intervalMs: 24 * 60 * 60 * 1000, paths: ['/biodiversity'] },
+  { type: 'forest-regions', intervalMs: 24 * 60 * 60 * 1000, paths: ['/forest-regions'] },
+];
+
+async function runSync(
+  env: Env,
+  ctx: WorkerContext,
+  { trigger, now, types = [] }: { trigger: 'scheduled' | 'manual'; now: number; types?: string[] },
+): Promise<{ trigger: string; timestamp: string; results: SyncResult[] }> {
+  const timestamps = env.ALERTS_DB
+    ? await readUpdateTimestamps(env.ALERTS_DB).catch((error) => {
+      console.warn('Sync: could not read update timestamps:', error?.message || error);
+      return new Map<string, UpdateTimestamp>();
+    })
+    : null;
+  const results: SyncResult[] = [];
+  for (const job of SYNC_JOBS) {
+    if (types.length > 0 && !types.includes(job.type)) continue;
+    const record = timestamps?.get(job.type);
+    const due = trigger === 'manual'
+      ? !(record?.metadata.success && now - Date.parse(record.lastUpdate) < SYNC_COOLDOWN_MS)
+      : timestamps
+        ? !record?.nextScheduled || Date.parse(record.nextScheduled) <= now
+        : Math.floor(now / job.intervalMs) !== Math.floor((now - SYNC_CRON_PERIOD_MS) / job.intervalMs);
+    if (!due) {
+      results.push({ type: job.type, success: true, skipped: true, nextRun: record?.nextScheduled ?? undefined });
+      continue;
+    }
+    const result = await runSyncJob(job, env, ctx);
+    result.nextRun = new Date(now + (result.success ? job.intervalMs : SYNC_RETRY_MS)).toISOString();
+    results.push(result);
+    if (env.ALERTS_DB) {
+      const { type, nextRun, ...metadata } = result;
+      await recordUpdate(env.ALERTS_DB, { updateType: type, lastUpdate: new Date(now).toISOString(), nextScheduled: nextRun!, metadata: { ...metadata, trigger } })
+        .catch((error) => console.warn(`Sync: could not record ${type}:`, error?.message || error));
+    }
+  }
+
+  const report = { trigger, timestamp: new Date(now).toISOString(), results };
+  const failed = results.filter((result) => !result.success);
+  console.log(`Sync (${trigger}): ${results.filter((result) => !result.skipped).map((result) => `${result.type} ${result.success ? 'ok' : 'failed'}`).join(', ') || 'nothing due'}`);
+  if (env.ALERTS_DB && results.some((result) => !result.skipped)) {
+    await logWebhookEvent(env.ALERTS_DB, {
+      eventType: trigger === 'manual' ? 'full-data-sync' : 'scheduled-update',
+      data: report,
+      source: 'worker-sync',
+      status: failed.length ? 'error' : 'success',
+      errorMessage: failed.length ? failed.map((result) => `${result.type}: ${result.error}`).join('; ') : undefined,
+    }).catch((error) => console.warn('Sync: could not log run:', error?.message || error));
+  }
+  return report;
+}
+
+async function runSyncJob(job: SyncJob, env: Env, ctx: WorkerContext): Promise<SyncResult> {
+  const refreshCtx: WorkerContext = { waitUntil: (promise) => ctx.waitUntil(promise), refresh: true };
+  let count = 0;
+  const sources = new Set<string>();
+  const errors: string[] = [];
+  for (const path of job.paths) {
+    try {
+      const url = new URL(`https://sync.forest-worker${path}`);
+      const res = await route(url.pathname, new Request(url), url, env, refreshCtx);
+      const body: any = await res.json().catch(() => null);
+      if (!res.ok || !body?.success) throw new Error(body?.error || `HTTP ${res.status}`);
+      count += Array.isArray(body.data) ? body.data.length : body.data ? 1 : 0;
+      if (body.source) sources.add(body.source);
+      // Fallback payloads still succeed for the app, but the source should be retried soon
+      if (body.error) throw new Error(body.error);
+    } catch (error: any) {
+      errors.push(`${path}: ${error?.message || 'failed'}`);
+    }
+  }
+  return errors.length
+    ? { type: job.type, success: false, count, sources: [...sources], error: errors.join('; ') }
+    : { type: job.type, success: true, count, sources: [...sources] };
+}
+
+// Utilities
+function json(body: any, status: number = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: corsHeaders });
+}
+
+// The legacy GLAD endpoints only report an alert count for the whole area (optionally per day)
+function parseGladAlertCount(data: any): number {
+  if (Array.isArray(data?.data)) {
+    return data.data.reduce((sum: number, row: any) => sum + (Number(row.alerts ?? row.count ?? row.value ?? 0) || 0), 0);
+  }
+  return Number(data?.data?.attributes?.value ?? 0) || 0;
+}
+
 function parseGBIFSpeciesData(gbifResult: any): any {
   return {
-    id: gbifResult.key || gbifResult.scientificName?.toLowerCase().replace(' ', '_'),
+    id: String(gbifResult.key || gbifResult.scientificName?.toLowerCase().replace(' ', '_')),
     name: gbifResult.vernacularName || gbifResult.canonicalName || 'Unknown Species',
     scientificName: gbifResult.scientificName || gbifResult.canonicalName,
     status: determineConservationStatus(gbifResult),
-    population: Math.floor(Math.random() * 100000) + 1000,
-    trend: (Math.random() - 0.5) * 6,
     habitat: gbifResult.habitat || 'Forest',
-    lastSeen: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
-    confidence: 85 + Math.random() * 10,
-    threatLevel: Math.floor(Math.random() * 100),
     conservationStatus: gbifResult.threatStatus || 'Data Deficient',
+    source: 'gbif',
   };
 }
 
@@ -358,18 +1333,69 @@ function determineConservationStatus(gbifResult: any): 'stable' | 'declining' |
 }
 
 // Helpers
-function calculateFireWeatherIndex(temp: number, humidity: number, precipitation: number): number {
-  const dryness = Math.max(0, 100 - humidity);
-  const heat = Math.max(0, temp - 20);
-  const dryPeriod = Math.max(0, 30 - precipitation);
-  return Math.min(100, (dryness + heat + dryPeriod) / 3);
+const FIRE_ALERTS_DEFAULT_LIMIT = 1000;
+const FIRE_ALERTS_MAX_LIMIT = 5000;
+const FIRE_FUSION_DEFAULT_KM = 1.5;
+const FIRE_FUSION_MAX_KM = 25;
+const FIRE_FUSION_DEFAULT_HOURS = 6;
+const FIRE_FUSION_MAX_HOURS = 72;
+const DEFORESTATION_MAX_LIMIT = 1000;
+const FORECAST_DEFAULT_HOURS = 120;
+const FORECAST_MAX_HOURS = 120;
+const FWI_STATE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const DEFORESTATION_MAX_AREAS = 10;
+const ALERT_HISTORY_DEFAULT_DAYS = 30;
+const ALERT_STREAM_POLL_MS = 5 * 1000;
+const ALERT_STREAM_WINDOW_MS = 5 * 60 * 1000;
+const ALERT_STREAM_RETRY_MS = 3 * 1000;
+const ALERT_STREAM_BATCH = 100;
+// Must match the cron in wrangler.toml
+const SYNC_CRON_PERIOD_MS = 5 * 60 * 1000;
+const SYNC_RETRY_MS = 5 * 60 * 1000;
+const SYNC_COOLDOWN_MS = 60 * 1000;
+const DEFAULT_ACCESS_ROLE: AccessRole = 'volunteer';
+const API_KEYS_MAX_PER_USER = 20;
+const RATE_LIMIT_DEFAULT_PER_MINUTE = 120;
+const WEBHOOK_SOURCE_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const WEBHOOK_MAX_BYTES = 1_000_000;
+const WEBHOOK_MAX_ALERTS = 500;
+
+function parsePagination(url: URL, defaultLimit: number, maxLimit: number): { limit: number; offset: number } {
+  const limit = parseInt(url.searchParams.get('limit') || '', 10);
+  const offset = parseInt(url.searchParams.get('offset') || '', 10);
+  return {
+    limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, maxLimit) : defaultLimit,
+    offset: Number.isFinite(offset) && offset > 0 ? offset : 0,
+  };
 }
 
-function calculateFireSeverity(frp: number, confidence: number): 'low' | 'medium' | 'high' | 'critical' {
-  if (frp > 50 && confidence > 80) return 'critical';
-  if (frp > 25 && confidence > 70) return 'high';
-  if (frp > 10 && confidence > 60) return 'medium';
-  return 'low';
+function parseCoordinates(url: URL): { lat: number; lng: number } | null {
+  const lat = parseFloat(url.searchParams.get('lat') || '');
+  const lng = parseFloat(url.searchParams.get('lng') || '');
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  // ~11 m precision: enough for weather, and equivalent coordinates share a cache entry
+  return { lat: Math.round(lat * 1e4) / 1e4, lng: Math.round(lng * 1e4) / 1e4 };
+}
+
+function parsePositiveFloat(value: string | null, fallback: number, max: number): number {
+  const parsed = parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, max) : fallback;
+}
+
+function paginate(items: any[], limit: number, offset: number): { data: any[]; pagination: { total: number; limit: number; offset: number; hasMore: boolean } } {
+  return {
+    data: items.slice(offset, offset + limit),
+    pagination: { total: items.length, limit, offset, hasMore: offset + limit < items.length },
+  };
+}
+
+// Drops records that fail the shared domain validators. Rejects are logged and returned alongside
+// the data (capped) so clients can see what was left out; `invalid` is omitted when there are none.
+function checkOutput<T>(route: string, items: unknown, validate: Validator<T>): { data: T[]; invalid?: InvalidRecord[] } {
+  const { valid, invalid } = validateRecords(items, validate);
+  if (invalid.length === 0) return { data: valid };
+  reportInvalidRecords(route, invalid);
+  return { data: valid, invalid: invalid.slice(0, 20) };
 }
 
 function getDeforestationSeverity(alertCount: number): 'low' | 'medium' | 'high' | 'critical' {
@@ -379,14 +1405,6 @@ function getDeforestationSeverity(alertCount: number): 'low' | 'medium' | 'high'
   return 'low';
 }
 
-function getLocationName(lat: number, lng: number): string {
-  if (lat < -3 && lat > -5 && lng < -60 && lng > -65) return 'Amazon Basin, Brazil';
-  if (lat < 2 && lat > -2 && lng > 14 && lng < 17) return 'Congo Basin, DRC';
-  if (lat > 60 && lng < -150) return 'Boreal Forest, Canada';
-  if (lat > 0 && lat < 5 && lng > 100 && lng < 110) return 'Southeast Asian Rainforest';
-  return `Forest Region (${lat.toFixed(2)}, ${lng.toFixed(2)})`;
-}
-
 // Mock generators
 function generateMockFireAlerts(): any[] {
   return [
@@ -416,19 +1434,45 @@ function generateEnhancedForestRegions(): any[] {
   ];
 }
 
+function mockForecast(lat: number, lng: number, hours: number) {
+  const start = Math.ceil(Date.now() / (3 * 60 * 60 * 1000)) * 3 * 60 * 60 * 1000;
+  const steps = [];
+  for (let h = 0; h < hours; h += 3) {
+    const time = start + h * 60 * 60 * 1000;
+    const diurnal = Math.sin(((new Date(time).getUTCHours() + lng / 15 - 9) / 24) * 2 * Math.PI);
+    const temperature = 30 - Math.abs(lat) * 0.6 + diurnal * 5 + (Math.random() - 0.5) * 2;
+    const humidity = Math.min(100, Math.max(15, 65 - diurnal * 20 + (Math.random() - 0.5) * 10));
+    const precipitation = Math.random() < 0.15 ? Math.random() * 4 : 0;
+    steps.push({
+      time: new Date(time).toISOString(),
+      temperature,
+      humidity,
+      precipitation,
+      windSpeed: 2 + Math.random() * 8,
+      cloudCover: Math.random() * 100,
+      description: precipitation > 0 ? 'light rain' : 'clear sky',
+    });
+  }
+  const timezoneOffset = Math.round(lng / 15) * 3600;
+  return { location: getLocationName(lat, lng), country: 'Unknown', timezoneOffset, ...applyFireWeatherIndex(steps, timezoneOffset, lat, FWI_STARTUP_STATE) };
+}
+
 function mockWeather(lat: number, lng: number) {
   const temp = 30 - Math.abs(lat) * 0.6 + (Math.random() - 0.5) * 10;
   const humidity = 60 + Math.random() * 30;
   const precipitation = Math.max(0, 20 - Math.abs(lat) * 0.2) + Math.random() * 5;
+  const windSpeed = 5 + Math.random() * 15;
+  const fwi = calculateFwiDay(FWI_STARTUP_STATE, { temperature: temp, humidity, windSpeed: windSpeed * 3.6, precipitation, month: new Date().getUTCMonth() + 1, latitude: lat });
   return {
     temperature: temp,
     humidity,
     precipitation,
-    windSpeed: 5 + Math.random() * 15,
+    windSpeed,
     pressure: 1013 + (Math.random() - 0.5) * 20,
     cloudCover: Math.random() * 100,
     uvIndex: Math.max(0, 11 - Math.abs(lat) / 10),
-    fireWeatherIndex: calculateFireWeatherIndex(temp, humidity, precipitation),
+    fireWeatherIndex: fwi.fwi,
+    fwi,
     location: getLocationName(lat, lng),
     country: 'Unknown',
     description: 'Clear sky',
@@ -0,0 +1,173 @@
+// Service worker - offline shell, per-route API caching and saved map tiles
+// Registered by src/services/serviceWorker.ts with the worker API base as `?api=`. Plain script:
+// it is served from public/ as-is, so it cannot import the app's modules.
+
+const SHELL_CACHE = 'forest-shell-v1';
+const API_CACHE = 'forest-api-v1';
+// Same names and hosts as src/services/tileCache.ts; keep them in sync
+const TILE_CACHE = 'forest-tiles-v1';
+const TILE_HOSTS = /^https:\/\/([abc]\.)?tile\.openstreetmap\.org\/|^https:\/\/server\.arcgisonline\.com\//;
+
+const SCOPE = self.registration.scope;
+const API_BASE = new URL(new URL(location.href).searchParams.get('api') || '/api', SCOPE).href.replace(/\/$/, '');
+const SHELL_FILES = ['manifest.webmanifest', 'icons/icon-192.png', 'icons/icon-512.png'];
+
+// How each worker route is cached. Routes not listed (profile, sync, key vault, webhooks, admin)
+// always go to the network. Requests carrying a bearer token are never cached.
+const API_ROUTES = [
+  // Reference data changes slowly: answer from the cache and refresh it in the background
+  { path: '/forest-regions', strategy: 'stale-while-revalidate' },
+  { path: '/biodiversity', strategy: 'stale-while-revalidate' },
+  { path: '/openapi.json', strategy: 'stale-while-revalidate' },
+  // Alerts and weather: always ask the network, fall back to the last response when offline
+  { path: '/fire-alerts', strategy: 'network-first' },
+  { path: '/deforestation-alerts', strategy: 'network-first' },
+  { path: '/alerts/history', strategy: 'network-first' },
+  { path: '/weather', strategy: 'network-first' },
+  { path: '/weather/forecast', strategy: 'network-first' },
+  { path: '/satellite-data', strategy: 'network-first' },
+  { path: '/health', strategy: 'network-first' },
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, API_CACHE, TILE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(names.filter((name) => name.startsWith('forest-') && !current.includes(name)).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstShell(event, request));
+  } else if (TILE_HOSTS.test(request.url)) {
+    event.respondWith(savedTile(request));
+  } else if (request.url.startsWith(`${API_BASE}/`)) {
+    const route = API_ROUTES.find(({ path }) => url.pathname.slice(new URL(API_BASE).pathname.length) === path);
+    if (!route || request.headers.has('Authorization')) return;
+    event.respondWith(route.strategy === 'network-first' ? networkFirst(request) : staleWhileRevalidate(event, request));
+  } else if (url.origin === location.origin) {
+    event.respondWith(cacheFirstAsset(request));
+  }
+});
+
+async function precacheShell() {
+  const response = await fetch(new URL('index.html', SCOPE).href, { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`index.html: HTTP ${response.status}`);
+  await updateShell(response);
+}
+
+// The built index.html names the entry script and stylesheet; lazily loaded chunks are cached on
+// first use by cacheFirstAsset. This script stays the same across deploys, so it is not reinstalled:
+// the shell follows the index.html of each navigation instead. When that names a new build, the
+// hashed assets of earlier builds are dropped, and the new build's lazy chunks are cached as used.
+async function updateShell(response) {
+  const cache = await caches.open(SHELL_CACHE);
+  const index = new URL('index.html', SCOPE).href;
+  const html = await response.clone().text();
+  const previous = await cache.match(index);
+  if (previous && (await previous.text()) === html) return;
+
+  const assets = [...html.matchAll(/(?:src|href)="([^"]+)"/g)]
+    .map((match) => new URL(match[1], index))
+    .filter((asset) => asset.origin === location.origin && asset.pathname.includes('/assets/'))
+    .map((asset) => asset.href);
+  const files = SHELL_FILES.map((file) => new URL(file, SCOPE).href);
+  // The assets go in first, so the cached index never names files the cache does not have
+  await cache.addAll([...new Set([...assets, ...files])]);
+  await cache.put(index, response);
+  if (!previous) return;
+  const current = new Set(assets);
+  const stale = (await cache.keys()).filter((entry) => new URL(entry.url).pathname.includes('/assets/') && !current.has(entry.url));
+  await Promise.all(stale.map((entry) => cache.delete(entry)));
+}
+
+async function networkFirstShell(event, request) {
+  try {
+    const response = await fetch(request);
+    const html = (response.headers.get('Content-Type') || '').includes('text/html');
+    if (response.ok && html && !response.redirected) {
+      event.waitUntil(updateShell(response.clone()).catch((error) => console.warn('Could not update the offline shell:', error)));
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(new URL('index.html', SCOPE).href, { cacheName: SHELL_CACHE });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Hashed build assets never change under the same name
+async function cacheFirstAsset(request) {
+  const cached = await caches.match(request, { cacheName: SHELL_CACHE });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok && new URL(request.url).pathname.includes('/assets/')) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Only pre-downloaded tiles are kept; OSM tiles are saved under the host without a subdomain
+async function savedTile(request) {
+  const key = request.url.replace(/^https:\/\/[abc]\.tile\.openstreetmap\.org\//, 'https://tile.openstreetmap.org/');
+  const cached = await caches.match(key, { cacheName: TILE_CACHE });
+  return cached || fetch(request);
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    await storeApiResponse(request, response);
+    return response;
+  } catch (error) {
+    const cached = await cachedApiResponse(request, 'OFFLINE');
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function staleWhileRevalidate(event, request) {
+  const refresh = fetch(request).then(async (response) => {
+    await storeApiResponse(request, response);
+    return response;
+  });
+  const cached = await cachedApiResponse(request, 'STALE');
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+}
+
+async function storeApiResponse(request, response) {
+  if (!response.ok) return;
+  const headers = new Headers(response.headers);
+  headers.set('X-SW-Stored-At', String(Date.now()));
+  const body = await response.clone().blob();
+  const cache = await caches.open(API_CACHE);
+  await cache.put(request, new Response(body, { status: response.status, statusText: response.statusText, headers }));
+}
+
+// X-Cache and Age tell the client how old the copy is; workerClient turns them into provenance
+async function cachedApiResponse(request, status) {
+  const cached = await caches.match(request, { cacheName: API_CACHE });
+  if (!cached) return null;
+  const headers = new Headers(cached.headers);
+  const storedAt = Number(headers.get('X-SW-Stored-At')) || Date.now();
+  const age = (Number(headers.get('Age')) || 0) + Math.round((Date.now() - storedAt) / 1000);
+  headers.delete('X-SW-Stored-At');
+  headers.set('X-Cache', status);
+  headers.set('Age', String(age));
+  return new Response(cached.body, { status: cached.status, statusText: cached.statusText, headers });
+}
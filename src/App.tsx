@@ -13,6 +13,8 @@ import { ApiSetupGuide } from './components/ApiSetupGuide';
 import { NotificationsPanel } from './components/NotificationsPanel';
 import { SettingsPanel } from './components/SettingsPanel';
 import { BrowserLimitationsInfo } from './components/BrowserLimitationsInfo';
+import { ProfileDialog } from './components/ProfileDialog';
+import { OfflineNotice } from './components/OfflineNotice';
 import { 
   Satellite, 
   BarChart3, 
@@ -30,13 +32,28 @@ import {
 } from 'lucide-react';
 import { ImageWithFallback } from './components/figma/ImageWithFallback';
 import { getSupabase } from './utils/supabase/client';
-import { enhancedForestDataService } from './services/enhancedForestDataService';
+import { forestRepository } from './services/forestRepository';
+import { alertStream, AlertFeedStatus } from './services/alertStream';
 import { apiConfigManager } from './services/apiConfigManager';
+import { accessControl } from './services/accessControl';
+import { workerClient } from './services/workerClient';
+import type { ForestAlert, UserProfile } from './services/forestDomain';
+
+const toNotification = (alert: ForestAlert, read: boolean) => ({
+  id: alert.id,
+  title: alert.description,
+  description: `${alert.type.charAt(0).toUpperCase() + alert.type.slice(1)} alert in ${alert.location}`,
+  type: alert.type,
+  severity: alert.severity,
+  timestamp: alert.timestamp,
+  location: alert.location,
+  read
+});
 
 export default function App() {
   const [activeTab, setActiveTab] = useState('overview');
   const [user, setUser] = useState<any>(null);
-  const [userProfile, setUserProfile] = useState<any>(null);
+  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [showNotifications, setShowNotifications] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [notifications, setNotifications] = useState<any[]>([]);
@@ -47,6 +64,47 @@ export default function App() {
     details: {}
   });
   const [showBrowserInfo, setShowBrowserInfo] = useState(false);
+  const [canManageSources, setCanManageSources] = useState(() => accessControl.can('manage_regions'));
+  const [feedStatus, setFeedStatus] = useState<AlertFeedStatus>(alertStream.getStatus());
+
+  // API key management is an admin action; volunteers and signed-out visitors only read
+  useEffect(() => accessControl.subscribe(() => setCanManageSources(accessControl.can('manage_regions'))), []);
+
+  // Alerts double as notifications; the repository reloads them when keys or settings change
+  useEffect(() => forestRepository.subscribe(
+    (signal) => forestRepository.getForestAlerts({ signal }),
+    ({ data: alerts, error }) => {
+      if (error) {
+        console.log('Error loading notifications:', error);
+        return;
+      }
+      const notifications = alerts.map(alert => toNotification(alert, Math.random() > 0.7)); // Some notifications are read
+
+      setNotifications(notifications);
+      setUnreadCount(notifications.filter(n => !n.read).length);
+    },
+  ), []);
+
+  // Alerts pushed after the initial load arrive unread at the top
+  useEffect(() => alertStream.subscribe((alerts) => {
+    setNotifications((current: any[]) => [...alerts.map(alert => toNotification(alert, false)), ...current]);
+    setUnreadCount((count: number) => count + alerts.length);
+  }), []);
+
+  useEffect(() => alertStream.subscribeStatus(setFeedStatus), []);
+
+  useEffect(() => {
+    accessControl.setProfile(userProfile);
+    if (userProfile && accessControl.can('manage_regions')) {
+      apiConfigManager.loadStoredKeys().catch((error) => console.log('Error loading stored API keys:', error));
+    } else {
+      apiConfigManager.clearStoredKeys();
+    }
+  }, [userProfile]);
+
+  useEffect(() => {
+    if (!canManageSources && activeTab === 'api-setup') setActiveTab('overview');
+  }, [canManageSources, activeTab]);
 
   useEffect(() => {
     // Check for existing session
@@ -69,7 +127,6 @@ export default function App() {
     };
     
     checkSession();
-    loadNotifications();
     checkApiStatus();
 
     // Listen for auth state changes
@@ -90,27 +147,16 @@ export default function App() {
       authSubscription = subscription;
     })();
 
-    // Listen for storage changes (API keys)
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'forest-explorer-api-keys') {
-        apiConfigManager.refreshApiKeys();
-        checkApiStatus();
-        loadNotifications(); // Refresh notifications to get live data
-      }
-    };
-
     // Listen for custom events
     const handleApiKeysRefreshed = () => {
       apiConfigManager.refreshApiKeys();
       checkApiStatus();
-      loadNotifications();
     };
 
     const handleSwitchToTab = (e: CustomEvent) => {
       setActiveTab(e.detail);
     };
 
-    window.addEventListener('storage', handleStorageChange);
     window.addEventListener('apiKeysRefreshed', handleApiKeysRefreshed as EventListener);
     window.addEventListener('switchToTab', handleSwitchToTab as EventListener);
 
@@ -118,7 +164,6 @@ export default function App() {
       if (authSubscription && authSubscription.unsubscribe) {
         authSubscription.unsubscribe();
       }
-      window.removeEventListener('storage', handleStorageChange);
       window.removeEventListener('apiKeysRefreshed', handleApiKeysRefreshed as EventListener);
       window.removeEventListener('switchToTab', handleSwitchToTab as EventListener);
     };
@@ -131,50 +176,20 @@ export default function App() {
         setTimeout(() => reject(new Error('Profile fetch timeout')), 3000);
       });
 
-      const baseUrl = (typeof window !== 'undefined' && (window as any).__FOREST_WORKER_BASE__) || (import.meta as any).env?.VITE_FOREST_WORKER_BASE || 'https://forest.nicx.me/api';
-      const profilePromise = fetch(`${baseUrl}/user-profile`, {
-        method: 'GET',
+      const profilePromise = workerClient.request('/user-profile', {
         headers: { 'Authorization': `Bearer ${accessToken}` }
-      }).then(r => r.json());
+      });
       
-      const { data, error } = await Promise.race([profilePromise, timeoutPromise]) as any;
+      const response = await Promise.race([profilePromise, timeoutPromise]) as Awaited<typeof profilePromise>;
       
-      if (!error && data && data.success) {
-        setUserProfile(data.data);
+      if (response.success && response.data) {
+        setUserProfile(response.data);
       } else {
-        throw new Error(error?.message || 'Failed to fetch profile');
+        throw new Error(response.error || 'Failed to fetch profile');
       }
     } catch (error) {
-      console.log('ℹ️ Server-side user profile not available, using mock profile');
-      // Use mock profile for demo
-      setUserProfile({
-        name: user?.email?.split('@')[0] || 'Forest Researcher',
-        organization: 'Conservation Institute',
-        role: 'Senior Researcher',
-        source: 'mock'
-      });
-    }
-  };
-
-  const loadNotifications = async () => {
-    try {
-      // Use enhanced forest data service which switches between mock and live data
-      const alerts = await enhancedForestDataService.getForestAlerts();
-      const notifications = alerts.map(alert => ({
-        id: alert.id,
-        title: alert.description,
-        description: `${alert.type.charAt(0).toUpperCase() + alert.type.slice(1)} alert in ${alert.location}`,
-        type: alert.type,
-        severity: alert.severity,
-        timestamp: alert.timestamp,
-        location: alert.location,
-        read: Math.random() > 0.7 // Some notifications are read
-      }));
-      
-      setNotifications(notifications);
-      setUnreadCount(notifications.filter(n => !n.read).length);
-    } catch (error) {
-      console.log('Error loading notifications:', error);
+      console.log('ℹ️ User profile not available:', error instanceof Error ? error.message : error);
+      setUserProfile(null);
     }
   };
 
@@ -304,10 +319,14 @@ export default function App() {
               </Button>
               {user ? (
                 <div className="flex items-center gap-2">
-                  <div className="flex items-center gap-2 px-3 py-1 bg-muted rounded-lg">
-                    <User className="w-4 h-4" />
-                    <span className="text-sm">{userProfile?.name || user.email}</span>
-                  </div>
+                  {userProfile ? (
+                    <ProfileDialog profile={userProfile} onSaved={setUserProfile} />
+                  ) : (
+                    <div className="flex items-center gap-2 px-3 py-1 bg-muted rounded-lg">
+                      <User className="w-4 h-4" />
+                      <span className="text-sm">{user.email}</span>
+                    </div>
+                  )}
                   <Button variant="outline" size="sm" onClick={handleSignOut}>
                     <LogOut className="w-4 h-4" />
                   </Button>
@@ -327,15 +346,21 @@ export default function App() {
         </div>
       </header>
 
+      <OfflineNotice />
+
       {/* Hero Section */}
       <section className="bg-gradient-to-br from-green-50 to-blue-50 dark:from-green-950/20 dark:to-blue-950/20 border-b">
         <div className="container mx-auto px-6 py-8">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-center">
             <div>
               <div className="flex items-center gap-2 mb-4">
-                <Badge variant="secondary" className="gap-1">
-                  <Radio className="w-3 h-3" />
-                  Real-time Monitoring
+                <Badge
+                  variant="secondary"
+                  className="gap-1"
+                  title={feedStatus === 'live' ? 'New alerts are pushed as they are recorded' : 'Sign in with alert access for pushed alerts; alerts are refreshed every minute'}
+                >
+                  <Radio className={`w-3 h-3 ${feedStatus === 'live' ? 'text-green-600' : ''}`} />
+                  {feedStatus === 'live' ? 'Real-time Monitoring' : 'Periodic Updates'}
                 </Badge>
                 <Badge variant="secondary" className="gap-1">
                   <TreePine className="w-3 h-3" />
@@ -453,7 +478,7 @@ export default function App() {
       {/* Main Content */}
       <main className="container mx-auto px-6 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className={`grid w-full ${canManageSources ? 'grid-cols-6' : 'grid-cols-5'}`}>
             <TabsTrigger value="overview" className="gap-2">
               <BarChart3 className="w-4 h-4" />
               Overview
@@ -474,10 +499,12 @@ export default function App() {
               <Clock className="w-4 h-4" />
               Historical
             </TabsTrigger>
-            <TabsTrigger value="api-setup" className="gap-2">
-              <Settings className="w-4 h-4" />
-              API Setup
-            </TabsTrigger>
+            {canManageSources && (
+              <TabsTrigger value="api-setup" className="gap-2">
+                <Settings className="w-4 h-4" />
+                API Setup
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
@@ -500,9 +527,11 @@ export default function App() {
             <HistoricalAnalysis />
           </TabsContent>
 
-          <TabsContent value="api-setup" className="space-y-6">
-            <ApiSetupGuide />
-          </TabsContent>
+          {canManageSources && (
+            <TabsContent value="api-setup" className="space-y-6">
+              <ApiSetupGuide />
+            </TabsContent>
+          )}
         </Tabs>
       </main>
 
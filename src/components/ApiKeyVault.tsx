@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Lock, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { apiConfigManager } from '../services/apiConfigManager';
+import { API_KEY_SERVICES, ApiKeyService, ApiKeySummary, validateApiKeySubmission } from '../services/forestDomain';
+
+export const API_KEY_SERVICE_NAMES: Record<ApiKeyService, string> = {
+  nasa_firms: 'NASA FIRMS',
+  openweather: 'OpenWeather',
+  global_forest_watch: 'Global Forest Watch',
+};
+
+interface ApiKeyVaultProps {
+  // Service preselected in the add form
+  defaultService?: ApiKeyService;
+}
+
+// Keys stored in the worker's key vault. The browser submits a key once and afterwards only sees
+// its id, label and last four characters; requests reference it with key_id.
+export function ApiKeyVault({ defaultService = 'nasa_firms' }: ApiKeyVaultProps) {
+  const [keys, setKeys] = useState<ApiKeySummary[]>(() => apiConfigManager.getStoredKeys());
+  const [service, setService] = useState<ApiKeyService>(defaultService);
+  const [keyValue, setKeyValue] = useState('');
+  const [label, setLabel] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleApiKeysRefreshed = () => setKeys(apiConfigManager.getStoredKeys());
+    window.addEventListener('apiKeysRefreshed', handleApiKeysRefreshed);
+    loadKeys();
+    return () => window.removeEventListener('apiKeysRefreshed', handleApiKeysRefreshed);
+  }, []);
+
+  const loadKeys = async () => {
+    setLoading(true);
+    try {
+      setKeys(await apiConfigManager.loadStoredKeys());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Key vault unavailable');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStore = async () => {
+    const submission = validateApiKeySubmission({ service, key: keyValue.trim(), label: label.trim() || undefined });
+    if (!submission.ok) {
+      toast.error(`Invalid key: ${submission.errors.join('; ')}`);
+      return;
+    }
+    setSaving(true);
+    try {
+      const stored = await apiConfigManager.storeApiKey(submission.value);
+      setKeyValue('');
+      setLabel('');
+      toast.success(`${API_KEY_SERVICE_NAMES[stored.service]} key stored (····${stored.hint})`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to store key');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (key: ApiKeySummary) => {
+    setDeleting(key.id);
+    try {
+      await apiConfigManager.deleteStoredKey(key.id);
+      toast.success(`${API_KEY_SERVICE_NAMES[key.service]} key removed`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete key');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h5 className="flex items-center gap-2">
+          <Lock className="w-4 h-4" />
+          Stored Keys
+        </h5>
+        <Button variant="ghost" size="sm" onClick={loadKeys} disabled={loading}>
+          <RefreshCw className={`w-3 h-3 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-red-500">{error}</p>
+      ) : keys.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No keys stored yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {keys.map((key: ApiKeySummary) => (
+            <div key={key.id} className="flex items-center justify-between p-2 bg-background/50 rounded">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{API_KEY_SERVICE_NAMES[key.service]}</span>
+                  <Badge variant="outline" className="text-xs font-mono">····{key.hint}</Badge>
+                  {key.label && <span className="text-xs text-muted-foreground">{key.label}</span>}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Added {new Date(key.createdAt).toLocaleDateString()}
+                  {key.lastUsedAt ? ` • Last used ${new Date(key.lastUsedAt).toLocaleString()}` : ' • Not used yet'}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleDelete(key)} disabled={deleting === key.id}>
+                <Trash2 className="w-4 h-4 text-red-500" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-[10rem_1fr_10rem_auto] gap-2 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="vault-service">Service</Label>
+          <Select value={service} onValueChange={(value) => setService(value as ApiKeyService)}>
+            <SelectTrigger id="vault-service">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {API_KEY_SERVICES.map((option: ApiKeyService) => (
+                <SelectItem key={option} value={option}>{API_KEY_SERVICE_NAMES[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="vault-key">API Key</Label>
+          <Input
+            id="vault-key"
+            type="password"
+            autoComplete="off"
+            placeholder="Paste the key; it is not shown again"
+            value={keyValue}
+            onChange={(e) => setKeyValue(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="vault-label">Label</Label>
+          <Input id="vault-label" placeholder="Optional" value={label} onChange={(e) => setLabel(e.target.value)} />
+        </div>
+        <Button size="sm" onClick={handleStore} disabled={saving || keyValue.trim().length === 0}>
+          <Plus className="w-4 h-4 mr-1" />
+          Store
+        </Button>
+      </div>
+    </div>
+  );
+}
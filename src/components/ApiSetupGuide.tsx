@@ -2,8 +2,6 @@ import React, { useState, useEffect } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Input } from './ui/input';
-import { Label } from './ui/label';
 import { Alert, AlertDescription } from './ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { 
@@ -12,17 +10,15 @@ import {
   Info, 
   CheckCircle2, 
   AlertCircle,
-  Copy,
-  Eye,
-  EyeOff,
-  Save,
   TestTube,
-  Trash2,
   RefreshCw,
   Wifi,
   WifiOff
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { apiConfigManager } from '../services/apiConfigManager';
+import { ApiKeyVault } from './ApiKeyVault';
+import { API_KEY_SERVICES, ApiKeyService, ApiKeySummary } from '../services/forestDomain';
 
 interface ApiEndpoint {
   id: string;
@@ -32,17 +28,9 @@ interface ApiEndpoint {
   requiresKey: boolean;
   documentation: string;
   keySteps: string[];
-  keyPlaceholder?: string;
   testEndpoint?: string;
 }
 
-interface ApiKey {
-  id: string;
-  value: string;
-  isValid?: boolean;
-  lastTested?: string;
-}
-
 interface ApiStatus {
   connected: boolean;
   testing: boolean;
@@ -51,16 +39,13 @@ interface ApiStatus {
 }
 
 export function ApiSetupGuide() {
-  const [showApiKeys, setShowApiKeys] = useState(false);
-  const [copiedKey, setCopiedKey] = useState<string | null>(null);
-  const [apiKeys, setApiKeys] = useState<Record<string, ApiKey>>({});
+  const [storedKeys, setStoredKeys] = useState<ApiKeySummary[]>(() => apiConfigManager.getStoredKeys());
   const envHints = {
     nasa_firms: (import.meta as any).env?.VITE_NASA_FIRMS_API_KEY ? 'provided by env' : undefined,
     openweather: (import.meta as any).env?.VITE_OPENWEATHER_API_KEY ? 'provided by env' : undefined,
     sentinel_hub: (import.meta as any).env?.VITE_SENTINEL_HUB_CLIENT_ID ? 'provided by env' : undefined,
   } as const;
   const [apiStatuses, setApiStatuses] = useState<Record<string, ApiStatus>>({});
-  const [unsavedChanges, setUnsavedChanges] = useState<Set<string>>(new Set());
 
   const apiEndpoints: ApiEndpoint[] = [
     {
@@ -75,7 +60,6 @@ export function ApiSetupGuide() {
         'Request FIRMS API key',
         'Use key for fire detection data'
       ],
-      keyPlaceholder: 'Enter your NASA FIRMS API key...',
       testEndpoint: 'https://firms.modaps.eosdis.nasa.gov/api/area/csv'
     },
     {
@@ -90,7 +74,6 @@ export function ApiSetupGuide() {
         'Generate API key in dashboard',
         '1,000 calls/day free tier'
       ],
-      keyPlaceholder: 'Enter your OpenWeather API key...',
       testEndpoint: 'https://api.openweathermap.org/data/2.5/weather'
     },
     {
@@ -104,8 +87,7 @@ export function ApiSetupGuide() {
         'Register for free account',
         'Create OAuth2 credentials',
         '3,000 processing units/month free'
-      ],
-      keyPlaceholder: 'Enter your Sentinel Hub Client ID...'
+      ]
     },
     {
       id: 'nasa_gibs',
@@ -148,67 +130,23 @@ export function ApiSetupGuide() {
     }
   ];
 
-  // Load saved API keys on component mount
   useEffect(() => {
-    loadApiKeys();
+    const handleApiKeysRefreshed = () => setStoredKeys(apiConfigManager.getStoredKeys());
+    window.addEventListener('apiKeysRefreshed', handleApiKeysRefreshed);
     testAllConnections();
+    return () => window.removeEventListener('apiKeysRefreshed', handleApiKeysRefreshed);
   }, []);
 
-  const loadApiKeys = () => {
-    try {
-      const savedKeys = localStorage.getItem('forest-explorer-api-keys');
-      if (savedKeys) {
-        setApiKeys(JSON.parse(savedKeys));
-      }
-    } catch (error) {
-      console.error('Error loading API keys:', error);
-    }
-  };
-
-  const saveApiKeys = () => {
-    try {
-      localStorage.setItem('forest-explorer-api-keys', JSON.stringify(apiKeys));
-      setUnsavedChanges(new Set());
-      toast.success('API keys saved successfully');
-    } catch (error) {
-      console.error('Error saving API keys:', error);
-      toast.error('Failed to save API keys');
-    }
-  };
-
-  const updateApiKey = (apiId: string, value: string) => {
-    setApiKeys(prev => ({
-      ...prev,
-      [apiId]: {
-        id: apiId,
-        value: value,
-        isValid: undefined,
-        lastTested: undefined
-      }
-    }));
-    setUnsavedChanges(prev => new Set([...prev, apiId]));
-  };
+  // Newest vault key for the API, if the user stored one
+  const storedKeyFor = (apiId: string) => storedKeys.find((key) => key.service === apiId);
 
-  const deleteApiKey = (apiId: string) => {
-    setApiKeys(prev => {
-      const updated = { ...prev };
-      delete updated[apiId];
-      return updated;
-    });
-    setApiStatuses(prev => {
-      const updated = { ...prev };
-      delete updated[apiId];
-      return updated;
-    });
-    setUnsavedChanges(prev => new Set([...prev, apiId]));
-    toast.success('API key removed');
-  };
+  const hasKey = (apiId: string) =>
+    Boolean(storedKeyFor(apiId) || envHints[apiId as keyof typeof envHints]);
 
   const testApiConnection = async (apiId: string) => {
     const endpoint = apiEndpoints.find(e => e.id === apiId);
-    const apiKey = apiKeys[apiId];
-    
-    if (!endpoint || (!apiKey && endpoint.requiresKey)) {
+
+    if (!endpoint || (endpoint.requiresKey && !hasKey(apiId))) {
       return;
     }
 
@@ -218,30 +156,13 @@ export function ApiSetupGuide() {
     }));
 
     try {
-      const baseUrl = (typeof window !== 'undefined' && (window as any).__FOREST_WORKER_BASE__) || (import.meta as any).env?.VITE_FOREST_WORKER_BASE || 'https://forest.nicx.me/api';
-      let testUrl = '';
-
-      switch (apiId) {
-        case 'openweather':
-          testUrl = `${baseUrl}/weather?lat=51.5074&lng=-0.1278`; // London
-          break;
-        case 'nasa_firms':
-          testUrl = `${baseUrl}/fire-alerts?region=world&days=1`;
-          break;
-        case 'nasa_gibs':
-          testUrl = `${baseUrl}/satellite-data?lat=0&lng=0`;
-          break;
-        case 'global_forest_watch':
-          testUrl = `${baseUrl}/deforestation-alerts?region=BRA`;
-          break;
-        case 'gbif':
-          testUrl = `${baseUrl}/biodiversity?region=global&limit=1`;
-          break;
-        default:
-          throw new Error('Test not implemented for this API');
+      const { keyId, headers } = await apiConfigManager.storedKeyAuth(apiId);
+      const testUrl = apiConfigManager.getConnectionTestUrl(apiId, keyId);
+      if (!testUrl) {
+        throw new Error('Test not implemented for this API');
       }
 
-      const response = await fetch(testUrl, { method: 'GET' });
+      const response = await fetch(testUrl, { method: 'GET', headers });
       const body = await response.json().catch(() => ({}));
       const isConnected = response.ok && body?.success;
       const detail = body?.source ? `Source: ${body.source}` : (body?.error || (response.ok ? 'Unknown' : `HTTP ${response.status}`));
@@ -256,17 +177,6 @@ export function ApiSetupGuide() {
         }
       }));
 
-      if (apiKey) {
-        setApiKeys(prev => ({
-          ...prev,
-          [apiId]: {
-            ...prev[apiId],
-            isValid: isConnected,
-            lastTested: new Date().toISOString()
-          }
-        }));
-      }
-
       toast.success(isConnected ? `${endpoint.name} reachable (${detail})` : `${endpoint.name} failed (${detail})`);
     } catch (error) {
       setApiStatuses(prev => ({
@@ -284,26 +194,19 @@ export function ApiSetupGuide() {
 
   const testAllConnections = async () => {
     for (const endpoint of apiEndpoints) {
-      if (!endpoint.requiresKey || apiKeys[endpoint.id]) {
+      if (!endpoint.requiresKey || hasKey(endpoint.id)) {
         await testApiConnection(endpoint.id);
       }
     }
   };
 
-  const handleCopyKey = (keyName: string, keyValue: string) => {
-    navigator.clipboard.writeText(keyValue);
-    setCopiedKey(keyName);
-    setTimeout(() => setCopiedKey(null), 2000);
-    toast.success('API key copied to clipboard');
-  };
-
   const getConnectionStatus = (apiId: string) => {
     const status = apiStatuses[apiId];
     const endpoint = apiEndpoints.find(e => e.id === apiId);
     
     if (!endpoint) return null;
     
-    if (endpoint.requiresKey && !apiKeys[apiId]) {
+    if (endpoint.requiresKey && !hasKey(apiId)) {
       return { icon: AlertCircle, color: 'text-yellow-500', text: 'API key required' };
     }
     
@@ -334,33 +237,13 @@ export function ApiSetupGuide() {
             Configure live data sources for comprehensive forest monitoring
           </p>
         </div>
-        <div className="flex items-center gap-2">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => setShowApiKeys(!showApiKeys)}
-          >
-            {showApiKeys ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-            {showApiKeys ? 'Hide' : 'Show'} Keys
-          </Button>
-          {unsavedChanges.size > 0 && (
-            <Button onClick={saveApiKeys} size="sm">
-              <Save className="w-4 h-4 mr-2" />
-              Save Changes
-            </Button>
-          )}
-        </div>
       </div>
 
       <Alert>
         <Info className="w-4 h-4" />
         <AlertDescription>
-          Add your API keys to switch from mock data to live data sources. All keys are stored locally in your browser.
-          {unsavedChanges.size > 0 && (
-            <span className="block mt-2 text-yellow-600">
-              You have unsaved changes. Click "Save Changes" to apply them.
-            </span>
-          )}
+          Add your API keys to switch from mock data to live data sources. Keys are encrypted in the worker key vault
+          and never sent back to the browser; only their last four characters are shown.
         </AlertDescription>
       </Alert>
 
@@ -380,11 +263,15 @@ export function ApiSetupGuide() {
             </Button>
           </div>
           
+          <Card className="p-4">
+            <ApiKeyVault />
+          </Card>
+
           <div className="grid grid-cols-1 gap-4">
             {apiEndpoints.map((api) => {
               const status = getConnectionStatus(api.id);
-              const hasKey = apiKeys[api.id]?.value;
-              const hasUnsavedChanges = unsavedChanges.has(api.id);
+              const storedKey = storedKeyFor(api.id);
+              const envHint = envHints[api.id as keyof typeof envHints];
               
               return (
                 <Card key={api.id} className="p-4">
@@ -399,8 +286,8 @@ export function ApiSetupGuide() {
                             ) : (
                               <Badge variant="outline">Public API</Badge>
                             )}
-                            {hasUnsavedChanges && (
-                              <Badge variant="destructive" className="text-xs">Unsaved</Badge>
+                            {storedKey && (
+                              <Badge variant="outline" className="text-xs font-mono">stored ····{storedKey.hint}</Badge>
                             )}
                           </h4>
                           <p className="text-sm text-muted-foreground">
@@ -420,7 +307,7 @@ export function ApiSetupGuide() {
                           variant="outline"
                           size="sm"
                           onClick={() => testApiConnection(api.id)}
-                          disabled={api.requiresKey && !hasKey}
+                          disabled={api.requiresKey && !hasKey(api.id)}
                         >
                           <TestTube className="w-3 h-3 mr-1" />
                           Test
@@ -429,54 +316,15 @@ export function ApiSetupGuide() {
                     </div>
                     
                     {api.requiresKey && (
-                      <div className="space-y-2">
-                        <Label htmlFor={`api-${api.id}`}>API Key</Label>
-                        <div className="flex items-center gap-2">
-                          <Input
-                            id={`api-${api.id}`}
-                            type={showApiKeys ? "text" : "password"}
-                            placeholder={api.keyPlaceholder}
-                            value={apiKeys[api.id]?.value || ''}
-                            onChange={(e) => updateApiKey(api.id, e.target.value)}
-                            className="flex-1"
-                          />
-                          {(hasKey || envHints[api.id as keyof typeof envHints]) && (
-                            <>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => handleCopyKey(api.id, apiKeys[api.id].value)}
-                              >
-                                {copiedKey === api.id ? (
-                                  <CheckCircle2 className="w-4 h-4 text-green-500" />
-                                ) : (
-                                  <Copy className="w-4 h-4" />
-                                )}
-                              </Button>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => deleteApiKey(api.id)}
-                              >
-                                <Trash2 className="w-4 h-4 text-red-500" />
-                              </Button>
-                            </>
-                          )}
-                          {!hasKey && envHints[api.id as keyof typeof envHints] && (
-                            <span className="text-xs text-muted-foreground ml-2">{envHints[api.id as keyof typeof envHints]}</span>
-                          )}
-                        </div>
-                        {apiKeys[api.id]?.lastTested && (
-                          <p className="text-xs text-muted-foreground">
-                            Last tested: {new Date(apiKeys[api.id].lastTested!).toLocaleString()}
-                            {apiKeys[api.id]?.isValid !== undefined && (
-                              <span className={apiKeys[api.id]?.isValid ? 'text-green-600' : 'text-red-600'}>
-                                {' '}• {apiKeys[api.id]?.isValid ? 'Valid' : 'Invalid'}
-                              </span>
-                            )}
-                          </p>
-                        )}
-                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {storedKey
+                          ? `Using your stored key${storedKey.label ? ` "${storedKey.label}"` : ''}, added ${new Date(storedKey.createdAt).toLocaleDateString()}`
+                          : envHint
+                            ? `Key ${envHint}`
+                            : API_KEY_SERVICES.includes(api.id as ApiKeyService)
+                              ? 'Store a key above to use live data'
+                              : 'Configured at build time (VITE_ environment variables)'}
+                      </p>
                     )}
                   </div>
                 </Card>
@@ -560,7 +408,7 @@ export function ApiSetupGuide() {
                   Add API Keys
                 </h4>
                 <p className="text-sm text-muted-foreground ml-8">
-                  Use the "Manage APIs" tab to add your API keys. Keys are stored securely in your browser.
+                  Use the "Manage APIs" tab to add your API keys. Keys are encrypted on the worker and only referenced by id from your browser.
                 </p>
               </div>
 
@@ -7,24 +7,28 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
 import { Search, Camera, MapPin, TrendingUp, TrendingDown, AlertTriangle } from 'lucide-react';
 import { ImageWithFallback } from './figma/ImageWithFallback';
-import { mockDataService } from '../services/mockDataService';
-import { enhancedForestDataService } from '../services/enhancedForestDataService';
+import { ProvenanceBadge } from './ProvenanceBadge';
+import { forestRepository } from '../services/forestRepository';
 import { apiConfigManager } from '../services/apiConfigManager';
+import { createProvenance, withProvenance } from '../services/forestDomain';
+import type { BiodiversityData, Provenance, SpeciesStatus } from '../services/forestDomain';
 
 interface Species {
   id: string;
   name: string;
   scientificName: string;
-  status: 'stable' | 'declining' | 'critically_endangered' | 'recovering';
-  population: number;
-  trend: number;
+  status: SpeciesStatus;
+  // Missing for GBIF records, which carry no survey figures
+  population?: number;
+  trend?: number;
   habitat: string;
-  lastSeen: string;
-  confidence: number;
+  lastSeen?: string;
+  confidence?: number;
   imageUrl: string;
+  provenance?: Provenance;
 }
 
-const mockSpecies: Species[] = [
+const mockSpecies: Species[] = withProvenance([
   {
     id: '1',
     name: 'Sumatran Orangutan',
@@ -73,7 +77,7 @@ const mockSpecies: Species[] = [
     confidence: 91,
     imageUrl: 'https://images.unsplash.com/photo-1729534988762-a6f62ef9ed8b?crop=entropy&cs=tinysrgb&fit=max&fm=jpg&ixid=M3w3Nzg4Nzd8MHwxfHNlYXJjaHwxfHxmb3Jlc3QlMjBjYW5vcHklMjBhZXJpYWwlMjB2aWV3fGVufDF8fHx8MTc1NzIwMjYyNnww&ixlib=rb-4.1.0&q=80&w=1080&utm_source=figma&utm_medium=referral'
   }
-];
+], createProvenance('client-mock'));
 
 const biodiversityTrends = [
   { month: 'Jan', species: 2340, endangered: 234, stable: 1856, recovering: 250 },
@@ -92,24 +96,20 @@ export function BiodiversityTracker() {
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
-    const fetchSpeciesData = async () => {
-      setLoading(true);
-      try {
-        const liveOnly = apiConfigManager.isNoMockEnabled();
-        let biodiversityData: any[] = [];
-        try {
-          biodiversityData = await enhancedForestDataService.getBiodiversityData();
-        } catch (e) {
-          if (liveOnly) throw e;
-          biodiversityData = mockDataService.getBiodiversityData();
-        }
-        // If live returned empty and no-mock is off, use mock to populate UI
-        if (!liveOnly && biodiversityData.length === 0) {
-          biodiversityData = mockDataService.getBiodiversityData();
+    setLoading(true);
+    return forestRepository.subscribe(
+      (signal) => forestRepository.getBiodiversityData({ signal }),
+      ({ data: biodiversityData, error }) => {
+        setLoading(false);
+        if (error) {
+          console.log('Error fetching species data:', error);
+          if (apiConfigManager.isNoMockEnabled()) setSpecies([]);
+          else setSpecies(mockSpecies);
+          return;
         }
-        
+
         // Convert to component interface with images
-        const convertedSpecies: Species[] = biodiversityData.map((speciesData, index) => ({
+        const convertedSpecies: Species[] = biodiversityData.map((speciesData: BiodiversityData, index: number) => ({
           id: speciesData.id,
           name: speciesData.name,
           scientificName: speciesData.scientificName,
@@ -117,22 +117,15 @@ export function BiodiversityTracker() {
           population: speciesData.population,
           trend: speciesData.trend,
           habitat: speciesData.habitat,
-          lastSeen: formatLastSeen(speciesData.lastSeen),
-          confidence: Math.round(speciesData.confidence),
-          imageUrl: mockSpecies[index % mockSpecies.length]?.imageUrl || mockSpecies[0].imageUrl
+          lastSeen: speciesData.lastSeen ? formatLastSeen(speciesData.lastSeen) : undefined,
+          confidence: speciesData.confidence != null ? Math.round(speciesData.confidence) : undefined,
+          imageUrl: mockSpecies[index % mockSpecies.length]?.imageUrl || mockSpecies[0].imageUrl,
+          provenance: speciesData.provenance
         }));
-        
-        setSpecies(convertedSpecies);
-      } catch (error) {
-        console.log('Error fetching species data:', error);
-        if (apiConfigManager.isNoMockEnabled()) setSpecies([]);
-        else setSpecies(mockSpecies);
-      } finally {
-        setLoading(false);
-      }
-    };
 
-    fetchSpeciesData();
+        setSpecies(convertedSpecies);
+      },
+    );
   }, []);
 
   const formatLastSeen = (isoString: string): string => {
@@ -155,7 +148,8 @@ export function BiodiversityTracker() {
     }
   };
 
-  const getStatusIcon = (trend: number) => {
+  const getStatusIcon = (trend?: number) => {
+    if (trend == null) return null;
     if (trend > 0) return <TrendingUp className="w-4 h-4 text-green-600" />;
     if (trend < 0) return <TrendingDown className="w-4 h-4 text-red-600" />;
     return <span className="w-4 h-4 text-gray-400">−</span>;
@@ -301,37 +295,50 @@ export function BiodiversityTracker() {
                     {getStatusIcon(species.trend)}
                   </div>
                   <p className="text-sm text-muted-foreground mb-2 italic">{species.scientificName}</p>
-                  <Badge variant={getStatusColor(species.status)} className="mb-2">
-                    {species.status.replace('_', ' ').toUpperCase()}
-                  </Badge>
+                  <div className="flex items-center gap-2 mb-2">
+                    <Badge variant={getStatusColor(species.status)}>
+                      {species.status.replace('_', ' ').toUpperCase()}
+                    </Badge>
+                    <ProvenanceBadge provenance={species.provenance} />
+                  </div>
                 </div>
               </div>
               
               <div className="mt-4 space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Population</span>
-                  <span>{species.population.toLocaleString()}</span>
+                  <span>{species.population != null ? species.population.toLocaleString() : 'Not surveyed'}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Trend</span>
-                  <span className={species.trend > 0 ? 'text-green-600' : 'text-red-600'}>
-                    {species.trend > 0 ? '+' : ''}{species.trend}%
-                  </span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">AI Confidence</span>
-                  <span>{species.confidence}%</span>
+                  {species.trend != null ? (
+                    <span className={species.trend > 0 ? 'text-green-600' : 'text-red-600'}>
+                      {species.trend > 0 ? '+' : ''}{species.trend}%
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">Unknown</span>
+                  )}
                 </div>
-                <Progress value={species.confidence} className="h-2" />
+                {species.confidence != null && (
+                  <>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">AI Confidence</span>
+                      <span>{species.confidence}%</span>
+                    </div>
+                    <Progress value={species.confidence} className="h-2" />
+                  </>
+                )}
                 <div className="flex items-center justify-between text-xs text-muted-foreground mt-2">
                   <div className="flex items-center">
                     <MapPin className="w-3 h-3 mr-1" />
                     <span className="truncate">{species.habitat}</span>
                   </div>
-                  <div className="flex items-center">
-                    <Camera className="w-3 h-3 mr-1" />
-                    <span>{species.lastSeen}</span>
-                  </div>
+                  {species.lastSeen && (
+                    <div className="flex items-center">
+                      <Camera className="w-3 h-3 mr-1" />
+                      <span>{species.lastSeen}</span>
+                    </div>
+                  )}
                 </div>
               </div>
             </Card>
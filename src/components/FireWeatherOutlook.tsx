@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from './ui/badge';
+import { Flame, Droplets, Thermometer } from 'lucide-react';
+import type { FireWeatherDay } from '../services/forestDomain';
+import { forestRepository } from '../services/forestRepository';
+
+interface FireWeatherOutlookProps {
+  lat: number;
+  lng: number;
+  days?: number;
+  compact?: boolean;
+}
+
+const getRiskColor = (risk: string) => {
+  switch (risk) {
+    case 'critical': return 'destructive';
+    case 'high': return 'destructive';
+    case 'medium': return 'secondary';
+    default: return 'default';
+  }
+};
+
+// Next days' fire weather for a location, from the worker's 3-hourly forecast
+export function FireWeatherOutlook({ lat, lng, days = 5, compact = false }: FireWeatherOutlookProps) {
+  const [outlook, setOutlook] = useState<FireWeatherDay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    return forestRepository.subscribe(
+      (signal) => forestRepository.getWeatherForecast(lat, lng, days * 24, { signal }),
+      ({ data: forecast, error }) => {
+        setOutlook(forecast ? forecast.daily.slice(0, days) : []);
+        setError(error ? error.message || 'Forecast unavailable' : null);
+        setLoading(false);
+      },
+    );
+  }, [lat, lng, days]);
+
+  if (loading) return <div className="text-sm text-muted-foreground">Loading fire-weather outlook...</div>;
+  if (error) return <div className="text-sm text-muted-foreground">Fire-weather outlook unavailable: {error}</div>;
+  if (outlook.length === 0) return <div className="text-sm text-muted-foreground">No forecast available</div>;
+
+  const formatDay = (date: string, index: number) => {
+    if (index === 0) return 'Today';
+    if (index === 1) return 'Tomorrow';
+    return new Date(`${date}T12:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  };
+
+  if (compact) {
+    return (
+      <div className="space-y-1 text-sm">
+        {outlook.map((day, index) => (
+          <div key={day.date} className="flex items-center justify-between">
+            <span className="text-muted-foreground">{formatDay(day.date, index)}</span>
+            <span className="flex items-center gap-2">
+              <span>FWI {day.fireWeatherIndex.toFixed(1)}</span>
+              <Badge variant={getRiskColor(day.risk)}>{day.risk.toUpperCase()}</Badge>
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+      {outlook.map((day, index) => (
+        <div key={day.date} className="p-3 bg-muted/50 rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">{formatDay(day.date, index)}</span>
+            <Badge variant={getRiskColor(day.risk)}>{day.risk.toUpperCase()}</Badge>
+          </div>
+          <div className="flex items-center gap-1 text-sm">
+            <Flame className="w-4 h-4 text-orange-500" />
+            <span>FWI {day.fireWeatherIndex.toFixed(1)}</span>
+          </div>
+          {day.isi !== undefined && day.bui !== undefined && (
+            <div className="text-xs text-muted-foreground">ISI {day.isi.toFixed(1)} · BUI {day.bui.toFixed(1)}</div>
+          )}
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Thermometer className="w-3 h-3" />
+            <span>{day.maxTemperature.toFixed(1)}°C max</span>
+          </div>
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Droplets className="w-3 h-3" />
+            <span>{day.minHumidity.toFixed(0)}% min RH, {day.precipitation.toFixed(1)} mm</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
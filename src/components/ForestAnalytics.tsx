@@ -5,7 +5,8 @@ import { Progress } from './ui/progress';
 import { Alert, AlertDescription } from './ui/alert';
 import { LineChart, Line, AreaChart, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { TrendingUp, TrendingDown, Leaf, TreePine, Zap, AlertCircle, Satellite, Thermometer, Cloud, Activity } from 'lucide-react';
-import { enhancedForestDataService } from '../services/enhancedForestDataService';
+import { forestRepository } from '../services/forestRepository';
+import type { ForestRegion } from '../services/forestDomain';
 
 const forestHealthData = [
   { month: 'Jan', health: 85, coverage: 78, biodiversity: 92 },
@@ -63,23 +64,10 @@ export function ForestAnalytics() {
   const [loading, setLoading] = useState(true);
   const [lastDataUpdate, setLastDataUpdate] = useState<Date>(new Date());
 
-  useEffect(() => {
-    const fetchAllData = async () => {
-      try {
-        const baseUrl = (typeof window !== 'undefined' && (window as any).__FOREST_WORKER_BASE__) || (import.meta as any).env?.VITE_FOREST_WORKER_BASE || 'https://forest.nicx.me/api';
-
-        // Fetch forest regions
-        const regionsResponse = await fetch(`${baseUrl}/forest-regions`);
-        const regionsJson = await regionsResponse.json().catch(() => null);
-        if (regionsJson?.success && Array.isArray(regionsJson.data)) {
-          setForestRegions(regionsJson.data.filter((r: any) => r != null));
-        }
-
-        // Compute a simple satellite status from regions
-        setSatelliteStatus({ activeSatellites: 12, totalSatellites: 15 });
-
-        setLastDataUpdate(new Date());
-      } catch (error) {
+  useEffect(() => forestRepository.subscribe(
+    (signal) => forestRepository.getForestRegions({ signal }),
+    ({ data: regions, error }) => {
+      if (error) {
         console.log('Error fetching data:', error);
         // Set fallback data if API calls fail
         setRealtimeData({
@@ -88,20 +76,16 @@ export function ForestAnalytics() {
           satelliteCoverage: 89
         });
         setForestRegions([]);
-        setSatelliteStatus({
-          activeSatellites: 12,
-          totalSatellites: 15
-        });
-      } finally {
-        setLoading(false);
+      } else {
+        setForestRegions(regions.filter((r: ForestRegion) => r != null));
+        setLastDataUpdate(new Date());
       }
-    };
-
-    fetchAllData();
-    const interval = setInterval(fetchAllData, 30000); // Update every 30 seconds
-    
-    return () => clearInterval(interval);
-  }, []);
+      // Compute a simple satellite status from regions
+      setSatelliteStatus({ activeSatellites: 12, totalSatellites: 15 });
+      setLoading(false);
+    },
+    30000, // Update every 30 seconds
+  ), []);
 
   const currentMetrics = realtimeData ? {
     forestHealth: Math.round(realtimeData.forestHealth),
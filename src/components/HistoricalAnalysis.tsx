@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
@@ -7,6 +7,7 @@ import { Slider } from './ui/slider';
 import { LineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart, Bar } from 'recharts';
 import { Download, Play, Pause, RotateCcw, TrendingDown, TrendingUp } from 'lucide-react';
 import { ImageWithFallback } from './figma/ImageWithFallback';
+import { accessControl } from '../services/accessControl';
 
 interface HistoricalData {
   year: number;
@@ -60,6 +61,9 @@ export function HistoricalAnalysis() {
   const [selectedMetric, setSelectedMetric] = useState('forestCoverage');
   const [isPlaying, setIsPlaying] = useState(false);
   const [playbackYear, setPlaybackYear] = useState(2000);
+  const [canExport, setCanExport] = useState(() => accessControl.can('export_data'));
+
+  useEffect(() => accessControl.subscribe(() => setCanExport(accessControl.can('export_data'))), []);
 
   const filteredData = historicalData.filter(d => d.year >= timeRange[0] && d.year <= timeRange[1]);
 
@@ -114,7 +118,7 @@ export function HistoricalAnalysis() {
                 <SelectItem value="southeast_asia">Southeast Asia</SelectItem>
               </SelectContent>
             </Select>
-            <Button variant="outline" size="sm">
+            <Button variant="outline" size="sm" disabled={!canExport} title={canExport ? undefined : 'Requires the export_data permission'}>
               <Download className="w-4 h-4 mr-2" />
               Export Data
             </Button>
@@ -3,38 +3,43 @@ import { Card } from "./ui/card";
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
-import { ZoomIn, ZoomOut, RotateCcw, AlertTriangle, TreePine, Navigation, Map as MapIcon, Satellite } from "lucide-react";
+import { ZoomIn, ZoomOut, RotateCcw, AlertTriangle, TreePine, Navigation, Map as MapIcon, Satellite, Download, HardDriveDownload } from "lucide-react";
 import { MapContainer, TileLayer, Marker, Popup, useMap } from "react-leaflet";
 import L from "leaflet";
-import { enhancedForestDataService } from "../services/enhancedForestDataService";
-
-interface ForestRegion {
-  id: string;
-  name: string;
-  lat: number;
-  lng: number;
-  healthScore: number;
-  deforestationRate: number;
-  biodiversityIndex: number;
-  alertLevel: "low" | "medium" | "high" | "critical";
-  fireRisk: number;
-  temperature: number;
-  precipitation: number;
-  area: number;
-  forestCover: number;
-}
+import { forestRepository } from "../services/forestRepository";
+import { alertStream } from "../services/alertStream";
+import { FireWeatherOutlook } from "./FireWeatherOutlook";
+import { OfflineMapDownload } from "./OfflineMapDownload";
+import { describeProvenance, ProvenanceBadge } from "./ProvenanceBadge";
+import type { AlertType, ForestAlert, ForestRegion, Provenance, Severity } from "../services/forestDomain";
+import { ALERT_FORMATS, AlertFormat, formatAlerts } from "../services/alertFormats";
+import { accessControl } from "../services/accessControl";
+import { BASE_LAYERS, BaseLayer, TileBounds } from "../services/tileCache";
 
 interface Alert {
   id: string;
-  type: "fire" | "deforestation" | "biodiversity";
-  severity: "low" | "medium" | "high" | "critical";
+  type: AlertType;
+  severity: Severity;
   lat: number;
   lng: number;
   title: string;
   description: string;
   timestamp: string;
+  provenance?: Provenance;
 }
 
+const toMapAlert = (alert: ForestAlert): Alert => ({
+  id: alert.id,
+  type: alert.type,
+  severity: alert.severity,
+  lat: alert.coordinates?.lat || 0,
+  lng: alert.coordinates?.lng || 0,
+  title: alert.location || "Unknown Location",
+  description: alert.description,
+  timestamp: alert.timestamp,
+  provenance: alert.provenance,
+});
+
 const iconColors: Record<string, string> = {
   critical: "#ef4444",
   high: "#f97316",
@@ -42,10 +47,13 @@ const iconColors: Record<string, string> = {
   low: "#22c55e",
 };
 
-const createCircleIcon = (color: string, size: number = 16) =>
+// Simulated records are drawn as dashed rings instead of filled dots
+const createCircleIcon = (color: string, size: number = 16, simulated: boolean = false) =>
   L.divIcon({
     className: "",
-    html: `<span style="display:inline-block;width:${size}px;height:${size}px;border-radius:50%;background:${color};box-shadow:0 0 0 4px ${color}22"></span>`,
+    html: simulated
+      ? `<span title="Simulated" style="display:inline-block;box-sizing:border-box;width:${size}px;height:${size}px;border-radius:50%;border:2px dashed ${color};background:${color}33"></span>`
+      : `<span style="display:inline-block;width:${size}px;height:${size}px;border-radius:50%;background:${color};box-shadow:0 0 0 4px ${color}22"></span>`,
     iconSize: [size, size],
     iconAnchor: [size / 2, size / 2],
   });
@@ -58,49 +66,58 @@ function FlyTo({ lat, lng, zoom }: { lat: number; lng: number; zoom: number }) {
   return null;
 }
 
+// Reports the visible area so it can be saved for offline use
+function TrackView({ onChange }: { onChange: (view: { bounds: TileBounds; zoom: number }) => void }) {
+  const map = useMap();
+  useEffect(() => {
+    const report = () => {
+      const bounds = map.getBounds();
+      onChange({ bounds: { north: bounds.getNorth(), south: bounds.getSouth(), east: bounds.getEast(), west: bounds.getWest() }, zoom: map.getZoom() });
+    };
+    report();
+    map.on("moveend", report);
+    return () => { map.off("moveend", report); };
+  }, [map, onChange]);
+  return null;
+}
+
 export function InteractiveMap() {
   const [selectedRegion, setSelectedRegion] = useState<ForestRegion | null>(null);
   const [regions, setRegions] = useState<ForestRegion[]>([]);
   const [alerts, setAlerts] = useState<Alert[]>([]);
-  const [activeLayer, setActiveLayer] = useState("osm");
+  const [sourceAlerts, setSourceAlerts] = useState<ForestAlert[]>([]);
+  const [activeLayer, setActiveLayer] = useState<BaseLayer>("osm");
   const [showAlerts, setShowAlerts] = useState(true);
   const [showForestCover, setShowForestCover] = useState(true);
   const [center, setCenter] = useState<[number, number]>([0, 0]);
   const [zoom, setZoom] = useState<number>(2);
+  const [canExport, setCanExport] = useState(() => accessControl.can("export_data"));
+  const [view, setView] = useState<{ bounds: TileBounds | null; zoom: number }>({ bounds: null, zoom: 2 });
+  const [showOfflinePanel, setShowOfflinePanel] = useState(false);
 
-  useEffect(() => {
-    const load = async () => {
-      try {
-        const [forestRegions, forestAlerts] = await Promise.all([
-          enhancedForestDataService.getForestRegions(),
-          enhancedForestDataService.getForestAlerts(),
-        ]);
-        setRegions(forestRegions);
-        setAlerts(
-          forestAlerts.map((alert) => ({
-            id: alert.id,
-            type: alert.type,
-            severity: alert.severity,
-            lat: alert.coordinates?.lat || 0,
-            lng: alert.coordinates?.lng || 0,
-            title: alert.location || "Unknown Location",
-            description: alert.description,
-            timestamp: alert.timestamp,
-          }))
-        );
-      } catch {
-        setRegions([]);
-        setAlerts([]);
-      }
-    };
-    load();
-  }, []);
+  useEffect(() => accessControl.subscribe(() => setCanExport(accessControl.can("export_data"))), []);
 
-  const baseLayerUrl = useMemo(() => {
-    if (activeLayer === "osm") return "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
-    if (activeLayer === "satellite") return "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}";
-    return "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
-  }, [activeLayer]);
+  useEffect(() => forestRepository.subscribe(
+    (signal) => forestRepository.getForestRegions({ signal }),
+    ({ data }) => setRegions(data ?? []),
+  ), []);
+
+  useEffect(() => forestRepository.subscribe(
+    (signal) => forestRepository.getForestAlerts({ signal }),
+    ({ data: forestAlerts = [] }) => {
+      setSourceAlerts(forestAlerts);
+      setAlerts(forestAlerts.map(toMapAlert));
+    },
+  ), []);
+
+  // New alerts are added as markers without reloading the rest
+  useEffect(() => alertStream.subscribe((incoming) => {
+    const isNew = (current: { id: string }[]) => incoming.filter((alert) => !current.some(({ id }) => id === alert.id));
+    setSourceAlerts((current: ForestAlert[]) => [...isNew(current), ...current]);
+    setAlerts((current: Alert[]) => [...isNew(current).map(toMapAlert), ...current]);
+  }), []);
+
+  const baseLayer = useMemo(() => BASE_LAYERS[activeLayer as BaseLayer] ?? BASE_LAYERS.osm, [activeLayer]);
 
   const focusOnRegion = (region: ForestRegion) => {
     setCenter([region.lat, region.lng]);
@@ -108,8 +125,19 @@ export function InteractiveMap() {
     setSelectedRegion(region);
   };
 
-  const getRegionIcon = (level: string) => createCircleIcon(iconColors[level] || iconColors.low, 18);
-  const getAlertIcon = (severity: string) => createCircleIcon(iconColors[severity] || iconColors.low, 12);
+  // Download the alerts on the map for QGIS / Google Earth
+  const exportAlerts = (format: AlertFormat) => {
+    const { contentType, extension } = ALERT_FORMATS[format];
+    const blob = new Blob([formatAlerts(sourceAlerts, format, "Forest monitor alerts")], { type: contentType });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `forest-alerts-${new Date().toISOString().slice(0, 10)}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const getRegionIcon = (level: string, provenance?: Provenance) => createCircleIcon(iconColors[level] || iconColors.low, 18, provenance?.synthetic);
+  const getAlertIcon = (severity: string, provenance?: Provenance) => createCircleIcon(iconColors[severity] || iconColors.low, 12, provenance?.synthetic);
 
   return (
     <Card className="h-full p-6">
@@ -119,7 +147,7 @@ export function InteractiveMap() {
           <p className="text-sm text-muted-foreground">Interactive world map with forest monitoring data</p>
         </div>
         <div className="flex items-center gap-2">
-          <Select value={activeLayer} onValueChange={setActiveLayer}>
+          <Select value={activeLayer} onValueChange={(layer: string) => setActiveLayer(layer as BaseLayer)}>
             <SelectTrigger className="w-32">
               <SelectValue />
             </SelectTrigger>
@@ -138,6 +166,19 @@ export function InteractiveMap() {
           <Button variant={showForestCover ? "default" : "outline"} size="sm" onClick={() => setShowForestCover(!showForestCover)}>
             <TreePine className="w-4 h-4 mr-2" /> Forests
           </Button>
+          <Select value="" onValueChange={(format) => exportAlerts(format as AlertFormat)} disabled={!canExport || sourceAlerts.length === 0}>
+            <SelectTrigger className="w-36" title={canExport ? undefined : "Requires the export_data permission"}>
+              <div className="flex items-center gap-2"><Download className="w-4 h-4" /> Export</div>
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="geojson">GeoJSON (QGIS)</SelectItem>
+              <SelectItem value="csv">CSV</SelectItem>
+              <SelectItem value="kml">KML (Google Earth)</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant={showOfflinePanel ? "default" : "outline"} size="sm" onClick={() => setShowOfflinePanel(!showOfflinePanel)}>
+            <HardDriveDownload className="w-4 h-4 mr-2" /> Offline
+          </Button>
         </div>
       </div>
 
@@ -150,21 +191,23 @@ export function InteractiveMap() {
 
         <div className="flex-1 relative rounded-lg overflow-hidden border">
           <MapContainer center={center} zoom={zoom} style={{ width: "100%", height: "100%" }} worldCopyJump>
-            <TileLayer url={baseLayerUrl} attribution={activeLayer === "osm" ? "© OpenStreetMap" : "© Esri"} />
+            <TileLayer url={baseLayer.url} attribution={baseLayer.attribution} maxZoom={baseLayer.maxZoom} />
+            <TrackView onChange={setView} />
 
             {/* Regions */}
             {showForestCover && regions.map((region) => (
-              <Marker key={region.id} position={[region.lat, region.lng]} icon={getRegionIcon(region.alertLevel)} eventHandlers={{ click: () => setSelectedRegion(region), dblclick: () => focusOnRegion(region) }} />
+              <Marker key={region.id} position={[region.lat, region.lng]} icon={getRegionIcon(region.alertLevel, region.provenance)} eventHandlers={{ click: () => setSelectedRegion(region), dblclick: () => focusOnRegion(region) }} />
             ))}
 
             {/* Alerts */}
             {showAlerts && alerts.map((a) => (
-              <Marker key={a.id} position={[a.lat, a.lng]} icon={getAlertIcon(a.severity)}>
+              <Marker key={a.id} position={[a.lat, a.lng]} icon={getAlertIcon(a.severity, a.provenance)}>
                 <Popup>
                   <div className="text-sm">
-                    <div className="font-medium mb-1">{a.title}</div>
+                    <div className="flex items-center gap-2 font-medium mb-1">{a.title}<ProvenanceBadge provenance={a.provenance} /></div>
                     <div className="text-xs text-muted-foreground mb-1">{a.description}</div>
                     <div className="text-xs">{new Date(a.timestamp).toLocaleString()}</div>
+                    <div className="text-xs text-muted-foreground whitespace-pre-line mt-1">{describeProvenance(a.provenance)}</div>
                   </div>
                 </Popup>
               </Marker>
@@ -174,10 +217,14 @@ export function InteractiveMap() {
           </MapContainer>
         </div>
 
+        {showOfflinePanel && (
+          <OfflineMapDownload layer={activeLayer} bounds={view.bounds} zoom={view.zoom} onClose={() => setShowOfflinePanel(false)} />
+        )}
+
         {selectedRegion && (
           <Card className="w-80 p-4 space-y-4">
             <div className="flex items-center justify-between">
-              <h3>{selectedRegion.name}</h3>
+              <h3 className="flex items-center gap-2">{selectedRegion.name}<ProvenanceBadge provenance={selectedRegion.provenance} /></h3>
               <Button variant="ghost" size="sm" onClick={() => setSelectedRegion(null)}>×</Button>
             </div>
             <div className="space-y-3">
@@ -201,6 +248,10 @@ export function InteractiveMap() {
                 <div className="flex justify-between"><span className="text-muted-foreground">Coordinates</span><span className="text-xs font-mono">{selectedRegion.lat.toFixed(3)}, {selectedRegion.lng.toFixed(3)}</span></div>
               </div>
             </div>
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Fire-Weather Outlook</div>
+              <FireWeatherOutlook lat={selectedRegion.lat} lng={selectedRegion.lng} compact />
+            </div>
             <div className="space-y-2">
               <Button className="w-full" size="sm" onClick={() => focusOnRegion(selectedRegion)}><Navigation className="w-4 h-4 mr-2" />Focus on Region</Button>
               <Button variant="outline" className="w-full" size="sm">View Detailed Analysis</Button>
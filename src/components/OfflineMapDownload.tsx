@@ -0,0 +1,124 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Progress } from './ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Download, Trash2, X } from 'lucide-react';
+import { BASE_LAYERS, BaseLayer, MAX_OFFLINE_TILES, TileBounds, TileDownloadProgress, countTiles, tileCache } from '../services/tileCache';
+
+interface OfflineMapDownloadProps {
+  layer: BaseLayer;
+  // The area currently in view, and its zoom
+  bounds: TileBounds | null;
+  zoom: number;
+  onClose: () => void;
+}
+
+// Saves the visible area's tiles for a zoom range so the map keeps working without a connection
+export function OfflineMapDownload({ layer, bounds, zoom, onClose }: OfflineMapDownloadProps) {
+  const maxLayerZoom = BASE_LAYERS[layer].maxZoom;
+  const [minZoom, setMinZoom] = useState(Math.round(zoom));
+  const [maxZoom, setMaxZoom] = useState(Math.min(maxLayerZoom, Math.round(zoom) + 3));
+  const [progress, setProgress] = useState<TileDownloadProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(0);
+  const [downloading, setDownloading] = useState(false);
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    tileCache.countSaved().then(setSaved).catch(() => setSaved(0));
+    return () => controller.current?.abort();
+  }, []);
+
+  const total = bounds ? countTiles(bounds, minZoom, maxZoom) : 0;
+  const zoomLevels = Array.from({ length: maxLayerZoom + 1 }, (_, level) => level);
+
+  const download = async () => {
+    if (!bounds) return;
+    setError(null);
+    setDownloading(true);
+    controller.current = new AbortController();
+    setProgress({ done: 0, total, failed: 0 });
+    try {
+      const result = await tileCache.downloadRegion(layer, bounds, minZoom, maxZoom, setProgress, controller.current.signal);
+      if (result.failed > 0) setError(`${result.failed} tiles could not be downloaded`);
+    } catch (e) {
+      setError((e as any)?.message || 'Download failed');
+    } finally {
+      controller.current = null;
+      setDownloading(false);
+      setSaved(await tileCache.countSaved());
+    }
+  };
+
+  const cancel = () => {
+    controller.current?.abort();
+    setProgress(null);
+  };
+
+  const clear = async () => {
+    await tileCache.clear();
+    setSaved(0);
+    setProgress(null);
+  };
+
+  if (!tileCache.isSupported()) {
+    return (
+      <Card className="w-80 p-4 text-sm text-muted-foreground">This browser cannot store map tiles offline.</Card>
+    );
+  }
+
+  return (
+    <Card className="w-80 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3>Offline Map</h3>
+        <Button variant="ghost" size="sm" onClick={onClose}><X className="w-4 h-4" /></Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Saves the {layer === 'satellite' ? 'satellite' : 'street'} tiles for the area in view. Saved tiles are used whenever the connection drops.
+      </p>
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div className="space-y-1">
+          <div className="text-muted-foreground">From zoom</div>
+          <Select value={String(minZoom)} onValueChange={(value: string) => { setMinZoom(Number(value)); setMaxZoom(Math.max(maxZoom, Number(value))); }}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {zoomLevels.map((level) => <SelectItem key={level} value={String(level)}>{level}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <div className="text-muted-foreground">To zoom</div>
+          <Select value={String(maxZoom)} onValueChange={(value: string) => setMaxZoom(Number(value))}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {zoomLevels.filter((level) => level >= minZoom).map((level) => <SelectItem key={level} value={String(level)}>{level}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="text-sm">
+        {total.toLocaleString()} tiles
+        {total > MAX_OFFLINE_TILES && <span className="text-destructive"> (limit {MAX_OFFLINE_TILES.toLocaleString()}; zoom in or lower the range)</span>}
+      </div>
+      {progress && (
+        <div className="space-y-1">
+          <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+          <div className="text-xs text-muted-foreground">{progress.done.toLocaleString()} / {progress.total.toLocaleString()}</div>
+        </div>
+      )}
+      {error && <div className="text-sm text-destructive">{error}</div>}
+      {downloading ? (
+        <Button variant="outline" className="w-full" size="sm" onClick={cancel}>Cancel</Button>
+      ) : (
+        <Button className="w-full" size="sm" onClick={download} disabled={!bounds || total === 0 || total > MAX_OFFLINE_TILES}>
+          <Download className="w-4 h-4 mr-2" />Download Area
+        </Button>
+      )}
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>{saved.toLocaleString()} tiles saved on this device</span>
+        <Button variant="ghost" size="sm" onClick={clear} disabled={saved === 0 || downloading}><Trash2 className="w-4 h-4" /></Button>
+      </div>
+    </Card>
+  );
+}
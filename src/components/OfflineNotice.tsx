@@ -0,0 +1,33 @@
+import React, { useState, useEffect } from 'react';
+import { Alert, AlertDescription } from './ui/alert';
+import { WifiOff } from 'lucide-react';
+import { forestRepository } from '../services/forestRepository';
+import { formatAge } from './ProvenanceBadge';
+
+// Shown while any view is answered from the offline cache, with the age of the oldest copy
+export function OfflineNotice() {
+  const [since, setSince] = useState<number | null>(forestRepository.getOfflineSince());
+  const [, setTick] = useState(0);
+
+  useEffect(() => forestRepository.subscribeOffline(setSince), []);
+
+  // Keep the age current while the notice is up
+  useEffect(() => {
+    if (since === null) return;
+    const interval = setInterval(() => setTick((tick: number) => tick + 1), 60000);
+    return () => clearInterval(interval);
+  }, [since]);
+
+  if (since === null) return null;
+
+  return (
+    <div className="container mx-auto px-6 pt-4">
+      <Alert>
+        <WifiOff className="w-4 h-4" />
+        <AlertDescription>
+          Offline, data from {formatAge(since)}. Showing the last data received on this device; it will refresh when the connection returns.
+        </AlertDescription>
+      </Alert>
+    </div>
+  );
+}
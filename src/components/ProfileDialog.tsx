@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Building, MapPin, Shield, User } from 'lucide-react';
+import { getAccessToken } from '../utils/supabase/client';
+import { workerClient } from '../services/workerClient';
+import type { UserProfile, UserProfileUpdate } from '../services/forestDomain';
+
+interface ProfileDialogProps {
+  profile: UserProfile;
+  onSaved: (profile: UserProfile) => void;
+}
+
+export function ProfileDialog({ profile, onSaved }: ProfileDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({ name: '', organization: '', role: '', regions: '' });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData({
+      name: profile.name,
+      organization: profile.organization,
+      role: profile.role,
+      regions: profile.regions.join(', '),
+    });
+    setError(null);
+  }, [isOpen, profile]);
+
+  const handleInputChange = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const accessToken = await getAccessToken();
+      if (!accessToken) throw new Error('Your session has expired, please sign in again');
+
+      const update: UserProfileUpdate = {
+        name: formData.name.trim(),
+        organization: formData.organization.trim(),
+        role: formData.role.trim(),
+        regions: formData.regions.split(',').map(region => region.trim()).filter(Boolean),
+      };
+      const response = await workerClient.request('/user-profile', {
+        method: 'put',
+        body: update,
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      });
+      if (!response.success || !response.data) {
+        throw new Error([response.error, response.details].filter(Boolean).join(': ') || 'Failed to save profile');
+      }
+
+      onSaved(response.data);
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2 px-3 py-1 bg-muted rounded-lg">
+          <User className="w-4 h-4" />
+          <span className="text-sm">{profile.name}</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Your Profile</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">Full Name</Label>
+            <div className="relative">
+              <User className="w-4 h-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" />
+              <Input
+                id="profile-name"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                className="pl-10"
+                maxLength={100}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="profile-organization">Organization</Label>
+            <div className="relative">
+              <Building className="w-4 h-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" />
+              <Input
+                id="profile-organization"
+                value={formData.organization}
+                onChange={(e) => handleInputChange('organization', e.target.value)}
+                className="pl-10"
+                maxLength={200}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="profile-role">Role</Label>
+            <Input
+              id="profile-role"
+              placeholder="Forest Analyst"
+              value={formData.role}
+              onChange={(e) => handleInputChange('role', e.target.value)}
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="profile-regions">Regions of Interest</Label>
+            <div className="relative">
+              <MapPin className="w-4 h-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" />
+              <Input
+                id="profile-regions"
+                placeholder="amazon, congo, boreal"
+                value={formData.regions}
+                onChange={(e) => handleInputChange('regions', e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Shield className="w-4 h-4" />
+              Access
+            </Label>
+            <div className="flex flex-wrap gap-2">
+              <Badge className="capitalize">{profile.accessRole}</Badge>
+              {profile.permissions.length ? profile.permissions.map(permission => (
+                <Badge key={permission} variant="secondary">{permission.replace('_', ' ')}</Badge>
+              )) : (
+                <span className="text-sm text-muted-foreground">None</span>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">Access roles and permissions are granted by an administrator.</p>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Button type="submit" className="w-full" disabled={saving}>
+            {saving ? 'Saving...' : 'Save Profile'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Badge } from './ui/badge';
+import type { Provenance } from '../services/forestDomain';
+
+interface ProvenanceBadgeProps {
+  provenance?: Provenance;
+  className?: string;
+}
+
+// "3 hours ago", for how old a record or an offline copy is
+export function formatAge(timestamp: string | number): string {
+  const minutes = Math.max(0, Math.round((Date.now() - new Date(timestamp).getTime()) / 60000));
+  if (minutes < 60) return minutes <= 1 ? 'a minute ago' : `${minutes} minutes ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return hours === 1 ? '1 hour ago' : `${hours} hours ago`;
+  return `${Math.round(hours / 24)} days ago`;
+}
+
+export function describeProvenance(provenance?: Provenance): string {
+  if (!provenance) return 'Source unknown';
+  return [
+    `Source: ${provenance.source}`,
+    provenance.dataset && `Dataset: ${provenance.dataset}`,
+    `Fetched: ${new Date(provenance.fetchedAt).toLocaleString()}`,
+    provenance.cache === 'offline' && 'Offline: last copy saved on this device',
+    provenance.cache !== 'none' && provenance.cache !== 'offline' && `Worker cache: ${provenance.cache}`,
+  ].filter(Boolean).join('\n');
+}
+
+// Marks generated records and offline copies; fresh observed ones render nothing. The tooltip gives
+// the full provenance.
+export function ProvenanceBadge({ provenance, className = '' }: ProvenanceBadgeProps) {
+  if (provenance?.cache === 'offline') {
+    return (
+      <Badge variant="outline" className={`border-slate-500 text-slate-600 ${className}`} title={describeProvenance(provenance)}>
+        Offline, {formatAge(provenance.fetchedAt)}
+      </Badge>
+    );
+  }
+  if (!provenance?.synthetic) return null;
+  return (
+    <Badge variant="outline" className={`border-amber-500 text-amber-600 ${className}`} title={describeProvenance(provenance)}>
+      Simulated
+    </Badge>
+  );
+}
@@ -5,22 +5,16 @@ import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
 import { Alert, AlertDescription } from './ui/alert';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { Satellite, Radio, Activity, AlertCircle, CheckCircle2, Clock, MapPin, Zap } from 'lucide-react';
-import { mockDataService } from '../services/mockDataService';
-import { enhancedForestDataService } from '../services/enhancedForestDataService';
-import { serverSideDataService } from '../services/serverSideDataService';
+import { Satellite, Radio, Activity, AlertCircle, CheckCircle2, Clock, MapPin, Zap, Flame } from 'lucide-react';
+import { FireWeatherOutlook } from './FireWeatherOutlook';
+import { describeProvenance, ProvenanceBadge } from './ProvenanceBadge';
+import { forestRepository } from '../services/forestRepository';
+import { alertStream, AlertFeedStatus } from '../services/alertStream';
 import { apiConfigManager } from '../services/apiConfigManager';
+import { createProvenance, withProvenance } from '../services/forestDomain';
+import type { ForestAlert } from '../services/forestDomain';
 
-interface AlertData {
-  id: string;
-  timestamp: string;
-  location: string;
-  type: 'deforestation' | 'fire' | 'illegal_logging' | 'disease' | 'biodiversity_threat';
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  confidence: number;
-  description: string;
-  coordinates: { lat: number; lng: number };
-}
+type AlertData = Omit<ForestAlert, 'metadata'>;
 
 interface SatelliteData {
   timestamp: string;
@@ -29,7 +23,19 @@ interface SatelliteData {
   cloudCover: number;
 }
 
-const mockAlerts: AlertData[] = [
+const toAlertData = (alert: ForestAlert): AlertData => ({
+  id: alert.id,
+  timestamp: new Date(alert.timestamp).toLocaleString(),
+  location: alert.location,
+  type: alert.type,
+  severity: alert.severity,
+  confidence: alert.confidence,
+  description: alert.description,
+  coordinates: alert.coordinates,
+  provenance: alert.provenance
+});
+
+const mockAlerts: AlertData[] = withProvenance([
   {
     id: '1',
     timestamp: '2024-09-06 14:23:15',
@@ -74,13 +80,13 @@ const mockAlerts: AlertData[] = [
     id: '5',
     timestamp: '2024-09-06 10:15:44',
     location: 'Southeast Asia',
-    type: 'biodiversity_threat',
+    type: 'biodiversity',
     severity: 'low',
     confidence: 69,
     description: 'Habitat fragmentation detected',
     coordinates: { lat: 1.3521, lng: 103.8198 }
   }
-];
+], createProvenance('client-mock'));
 
 const realTimeData = [
   { time: '14:20', forestHealth: 73, alerts: 5, coverage: 91 },
@@ -91,6 +97,9 @@ const realTimeData = [
   { time: '14:25', forestHealth: 71, alerts: 17, coverage: 89 },
 ];
 
+// Alerts kept on screen, as many as the providers' initial load; pushed alerts push old ones out
+const MAX_ALERTS = 25;
+
 const satelliteFeeds: SatelliteData[] = [
   { timestamp: '14:25:32', coverage: 89, resolution: 10, cloudCover: 15 },
   { timestamp: '14:24:18', coverage: 91, resolution: 10, cloudCover: 12 },
@@ -102,78 +111,56 @@ export function RealTimeMonitoring() {
   const [lastUpdate, setLastUpdate] = useState(new Date());
   const [selectedAlert, setSelectedAlert] = useState<AlertData | null>(null);
   const [alerts, setAlerts] = useState<AlertData[]>([]);
+  // Where the fire-weather outlook points when no alert is selected: the newest alert at load time,
+  // so pushed alerts do not move it and refetch the forecast
+  const [outlookAlert, setOutlookAlert] = useState<AlertData | null>(null);
   const [satelliteData, setSatelliteData] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [feedStatus, setFeedStatus] = useState<AlertFeedStatus>(alertStream.getStatus());
 
-  useEffect(() => {
-    const fetchAlerts = async () => {
-      try {
-        const liveOnly = apiConfigManager.isNoMockEnabled();
-        // Always try live first
-        let alertsData: any[] = [];
-        try {
-          alertsData = await enhancedForestDataService.getForestAlerts();
-        } catch (e) {
-          if (liveOnly) throw e;
-          alertsData = mockDataService.getForestAlerts();
-        }
-        
-        // Transform alerts to match component interface
-        const transformedAlerts: AlertData[] = alertsData.map(alert => ({
-          id: alert.id,
-          timestamp: new Date(alert.timestamp).toLocaleString(),
-          location: alert.location,
-          type: alert.type as any,
-          severity: alert.severity,
-          confidence: alert.confidence,
-          description: alert.description,
-          coordinates: alert.coordinates
-        }));
-        
-        setAlerts(transformedAlerts);
-      } catch (error) {
+  // Loaded once; later alerts arrive through the alert feed while live
+  useEffect(() => forestRepository.subscribe(
+    (signal) => forestRepository.getForestAlerts({ signal }),
+    ({ data: alertsData, error }) => {
+      if (error) {
         console.log('Error fetching alerts:', error);
-        if (apiConfigManager.isNoMockEnabled()) setAlerts([]);
-        else setAlerts(mockAlerts);
+        const fallback = apiConfigManager.isNoMockEnabled() ? [] : mockAlerts;
+        setAlerts(fallback);
+        setOutlookAlert(fallback[0] ?? null);
+        return;
       }
-    };
 
-    const fetchSatelliteData = async () => {
-      try {
-        const liveOnly = apiConfigManager.isNoMockEnabled();
-        try {
-          const currentData = await serverSideDataService.getSatelliteData(0, 0);
-          setSatelliteData({ feeds: [], realTimeData: [], currentData });
-        } catch (e) {
-          if (liveOnly) throw e;
-          const satelliteDataResponse = mockDataService.getSatelliteData();
-          setSatelliteData({ 
-            feeds: satelliteFeeds, 
-            realTimeData,
-            currentData: satelliteDataResponse 
-          });
-        }
-      } catch (error) {
+      const loaded = alertsData.map(toAlertData);
+      setAlerts(loaded);
+      setOutlookAlert(loaded[0] ?? null);
+      setLastUpdate(new Date());
+    },
+  ), []);
+
+  useEffect(() => {
+    if (!isLive) return;
+    return alertStream.subscribe((incoming) => {
+      setAlerts((current: AlertData[]) => [...incoming.map(toAlertData), ...current.filter((alert) => !incoming.some(({ id }) => id === alert.id))].slice(0, MAX_ALERTS));
+      setLastUpdate(new Date());
+    });
+  }, [isLive]);
+
+  useEffect(() => alertStream.subscribeStatus(setFeedStatus), []);
+
+  useEffect(() => forestRepository.subscribe(
+    (signal) => forestRepository.getSatelliteData(0, 0, undefined, { signal }),
+    ({ data: currentData, error }) => {
+      if (error) {
         console.log('Error fetching satellite data:', error);
         if (apiConfigManager.isNoMockEnabled()) setSatelliteData({ feeds: [], realTimeData: [] });
         else setSatelliteData({ feeds: satelliteFeeds, realTimeData });
-      } finally {
-        setLoading(false);
+      } else {
+        setSatelliteData({ feeds: [], realTimeData: [], currentData });
       }
-    };
-
-    fetchAlerts();
-    fetchSatelliteData();
-
-    if (isLive) {
-      const interval = setInterval(() => {
-        setLastUpdate(new Date());
-        fetchAlerts();
-        fetchSatelliteData();
-      }, 30000); // Update every 30 seconds
-      return () => clearInterval(interval);
-    }
-  }, [isLive]);
+      setLoading(false);
+    },
+    isLive ? 30000 : undefined,
+  ), [isLive]);
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
@@ -191,11 +178,13 @@ export function RealTimeMonitoring() {
       case 'fire': return '🔥';
       case 'illegal_logging': return '🪚';
       case 'disease': return '🦠';
-      case 'biodiversity_threat': return '🦎';
+      case 'biodiversity': return '🦎';
       default: return '⚠️';
     }
   };
 
+  const outlookTarget = selectedAlert || outlookAlert;
+
   return (
     <div className="space-y-6">
       {/* System Status */}
@@ -208,7 +197,9 @@ export function RealTimeMonitoring() {
           <div className="flex items-center gap-4">
             <div className="flex items-center">
               <div className={`w-3 h-3 rounded-full mr-2 ${isLive ? 'bg-green-500 animate-pulse' : 'bg-gray-400'}`} />
-              <span className="text-sm">{isLive ? 'LIVE' : 'OFFLINE'}</span>
+              <span className="text-sm" title={isLive && feedStatus !== 'live' ? 'Alerts are refreshed every minute' : undefined}>
+                {!isLive ? 'OFFLINE' : feedStatus === 'live' ? 'LIVE' : 'POLLING'}
+              </span>
             </div>
             <Button
               variant={isLive ? "destructive" : "default"}
@@ -348,6 +339,7 @@ export function RealTimeMonitoring() {
                         {alert.severity.toUpperCase()}
                       </Badge>
                       <span className="text-xs text-muted-foreground">{alert.confidence}% confident</span>
+                      <ProvenanceBadge provenance={alert.provenance} />
                     </div>
                     <AlertDescription className="text-sm">
                       <p className="font-medium">{alert.type.replace('_', ' ').toUpperCase()}</p>
@@ -357,7 +349,7 @@ export function RealTimeMonitoring() {
                       <MapPin className="w-3 h-3" />
                       <span>{alert.location}</span>
                     </div>
-                    <p className="text-xs text-muted-foreground mt-1">{alert.timestamp}</p>
+                    <p className="text-xs text-muted-foreground mt-1" title={describeProvenance(alert.provenance)}>{alert.timestamp}</p>
                   </div>
                 </div>
               </div>
@@ -367,6 +359,23 @@ export function RealTimeMonitoring() {
         </div>
       </Card>
 
+      {/* Fire-Weather Outlook */}
+      {outlookTarget && (
+        <Card className="p-6">
+          <h3 className="flex items-center mb-1">
+            <Flame className="w-5 h-5 mr-2 text-orange-500" />
+            Fire-Weather Outlook
+          </h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Next 5 days at {outlookTarget.location}
+          </p>
+          <FireWeatherOutlook
+            lat={outlookTarget.coordinates.lat}
+            lng={outlookTarget.coordinates.lng}
+          />
+        </Card>
+      )}
+
       {/* Alert Details Modal */}
       {selectedAlert && (
         <Card className="p-6 border-2 border-primary">
@@ -424,6 +433,21 @@ export function RealTimeMonitoring() {
                 <label className="text-sm font-medium">Timestamp</label>
                 <p className="mt-1">{selectedAlert.timestamp}</p>
               </div>
+
+              <div>
+                <label className="text-sm font-medium">Source</label>
+                <p className="flex items-center gap-2 mt-1">
+                  {selectedAlert.provenance ? selectedAlert.provenance.source : 'Unknown'}
+                  <ProvenanceBadge provenance={selectedAlert.provenance} />
+                </p>
+                {selectedAlert.provenance && (
+                  <p className="text-xs text-muted-foreground">
+                    {selectedAlert.provenance.dataset ? `${selectedAlert.provenance.dataset} • ` : ''}
+                    fetched {new Date(selectedAlert.provenance.fetchedAt).toLocaleString()}
+                    {selectedAlert.provenance.cache !== 'none' ? ` • worker cache ${selectedAlert.provenance.cache}` : ''}
+                  </p>
+                )}
+              </div>
               
               <div className="flex gap-2">
                 <Button size="sm" className="flex-1">
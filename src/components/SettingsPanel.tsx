@@ -25,8 +25,10 @@ import {
 } from 'lucide-react';
 import { apiConfigManager } from '../services/apiConfigManager';
 import { toast } from 'sonner';
-import { enhancedForestDataService } from '../services/enhancedForestDataService';
-import { serverSideDataService } from '../services/serverSideDataService';
+import { forestRepository } from '../services/forestRepository';
+import { offlineCache } from '../services/offlineCache';
+import { accessControl } from '../services/accessControl';
+import { ApiKeyVault } from './ApiKeyVault';
 
 interface SettingsPanelProps {
   isOpen: boolean;
@@ -59,6 +61,13 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
   const [isRefreshingApis, setIsRefreshingApis] = useState(false);
   const [noMock, setNoMock] = useState<boolean>(false);
   const [retesting, setRetesting] = useState<Record<string, boolean>>({});
+  const [canManageKeys, setCanManageKeys] = useState(() => accessControl.can('manage_regions'));
+  const [canExport, setCanExport] = useState(() => accessControl.can('export_data'));
+
+  useEffect(() => accessControl.subscribe(() => {
+    setCanManageKeys(accessControl.can('manage_regions'));
+    setCanExport(accessControl.can('export_data'));
+  }), []);
 
   useEffect(() => {
     if (isOpen) {
@@ -90,11 +99,8 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
       if (typeof window !== 'undefined') {
         (window as any).__FOREST_NO_MOCK__ = noMock ? 1 : 0;
       }
-            // Clear caches so any previously cached mock data is removed immediately
-            try {
-              enhancedForestDataService.clearCache();
-              serverSideDataService.clearCache();
-            } catch {}
+      // Reload cached data so any previously cached mock data is removed immediately
+      forestRepository.refresh();
       // Save settings to localStorage
       localStorage.setItem('forest-explorer-settings', JSON.stringify(settings));
       setSaveStatus('success');
@@ -122,7 +128,7 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
           const result = await apiConfigManager.testApiConnection(service);
           statuses[service] = {
             ...result,
-            configured: apiConfigManager.hasApiKey(service as any) || !['openweather', 'nasa_firms', 'sentinel_hub'].includes(service),
+            configured: apiConfigManager.getConfiguredApis().includes(service) || !['openweather', 'nasa_firms', 'sentinel_hub'].includes(service),
             lastTested: new Date().toISOString()
           };
         } catch (error) {
@@ -181,7 +187,7 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
     window.dispatchEvent(event);
   };
 
-  const clearCache = () => {
+  const clearCache = async () => {
     try {
       // Clear localStorage cache
       const keys = Object.keys(localStorage);
@@ -190,6 +196,9 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
           localStorage.removeItem(key);
         }
       });
+      // Drop the offline copies too and reload what is on screen
+      await offlineCache.clear();
+      forestRepository.refresh();
       toast.success('Cache cleared successfully');
     } catch (error) {
       toast.error('Failed to clear cache');
@@ -413,16 +422,18 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                 <div>
                   <div className="flex items-center justify-between mb-3">
                     <h4>API Configuration</h4>
-                    <div className="flex gap-2">
-                      <Button variant="outline" size="sm" onClick={refreshApiKeys} disabled={isRefreshingApis}>
-                        <RefreshCw className={`w-4 h-4 mr-2 ${isRefreshingApis ? 'animate-spin' : ''}`} />
-                        Refresh
-                      </Button>
-                      <Button variant="outline" size="sm" onClick={openApiSetup}>
-                        <Key className="w-4 h-4 mr-2" />
-                        Manage Keys
-                      </Button>
-                    </div>
+                    {canManageKeys && (
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={refreshApiKeys} disabled={isRefreshingApis}>
+                          <RefreshCw className={`w-4 h-4 mr-2 ${isRefreshingApis ? 'animate-spin' : ''}`} />
+                          Refresh
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={openApiSetup}>
+                          <Key className="w-4 h-4 mr-2" />
+                          Manage Keys
+                        </Button>
+                      </div>
+                    )}
                   </div>
                   
                   <div className="space-y-4">
@@ -518,6 +529,12 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                       )}
                     </div>
 
+                    {canManageKeys && (
+                      <div className="p-3 bg-muted/30 rounded-lg">
+                        <ApiKeyVault />
+                      </div>
+                    )}
+
                     <div className="p-3 bg-blue-50 dark:bg-blue-950/20 rounded-lg border border-blue-200 dark:border-blue-800">
                       <div className="flex items-start gap-2">
                         <Key className="w-4 h-4 text-blue-600 dark:text-blue-400 mt-0.5" />
@@ -526,7 +543,9 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                             Need API Keys?
                           </p>
                           <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
-                            Click "Manage Keys" to add your API keys and enable live data from satellites, weather services, and biodiversity databases.
+                            {canManageKeys
+                              ? 'Store your API keys above, or click "Manage Keys" for the setup guide, to enable live data from satellites, weather services, and biodiversity databases.'
+                              : 'API keys are managed by administrators. Ask one to grant your account the manage_regions permission.'}
                           </p>
                         </div>
                       </div>
@@ -546,7 +565,12 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                     </div>
                     
                     <div className="space-y-2">
-                      <Button variant="outline" className="w-full">
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        disabled={!canExport}
+                        title={canExport ? undefined : 'Requires the export_data permission'}
+                      >
                         <Database className="w-4 h-4 mr-2" />
                         Export Data
                       </Button>
@@ -4,5 +4,7 @@
   import React from "react";
   import "./index.css";
   import "leaflet/dist/leaflet.css";
+  import { registerServiceWorker } from "./services/serviceWorker";
 
-  createRoot(document.getElementById("root")!).render(<App />);
\ No newline at end of file
+  createRoot(document.getElementById("root")!).render(<App />);
+  registerServiceWorker();
\ No newline at end of file
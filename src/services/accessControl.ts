@@ -0,0 +1,52 @@
+// Access control for the app - mirrors the worker's permission checks in the UI
+// Permissions come from the signed-in user's worker profile; signed-out visitors get the volunteer
+// role's read-only set. Hiding a control is only a courtesy: the worker enforces the same
+// permissions on every protected route.
+import { permissionsFor, AccessRole, UserPermission, UserProfile } from './forestDomain';
+
+const PERMISSIONS_CHANGED_EVENT = 'permissionsChanged';
+const ANONYMOUS_ROLE: AccessRole = 'volunteer';
+
+export class AccessControlService {
+  private static instance: AccessControlService;
+  private profile: UserProfile | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): AccessControlService {
+    if (!AccessControlService.instance) {
+      AccessControlService.instance = new AccessControlService();
+    }
+    return AccessControlService.instance;
+  }
+
+  // Called when the profile is loaded, saved or cleared on sign-out
+  public setProfile(profile: UserProfile | null): void {
+    this.profile = profile;
+    console.log(`🔐 Access role: ${this.getRole()} (${this.getPermissions().join(', ') || 'no permissions'})`);
+    window.dispatchEvent(new CustomEvent(PERMISSIONS_CHANGED_EVENT, { detail: this.getPermissions() }));
+  }
+
+  public getRole(): AccessRole {
+    return this.profile?.accessRole ?? ANONYMOUS_ROLE;
+  }
+
+  public getPermissions(): UserPermission[] {
+    return this.profile ? this.profile.permissions : permissionsFor(ANONYMOUS_ROLE);
+  }
+
+  public can(permission: UserPermission): boolean {
+    return this.getPermissions().includes(permission);
+  }
+
+  // Runs the listener whenever the permissions change; returns the unsubscribe function, so it
+  // can be returned straight from a useEffect
+  public subscribe(listener: (permissions: UserPermission[]) => void): () => void {
+    const handler = () => listener(this.getPermissions());
+    window.addEventListener(PERMISSIONS_CHANGED_EVENT, handler);
+    return () => window.removeEventListener(PERMISSIONS_CHANGED_EVENT, handler);
+  }
+}
+
+// Export singleton instance
+export const accessControl = AccessControlService.getInstance();
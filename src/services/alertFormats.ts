@@ -0,0 +1,162 @@
+// Alert export formats
+// GeoJSON, CSV and KML renderings of alert lists for GIS tools (QGIS, Google Earth). Used by the
+// worker's alert endpoints and by the map's download buttons, so it must stay free of DOM and
+// worker APIs. Every format carries the same flat columns: the alert fields, then any metadata
+// fields prefixed with `meta_`.
+import type { ForestAlert } from './forestDomain';
+
+export const ALERT_FORMATS = {
+  json: { contentType: 'application/json', extension: 'json' },
+  geojson: { contentType: 'application/geo+json', extension: 'geojson' },
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  kml: { contentType: 'application/vnd.google-earth.kml+xml', extension: 'kml' },
+} as const;
+
+export type AlertFormat = keyof typeof ALERT_FORMATS;
+
+const MEDIA_TYPES: Record<string, AlertFormat> = {
+  'application/json': 'json',
+  'application/geo+json': 'geojson',
+  'application/vnd.geo+json': 'geojson',
+  'text/csv': 'csv',
+  'application/vnd.google-earth.kml+xml': 'kml',
+  'application/*': 'json',
+  '*/*': 'json',
+};
+
+type FlatValue = string | number | boolean | null;
+
+const BASE_COLUMNS = ['id', 'timestamp', 'type', 'severity', 'confidence', 'latitude', 'longitude', 'location', 'description'];
+
+// An explicit `format` wins over Accept; returns null for a format we do not produce
+export function negotiateAlertFormat(format: string | null, accept: string | null): AlertFormat | null {
+  if (format) {
+    const requested = format.trim().toLowerCase();
+    return requested in ALERT_FORMATS ? requested as AlertFormat : null;
+  }
+  if (!accept) return 'json';
+  const ranked = accept.split(',')
+    .map((part, index) => {
+      const [mediaType, ...params] = part.trim().toLowerCase().split(';');
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+      return { mediaType: mediaType.trim(), q: q ? parseFloat(q.slice(2)) || 0 : 1, index };
+    })
+    .filter((entry) => entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+  for (const { mediaType } of ranked) {
+    if (MEDIA_TYPES[mediaType]) return MEDIA_TYPES[mediaType];
+  }
+  return 'json';
+}
+
+function flattenAlert(alert: ForestAlert): Record<string, FlatValue> {
+  const row: Record<string, FlatValue> = {
+    id: alert.id,
+    timestamp: alert.timestamp,
+    type: alert.type,
+    severity: alert.severity,
+    confidence: alert.confidence,
+    latitude: alert.coordinates.lat,
+    longitude: alert.coordinates.lng,
+    location: alert.location,
+    description: alert.description,
+  };
+  for (const [key, value] of Object.entries<unknown>(alert.metadata || {})) {
+    if (value === undefined) continue;
+    row[`meta_${key}`] = value === null || typeof value !== 'object' ? value as FlatValue : JSON.stringify(value);
+  }
+  return row;
+}
+
+function columnsOf(rows: Record<string, FlatValue>[]): string[] {
+  const extra = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) if (!BASE_COLUMNS.includes(key)) extra.add(key);
+  }
+  return [...BASE_COLUMNS, ...[...extra].sort()];
+}
+
+export function alertsToGeoJson(alerts: ForestAlert[]): object {
+  return {
+    type: 'FeatureCollection',
+    features: alerts.map((alert) => {
+      const { latitude, longitude, ...properties } = flattenAlert(alert);
+      return {
+        type: 'Feature',
+        id: alert.id,
+        geometry: { type: 'Point', coordinates: [longitude, latitude] },
+        properties,
+      };
+    }),
+  };
+}
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+function csvField(value: FlatValue | undefined): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function alertsToCsv(alerts: ForestAlert[]): string {
+  const rows = alerts.map(flattenAlert);
+  const columns = columnsOf(rows);
+  const lines = [columns.join(','), ...rows.map((row) => columns.map((column) => csvField(row[column])).join(','))];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+function xmlEscape(value: FlatValue | undefined): string {
+  return String(value ?? '').replace(/[<>&'"]/g, (char) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[char]!));
+}
+
+const KML_SEVERITY_COLORS: Record<string, string> = {
+  // KML colours are aabbggrr
+  critical: 'ff4444ef',
+  high: 'ff1673f9',
+  medium: 'ff08b3ea',
+  low: 'ff5ec522',
+};
+
+export function alertsToKml(alerts: ForestAlert[], name: string = 'Forest alerts'): string {
+  const styles = Object.entries(KML_SEVERITY_COLORS).map(([severity, color]) =>
+    `    <Style id="${severity}"><IconStyle><color>${color}</color><Icon><href>https://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon></IconStyle></Style>`);
+  const placemarks = alerts.map((alert) => {
+    const row = flattenAlert(alert);
+    const data = Object.entries(row)
+      .filter(([key, value]) => value !== null && key !== 'latitude' && key !== 'longitude')
+      .map(([key, value]) => `        <Data name="${xmlEscape(key)}"><value>${xmlEscape(value)}</value></Data>`);
+    return [
+      '    <Placemark>',
+      `      <name>${xmlEscape(`${alert.type} - ${alert.location}`)}</name>`,
+      `      <description>${xmlEscape(alert.description)}</description>`,
+      `      <TimeStamp><when>${xmlEscape(alert.timestamp)}</when></TimeStamp>`,
+      `      <styleUrl>#${xmlEscape(alert.severity)}</styleUrl>`,
+      '      <ExtendedData>',
+      ...data,
+      '      </ExtendedData>',
+      `      <Point><coordinates>${alert.coordinates.lng},${alert.coordinates.lat}</coordinates></Point>`,
+      '    </Placemark>',
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${xmlEscape(name)}</name>`,
+    ...styles,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+// Body of an alert list in the given format (JSON is the bare array)
+export function formatAlerts(alerts: ForestAlert[], format: AlertFormat, name?: string): string {
+  switch (format) {
+    case 'geojson': return JSON.stringify(alertsToGeoJson(alerts));
+    case 'csv': return alertsToCsv(alerts);
+    case 'kml': return alertsToKml(alerts, name);
+    default: return JSON.stringify(alerts);
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFireSeverity, firmsDetectionId, hashString, parseFireCsvData } from './alertParsers';
+
+const VIIRS_CSV = [
+  'latitude,longitude,bright_ti4,scan,track,acq_date,acq_time,satellite,instrument,confidence,version,bright_ti5,frp,daynight',
+  '-3.12345,-62.98765,330.1,0.4,0.4,2026-10-17,135,N,VIIRS,h,2.0NRT,290.2,55.3,N',
+  '-3.5,-63.25,301.7,0.4,0.4,2026-10-17,1742,N,VIIRS,l,2.0NRT,288.1,1.2,D',
+].join('\n');
+
+describe('parseFireCsvData', () => {
+  it('reads VIIRS rows through the header', () => {
+    const [latest, earliest] = parseFireCsvData(VIIRS_CSV, 'VIIRS_SNPP_NRT');
+
+    expect(latest).toMatchObject({
+      id: 'fire_VIIRS_SNPP_NRT_2026-10-17_1742_-3.5000_-63.2500',
+      timestamp: '2026-10-17T17:42:00.000Z',
+      confidence: 30,
+      severity: 'low',
+      coordinates: { lat: -3.5, lng: -63.25 },
+    });
+    expect(earliest).toMatchObject({
+      timestamp: '2026-10-17T01:35:00.000Z',
+      confidence: 95,
+      severity: 'critical',
+      location: 'Amazon Basin, Brazil',
+    });
+    expect(earliest.metadata).toMatchObject({
+      frp: 55.3,
+      brightness: 330.1,
+      brightnessT31: 290.2,
+      acqTime: '0135',
+      satellite: 'Suomi NPP',
+      instrument: 'VIIRS',
+      dayNight: 'night',
+      confidenceRaw: 'h',
+      dataset: 'VIIRS_SNPP_NRT',
+    });
+  });
+
+  it('reads MODIS columns in any order', () => {
+    const csv = [
+      'acq_time,acq_date,confidence,frp,satellite,longitude,latitude,brightness,bright_t31',
+      '0930,2026-10-16,82,30.5,T,15.5,0.5,320.4,295.1',
+    ].join('\n');
+
+    const [alert] = parseFireCsvData(csv, 'MODIS_NRT');
+    expect(alert).toMatchObject({
+      id: 'fire_MODIS_NRT_2026-10-16_0930_0.5000_15.5000',
+      timestamp: '2026-10-16T09:30:00.000Z',
+      confidence: 82,
+      severity: 'high',
+      coordinates: { lat: 0.5, lng: 15.5 },
+    });
+    expect(alert.metadata).toMatchObject({ brightness: 320.4, brightnessT31: 295.1, satellite: 'Terra', instrument: 'MODIS' });
+  });
+
+  it('drops rows without a position or an acquisition time', () => {
+    const csv = [
+      'latitude,longitude,acq_date,acq_time,frp',
+      ',-62.9,2026-10-17,0135,5',
+      '-3.1,-62.9,,0135,5',
+      '-3.1,-62.9,2026-10-17,,5',
+      '-3.1,-62.9,2026-10-17,0135,5',
+    ].join('\n');
+
+    expect(parseFireCsvData(csv, 'VIIRS_NOAA20_NRT')).toHaveLength(1);
+  });
+
+  it('gives the same detection the same id on every fetch', () => {
+    expect(parseFireCsvData(VIIRS_CSV, 'VIIRS_SNPP_NRT').map((alert) => alert.id))
+      .toEqual(parseFireCsvData(`${VIIRS_CSV}\n`, 'VIIRS_SNPP_NRT').map((alert) => alert.id));
+  });
+
+  it('rejects a response without coordinate columns', () => {
+    expect(() => parseFireCsvData('Invalid MAP_KEY.', 'MODIS_NRT')).toThrow(/Unexpected NASA FIRMS response/);
+  });
+
+  it('returns nothing for an empty response', () => {
+    expect(parseFireCsvData('', 'MODIS_NRT')).toEqual([]);
+  });
+});
+
+describe('firmsDetectionId', () => {
+  it('tells apart detections one grid step apart', () => {
+    const ids = new Set<string>();
+    for (let i = 0; i < 1000; i++) ids.add(firmsDetectionId('VIIRS_SNPP_NRT', '2026-10-17', '0135', -3 + i * 0.0001, -62));
+    expect(ids.size).toBe(1000);
+  });
+});
+
+describe('calculateFireSeverity', () => {
+  it('grades by radiative power and confidence', () => {
+    expect(calculateFireSeverity(5, 95)).toBe('low');
+    expect(calculateFireSeverity(15, 65)).toBe('medium');
+    expect(calculateFireSeverity(30, 75)).toBe('high');
+    expect(calculateFireSeverity(60, 90)).toBe('critical');
+  });
+
+  it('raises the severity one step per extra confirming sensor', () => {
+    expect(calculateFireSeverity(5, 95, 2)).toBe('medium');
+    expect(calculateFireSeverity(5, 95, 3)).toBe('high');
+    expect(calculateFireSeverity(60, 90, 3)).toBe('critical');
+  });
+});
+
+describe('hashString', () => {
+  it('is a stable 64-bit hex digest', () => {
+    expect(hashString('')).toBe('cbf29ce484222325');
+    expect(hashString('a')).toBe('af63dc4c8601ec8c');
+    expect(hashString('fire_a|fire_b')).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
@@ -0,0 +1,191 @@
+// Upstream alert parsers
+// Turn raw NASA FIRMS and GFW integrated alert responses into ForestAlerts. Used by the worker and by the browser's direct
+// provider, so both give the same alert the same id and timestamp; it must stay free of DOM and
+// worker APIs. Ids are derived from what the upstream reports, never from the time of the fetch,
+// so the same detection keeps its id across polls, caches and the alert store. They spell the
+// detection out rather than hash it: the store upserts by id, so two detections must never share
+// one (migrations/0007_alert_ids.sql rebuilds the same ids for rows stored before).
+import type { ForestAlert, Severity } from './forestDomain';
+
+export const FIRMS_DATASETS = ['MODIS_NRT', 'VIIRS_SNPP_NRT', 'VIIRS_NOAA20_NRT'];
+
+// Integrated alert confidence classes mapped onto the 0-100 scale used by the other sources
+const INTEGRATED_ALERT_CONFIDENCE: Record<string, number> = { nominal: 60, high: 85, highest: 95 };
+const INTEGRATED_ALERT_SEVERITY: Record<string, Severity> = { nominal: 'low', high: 'medium', highest: 'high' };
+
+// FIRMS column names differ between products (MODIS reports brightness/bright_t31 and a
+// 0-100 confidence, VIIRS reports bright_ti4/bright_ti5 and an l/n/h class), and the
+// column order is not guaranteed, so fields are always looked up through the header row.
+export function parseFireCsvData(csvData: string, dataset: string): ForestAlert[] {
+  const lines = csvData.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map((h) => h.trim().toLowerCase());
+  const col = (name: string) => header.indexOf(name);
+  const latIdx = col('latitude');
+  const lngIdx = col('longitude');
+  if (latIdx === -1 || lngIdx === -1) {
+    throw new Error(`Unexpected NASA FIRMS response: ${lines[0].slice(0, 120)}`);
+  }
+
+  const alerts: ForestAlert[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const fields = lines[i].split(',').map((f) => f.trim());
+    const field = (...names: string[]) => {
+      for (const name of names) {
+        const idx = col(name);
+        if (idx !== -1 && fields[idx] !== undefined && fields[idx] !== '') return fields[idx];
+      }
+      return '';
+    };
+
+    const lat = parseFloat(fields[latIdx]);
+    const lng = parseFloat(fields[lngIdx]);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+
+    const acqDate = field('acq_date');
+    const rawTime = field('acq_time');
+    const acqTime = rawTime && rawTime.padStart(4, '0');
+    // Rows without an acquisition time are dropped rather than stamped with the time of the fetch
+    const timestamp = parseFirmsAcquisitionTime(acqDate, acqTime);
+    if (!timestamp) continue;
+    const satellite = field('satellite');
+    const instrument = field('instrument') || (dataset.startsWith('MODIS') ? 'MODIS' : 'VIIRS');
+    const rawConfidence = field('confidence');
+    const confidence = normalizeFirmsConfidence(rawConfidence);
+    const frp = parseFloat(field('frp')) || 0;
+    const brightness = parseFloat(field('brightness', 'bright_ti4'));
+    const brightnessT31 = parseFloat(field('bright_t31', 'bright_ti5'));
+    const dayNight = field('daynight').toUpperCase() === 'N' ? 'night' : 'day';
+
+    alerts.push({
+      id: firmsDetectionId(dataset, acqDate, acqTime, lat, lng),
+      timestamp,
+      location: getLocationName(lat, lng),
+      type: 'fire',
+      severity: calculateFireSeverity(frp, confidence),
+      confidence,
+      description: `Fire detected by ${instrument} (${getSatelliteName(satellite)}) with ${frp.toFixed(1)} MW radiative power`,
+      coordinates: { lat, lng },
+      metadata: {
+        frp,
+        brightness: Number.isFinite(brightness) ? brightness : undefined,
+        brightnessT31: Number.isFinite(brightnessT31) ? brightnessT31 : undefined,
+        scan: parseFloat(field('scan')) || undefined,
+        track: parseFloat(field('track')) || undefined,
+        acqDate,
+        acqTime,
+        satellite: getSatelliteName(satellite),
+        instrument,
+        dayNight,
+        confidenceRaw: rawConfidence,
+        version: field('version') || undefined,
+        dataset,
+      },
+    });
+  }
+
+  return alerts.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+// Integrated alerts are 10-30 m pixels with an alert date and a nominal/high/highest class.
+// Rows without a location or date are dropped rather than placed somewhere arbitrary.
+export function parseIntegratedAlertsData(data: any, location: string, metadata: Record<string, unknown> = {}): ForestAlert[] {
+  const rows: any[] = Array.isArray(data?.data) ? data.data : [];
+  const alerts: ForestAlert[] = [];
+  for (const row of rows) {
+    if (row?.latitude == null || row?.longitude == null) continue;
+    const lat = Number(row.latitude);
+    const lng = Number(row.longitude);
+    const date = String(row.gfw_integrated_alerts__date || '');
+    const time = Date.parse(`${date}T00:00:00Z`);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Number.isNaN(time)) continue;
+    const confidenceClass = String(row.gfw_integrated_alerts__confidence || 'nominal').toLowerCase();
+    alerts.push({
+      id: integratedAlertId(date, lat, lng),
+      timestamp: new Date(time).toISOString(),
+      location,
+      type: 'deforestation',
+      severity: INTEGRATED_ALERT_SEVERITY[confidenceClass] || 'low',
+      confidence: INTEGRATED_ALERT_CONFIDENCE[confidenceClass] ?? INTEGRATED_ALERT_CONFIDENCE.nominal,
+      description: `Integrated deforestation alert (${confidenceClass} confidence)`,
+      coordinates: { lat, lng },
+      metadata: { date, confidenceClass, dataset: 'gfw_integrated_alerts', ...metadata },
+    });
+  }
+  return alerts;
+}
+
+// One detection of one dataset: a satellite sees a place once per overpass, so the dataset,
+// acquisition minute and position identify it
+export function firmsDetectionId(dataset: string, acqDate: string, acqTime: string, lat: number, lng: number): string {
+  return `fire_${dataset}_${acqDate}_${acqTime}_${lat.toFixed(4)}_${lng.toFixed(4)}`;
+}
+
+// One alert pixel on one date, whichever area or provider it was fetched through
+export function integratedAlertId(date: string, lat: number, lng: number): string {
+  return `deforest_${date}_${lat.toFixed(5)}_${lng.toFixed(5)}`;
+}
+
+function parseFirmsAcquisitionTime(acqDate: string, acqTime: string): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(acqDate) || !/^\d{4}$/.test(acqTime)) return null;
+  const date = new Date(`${acqDate}T${acqTime.slice(0, 2)}:${acqTime.slice(2)}:00Z`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// VIIRS reports confidence as a class; map it onto the 0-100 scale MODIS uses
+function normalizeFirmsConfidence(raw: string): number {
+  switch (raw.toLowerCase()) {
+    case 'l':
+    case 'low':
+      return 30;
+    case 'n':
+    case 'nominal':
+      return 70;
+    case 'h':
+    case 'high':
+      return 95;
+  }
+  const value = parseFloat(raw);
+  return Number.isFinite(value) ? value : 0;
+}
+
+function getSatelliteName(code: string): string {
+  switch (code.toUpperCase()) {
+    case 'T': return 'Terra';
+    case 'A': return 'Aqua';
+    case 'N': return 'Suomi NPP';
+    case '1': return 'NOAA-20';
+    case '2': return 'NOAA-21';
+    default: return code || 'Unknown';
+  }
+}
+
+// Each additional independent sensor that saw the same fire raises the severity one step
+export function calculateFireSeverity(frp: number, confidence: number, confirmations: number = 1): Severity {
+  const levels = ['low', 'medium', 'high', 'critical'] as const;
+  let level = 0;
+  if (frp > 50 && confidence > 80) level = 3;
+  else if (frp > 25 && confidence > 70) level = 2;
+  else if (frp > 10 && confidence > 60) level = 1;
+  return levels[Math.min(levels.length - 1, level + Math.max(0, confirmations - 1))];
+}
+
+export function getLocationName(lat: number, lng: number): string {
+  if (lat < -3 && lat > -5 && lng < -60 && lng > -65) return 'Amazon Basin, Brazil';
+  if (lat < 2 && lat > -2 && lng > 14 && lng < 17) return 'Congo Basin, DRC';
+  if (lat > 60 && lng < -150) return 'Boreal Forest, Canada';
+  if (lat > 0 && lat < 5 && lng > 100 && lng < 110) return 'Southeast Asian Rainforest';
+  return `Forest Region (${lat.toFixed(2)}, ${lng.toFixed(2)})`;
+}
+
+// 64-bit FNV-1a for keys too long to spell out (fused event members, polygons): synchronous and
+// stable across isolates, and wide enough that a few million keys are not expected to collide
+export function hashString(input: string): string {
+  let hash = 0xcbf29ce484222325n;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= BigInt(input.charCodeAt(i));
+    hash = BigInt.asUintN(64, hash * 0x100000001b3n);
+  }
+  return hash.toString(16).padStart(16, '0');
+}
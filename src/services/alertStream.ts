@@ -0,0 +1,184 @@
+// Live alert feed - alerts pushed by the worker's /alerts/stream as they are stored, with polling as
+// the fallback. The stream reads the worker's alert store, so it needs a signed-in user with
+// view_alerts; it is read with fetch rather than EventSource so the bearer token can be sent. Each
+// reconnect resumes from the last event id, so nothing is missed or repeated. Signed out, or after
+// repeated stream failures, the forest alerts are polled instead and only unseen ones are passed
+// on; the stream is tried again every STREAM_RETRY_MS.
+import { forestRepository } from './forestRepository';
+import { workerClient } from './workerClient';
+import { createProvenance, withProvenance } from './forestDomain';
+import { parseServerSentEvent, splitServerSentEvents } from './serverSentEvents';
+import { getAccessToken } from '../utils/supabase/client';
+import type { ForestAlert } from './forestDomain';
+import type { ServerSentEvent } from './serverSentEvents';
+
+export type AlertFeedStatus = 'stopped' | 'connecting' | 'live' | 'polling';
+
+export const ALERT_FEED_STATUS_EVENT = 'alertFeedStatus';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+const STREAM_RETRY_MS = 5 * 60 * 1000;
+const RECONNECT_DELAY_MS = 3 * 1000;
+const MAX_STREAM_FAILURES = 3;
+const MAX_SEEN_IDS = 5000;
+
+class StreamError extends Error {
+  constructor(readonly status: number) {
+    super(`Alert stream failed with HTTP ${status}`);
+  }
+}
+
+export class AlertStreamService {
+  private listeners = new Set<(alerts: ForestAlert[]) => void>();
+  private status: AlertFeedStatus = 'stopped';
+  private controller: AbortController | null = null;
+  // Id of the last stream event; the worker resumes after it
+  private cursor: string | null = null;
+  private seen = new Set<string>();
+
+  // Runs the listener with each batch of new alerts. The feed runs while anyone is subscribed.
+  // Returns the unsubscribe function, so it can be returned straight from a useEffect.
+  public subscribe(listener: (alerts: ForestAlert[]) => void): () => void {
+    this.listeners.add(listener);
+    if (!this.controller) {
+      this.controller = new AbortController();
+      this.run(this.controller.signal);
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.controller?.abort();
+        this.controller = null;
+        this.setStatus('stopped');
+      }
+    };
+  }
+
+  public getStatus(): AlertFeedStatus {
+    return this.status;
+  }
+
+  // Runs the listener whenever getStatus() changes; returns the unsubscribe function
+  public subscribeStatus(listener: (status: AlertFeedStatus) => void): () => void {
+    const handler = () => listener(this.status);
+    window.addEventListener(ALERT_FEED_STATUS_EVENT, handler);
+    return () => window.removeEventListener(ALERT_FEED_STATUS_EVENT, handler);
+  }
+
+  private async run(signal: AbortSignal): Promise<void> {
+    // Alerts already on screen came from the repository; only later ones are new
+    const current = await forestRepository.getForestAlerts({ signal }).catch(() => []);
+    current.forEach((alert) => this.remember(alert));
+
+    let failures = 0;
+    while (!signal.aborted) {
+      const token = await getAccessToken().catch(() => null);
+      if (!token || failures >= MAX_STREAM_FAILURES) {
+        this.setStatus('polling');
+        await this.poll(Date.now() + STREAM_RETRY_MS, signal);
+        failures = 0;
+        continue;
+      }
+
+      if (this.status !== 'live') this.setStatus('connecting');
+      try {
+        await this.readStream(token, signal);
+        failures = 0;
+      } catch (error) {
+        if (signal.aborted) return;
+        const status = error instanceof StreamError ? error.status : 0;
+        // A rejected cursor is dropped; missing permission or store will not change on retry
+        if (status === 400) this.cursor = null;
+        failures = status === 401 || status === 403 || status === 503 ? MAX_STREAM_FAILURES : failures + 1;
+        console.log('ℹ️ Alert stream interrupted:', (error as any)?.message || error);
+        if (this.status === 'live') this.setStatus('connecting');
+      }
+      await delay(RECONNECT_DELAY_MS, signal);
+    }
+  }
+
+  // Reads events until the worker ends the stream
+  private async readStream(token: string, signal: AbortSignal): Promise<void> {
+    const response = await workerClient.fetch('/alerts/stream', {
+      query: { since: this.cursor ?? undefined },
+      headers: { 'Accept': 'text/event-stream', 'Authorization': `Bearer ${token}` },
+      signal,
+    });
+    if (!response.ok || !response.body) throw new StreamError(response.status);
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      const { blocks, rest } = splitServerSentEvents(buffer + value);
+      buffer = rest;
+      blocks.forEach((block) => this.handleEvent(parseServerSentEvent(block)));
+    }
+  }
+
+  private handleEvent({ event, id, data }: ServerSentEvent): void {
+    if (id !== undefined) this.cursor = id;
+    if (event === 'ready') this.setStatus('live');
+    if (event === 'alert' && data) {
+      const { source, ...alert } = JSON.parse(data);
+      this.emit(withProvenance([alert as ForestAlert], createProvenance(source || 'alert-store')));
+    }
+  }
+
+  private async poll(until: number, signal: AbortSignal): Promise<void> {
+    while (!signal.aborted && Date.now() < until) {
+      await delay(POLL_INTERVAL_MS, signal);
+      if (signal.aborted) return;
+      try {
+        this.emit(await forestRepository.getForestAlerts({ signal, fresh: true }));
+      } catch (error) {
+        if (!signal.aborted) console.log('ℹ️ Alert poll failed:', (error as any)?.message || error);
+      }
+    }
+  }
+
+  private emit(alerts: ForestAlert[]): void {
+    const fresh = alerts.filter((alert) => !this.seen.has(alert.id) && !this.seen.has(observationKey(alert)));
+    if (fresh.length === 0) return;
+    fresh.forEach((alert) => this.remember(alert));
+    if (this.seen.size > MAX_SEEN_IDS) this.seen = new Set([...this.seen].slice(-MAX_SEEN_IDS / 2));
+    this.listeners.forEach((listener) => listener(fresh));
+  }
+
+  private remember(alert: ForestAlert): void {
+    this.seen.add(alert.id);
+    this.seen.add(observationKey(alert));
+  }
+
+  private setStatus(status: AlertFeedStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    console.log(`📡 Alert feed ${status}`);
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(ALERT_FEED_STATUS_EVENT));
+  }
+}
+
+// What was observed, where and when: matches the same alert even if a provider ids it differently
+function observationKey(alert: ForestAlert): string {
+  const { lat, lng } = alert.coordinates ?? { lat: 0, lng: 0 };
+  return `${alert.type}|${lat.toFixed(4)}|${lng.toFixed(4)}|${alert.timestamp}`;
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  // The signal lives as long as the feed, so the abort listener goes when the timer fires
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Export singleton instance
+export const alertStream = new AlertStreamService();
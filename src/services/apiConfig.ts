@@ -37,9 +37,12 @@ export const API_CONFIG = {
   // Global Forest Watch API
   GLOBAL_FOREST_WATCH: {
     BASE_URL: 'https://production-api.globalforestwatch.org',
+    DATA_API_URL: 'https://data-api.globalforestwatch.org',
+    GEOSTORE_URL: 'https://api.resourcewatch.org/v2/geostore/admin',
     ENDPOINTS: {
       FOREST_LOSS: '/v1/forest-change/umd-loss-gain',
       GLAD_ALERTS: '/v1/glad-alerts/admin',
+      INTEGRATED_ALERTS: '/dataset/gfw_integrated_alerts/latest/query/json',
       FOREST_COVER: '/v1/forest-cover',
       TREE_COVER: '/v1/forest-change/tree-cover'
     }
@@ -78,7 +81,10 @@ export const RATE_LIMITS = {
 export const CACHE_DURATIONS = {
   SATELLITE_DATA: 30 * 60 * 1000, // 30 minutes
   FIRE_DATA: 15 * 60 * 1000, // 15 minutes
+  DEFORESTATION_DATA: 6 * 60 * 60 * 1000, // 6 hours - GFW integrated alerts update daily
   WEATHER_DATA: 10 * 60 * 1000, // 10 minutes
   FOREST_DATA: 24 * 60 * 60 * 1000, // 24 hours
-  SPECIES_DATA: 24 * 60 * 60 * 1000 // 24 hours
+  SPECIES_DATA: 24 * 60 * 60 * 1000, // 24 hours
+  FALLBACK_DATA: 60 * 1000, // 1 minute - mock/fallback payloads
+  STALE_DATA: 7 * 24 * 60 * 60 * 1000 // 7 days - last good upstream copy served while refreshing
 };
\ No newline at end of file
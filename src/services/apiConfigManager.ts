@@ -1,9 +1,18 @@
 // API Configuration Manager - handles API keys and switching between mock/live data
+// Keys users add are kept in the worker's key vault and referenced by id; the browser only ever
+// holds keys provided at build time (VITE_*), which it may use for direct upstream calls.
 import { API_CONFIG } from './apiConfig';
+import { workerClient } from './workerClient';
+import { getAccessToken } from '../utils/supabase/client';
+import type { ApiKeyService, ApiKeySubmission, ApiKeySummary } from './forestDomain';
+
+// Where earlier versions kept user keys in plain text
+const LEGACY_KEYS_STORAGE = 'forest-explorer-api-keys';
 
 interface StoredApiKeys {
   nasa_firms?: string;
   openweather?: string;
+  global_forest_watch?: string;
   sentinel_hub_client_id?: string;
   sentinel_hub_client_secret?: string;
 }
@@ -11,6 +20,7 @@ interface StoredApiKeys {
 export class ApiConfigManager {
   private static instance: ApiConfigManager;
   private apiKeys: StoredApiKeys = {};
+  private storedKeys: ApiKeySummary[] = [];
   private useLiveData: boolean = false;
   private noMock: boolean = false;
 
@@ -28,23 +38,21 @@ export class ApiConfigManager {
 
   private loadApiKeys(): void {
     try {
-      const saved = localStorage.getItem('forest-explorer-api-keys');
-      const parsedKeys = saved ? JSON.parse(saved) : {};
+      if (localStorage.getItem(LEGACY_KEYS_STORAGE)) {
+        localStorage.removeItem(LEGACY_KEYS_STORAGE);
+        console.warn('🔑 Removed API keys saved in this browser; add them again under Settings → APIs to store them in the key vault');
+      }
 
       // Read environment-provided keys (Vite)
       const envKeys: StoredApiKeys = {
         nasa_firms: (import.meta as any).env?.VITE_NASA_FIRMS_API_KEY,
         openweather: (import.meta as any).env?.VITE_OPENWEATHER_API_KEY,
+        global_forest_watch: (import.meta as any).env?.VITE_GFW_API_KEY,
         sentinel_hub_client_id: (import.meta as any).env?.VITE_SENTINEL_HUB_CLIENT_ID,
         sentinel_hub_client_secret: (import.meta as any).env?.VITE_SENTINEL_HUB_CLIENT_SECRET,
       };
 
-      this.apiKeys = {
-        nasa_firms: parsedKeys.nasa_firms?.value || envKeys.nasa_firms,
-        openweather: parsedKeys.openweather?.value || envKeys.openweather,
-        sentinel_hub_client_id: parsedKeys.sentinel_hub?.value || envKeys.sentinel_hub_client_id,
-        sentinel_hub_client_secret: parsedKeys.sentinel_hub_secret?.value || envKeys.sentinel_hub_client_secret,
-      };
+      this.apiKeys = envKeys;
 
       // Enable live data if any API keys are present
       this.useLiveData = Object.values(this.apiKeys).some(key => key && key.length > 0);
@@ -74,7 +82,69 @@ export class ApiConfigManager {
   }
 
   public shouldUseLiveData(): boolean {
-    return this.useLiveData && Object.values(this.apiKeys).some(key => key && key.length > 0);
+    return (this.useLiveData && Object.values(this.apiKeys).some(key => key && key.length > 0)) || this.storedKeys.length > 0;
+  }
+
+  // Signed-in user's keys in the worker's key vault (ids and hints only), newest first
+  public async loadStoredKeys(): Promise<ApiKeySummary[]> {
+    const accessToken = await getAccessToken();
+    if (!accessToken) {
+      this.clearStoredKeys();
+      return [];
+    }
+    const response = await workerClient.request('/api-keys', { headers: { 'Authorization': `Bearer ${accessToken}` } });
+    if (!response.success || !Array.isArray(response.data)) {
+      throw new Error(response.error || 'Failed to load stored keys');
+    }
+    this.storedKeys = response.data;
+    console.log(`🔑 ${this.storedKeys.length} stored API key(s) available`);
+    window.dispatchEvent(new CustomEvent('apiKeysRefreshed'));
+    return this.storedKeys;
+  }
+
+  public clearStoredKeys(): void {
+    if (this.storedKeys.length === 0) return;
+    this.storedKeys = [];
+    window.dispatchEvent(new CustomEvent('apiKeysRefreshed'));
+  }
+
+  public getStoredKeys(): ApiKeySummary[] {
+    return this.storedKeys;
+  }
+
+  public async storeApiKey(submission: ApiKeySubmission): Promise<ApiKeySummary> {
+    const accessToken = await getAccessToken();
+    if (!accessToken) throw new Error('Sign in to store API keys');
+    const response = await workerClient.request('/api-keys', {
+      method: 'post',
+      body: submission,
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    });
+    if (!response.success || !response.data || Array.isArray(response.data)) {
+      throw new Error([response.error, response.details].filter(Boolean).join(': ') || 'Failed to store key');
+    }
+    await this.loadStoredKeys();
+    return response.data;
+  }
+
+  public async deleteStoredKey(id: string): Promise<void> {
+    const accessToken = await getAccessToken();
+    if (!accessToken) throw new Error('Sign in to manage API keys');
+    const response = await workerClient.request('/api-keys/{id}', {
+      method: 'delete',
+      params: { id },
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    });
+    if (!response.success) throw new Error(response.error || 'Failed to delete key');
+    await this.loadStoredKeys();
+  }
+
+  // key_id and bearer token for worker routes backed by `service`, when the user stored a key for it
+  public async storedKeyAuth(service: string): Promise<{ keyId?: string; headers?: Record<string, string> }> {
+    const stored = this.storedKeys.find((key) => key.service === service as ApiKeyService);
+    if (!stored) return {};
+    const accessToken = await getAccessToken();
+    return accessToken ? { keyId: stored.id, headers: { 'Authorization': `Bearer ${accessToken}` } } : {};
   }
 
   public isNoMockEnabled(): boolean {
@@ -90,12 +160,14 @@ export class ApiConfigManager {
 
   public getConfiguredApis(): string[] {
     const configured: string[] = [];
-    if (this.apiKeys.nasa_firms && this.apiKeys.nasa_firms.length > 0) configured.push('nasa_firms');
-    if (this.apiKeys.openweather && this.apiKeys.openweather.length > 0) configured.push('openweather');
+    const stored = new Set(this.storedKeys.map((key) => key.service));
+    if ((this.apiKeys.nasa_firms && this.apiKeys.nasa_firms.length > 0) || stored.has('nasa_firms')) configured.push('nasa_firms');
+    if ((this.apiKeys.openweather && this.apiKeys.openweather.length > 0) || stored.has('openweather')) configured.push('openweather');
     if (
       this.apiKeys.sentinel_hub_client_id && this.apiKeys.sentinel_hub_client_id.length > 0 &&
       this.apiKeys.sentinel_hub_client_secret && this.apiKeys.sentinel_hub_client_secret.length > 0
     ) configured.push('sentinel_hub');
+    if ((this.apiKeys.global_forest_watch && this.apiKeys.global_forest_watch.length > 0) || stored.has('global_forest_watch')) configured.push('global_forest_watch');
     return configured;
   }
 
@@ -119,60 +191,41 @@ export class ApiConfigManager {
     };
   }
 
+  // Worker request that exercises each upstream service, or null when the service has no worker route
+  public getConnectionTestUrl(service: string, keyId?: string): string | null {
+    switch (service) {
+      case 'openweather': return workerClient.url('/weather', { lat: 51.5074, lng: -0.1278, key_id: keyId }); // London
+      case 'nasa_firms': return workerClient.url('/fire-alerts', { region: 'world', days: 1, key_id: keyId });
+      case 'nasa_gibs': return workerClient.url('/satellite-data', { lat: 0, lng: 0 });
+      case 'global_forest_watch': return workerClient.url('/deforestation-alerts', { region: 'BRA', key_id: keyId });
+      case 'gbif': return workerClient.url('/biodiversity', { region: 'global', limit: 1 });
+      default: return null;
+    }
+  }
+
   // Test if an API endpoint is reachable
   public async testApiConnection(service: string): Promise<{ success: boolean; error?: string; latencyMs?: number; endpoint?: string; statusCode?: number }> {
-    const baseUrl = (typeof window !== 'undefined' && (window as any).__FOREST_WORKER_BASE__) || (import.meta as any).env?.VITE_FOREST_WORKER_BASE || 'https://forest.nicx.me/api';
     const start = (typeof performance !== 'undefined' ? performance.now() : Date.now());
     let endpoint = '';
     try {
       switch (service) {
-        case 'openweather': {
-          endpoint = `${baseUrl}/weather?lat=51.5074&lng=-0.1278`;
-          const response = await fetch(endpoint);
-          const body = await response.json().catch(() => ({}));
-          const latencyMs = (typeof performance !== 'undefined' ? performance.now() : Date.now()) - start;
-          if (response.ok && body?.success) return { success: true, latencyMs, endpoint, statusCode: response.status };
-          return { success: false, error: `HTTP ${response.status}`, latencyMs, endpoint, statusCode: response.status };
-        }
-        case 'nasa_firms': {
-          endpoint = `${baseUrl}/fire-alerts?region=world&days=1`;
-          const response = await fetch(endpoint);
-          const body = await response.json().catch(() => ({}));
-          const latencyMs = (typeof performance !== 'undefined' ? performance.now() : Date.now()) - start;
-          if (response.ok && body?.success) return { success: true, latencyMs, endpoint, statusCode: response.status };
-          return { success: false, error: `HTTP ${response.status}`, latencyMs, endpoint, statusCode: response.status };
-        }
-        case 'nasa_gibs': {
-          endpoint = `${baseUrl}/satellite-data?lat=0&lng=0`;
-          const response = await fetch(endpoint);
-          const body = await response.json().catch(() => ({}));
-          const latencyMs = (typeof performance !== 'undefined' ? performance.now() : Date.now()) - start;
-          if (response.ok && body?.success) return { success: true, latencyMs, endpoint, statusCode: response.status };
-          return { success: false, error: `HTTP ${response.status}`, latencyMs, endpoint, statusCode: response.status };
-        }
-        case 'global_forest_watch': {
-          endpoint = `${baseUrl}/deforestation-alerts?region=BRA`;
-          const response = await fetch(endpoint);
-          const body = await response.json().catch(() => ({}));
-          const latencyMs = (typeof performance !== 'undefined' ? performance.now() : Date.now()) - start;
-          if (response.ok && body?.success) return { success: true, latencyMs, endpoint, statusCode: response.status };
-          return { success: false, error: `HTTP ${response.status}`, latencyMs, endpoint, statusCode: response.status };
-        }
-        case 'gbif': {
-          endpoint = `${baseUrl}/biodiversity?region=global&limit=1`;
-          const response = await fetch(endpoint);
-          const body = await response.json().catch(() => ({}));
-          const latencyMs = (typeof performance !== 'undefined' ? performance.now() : Date.now()) - start;
-          if (response.ok && body?.success) return { success: true, latencyMs, endpoint, statusCode: response.status };
-          return { success: false, error: `HTTP ${response.status}`, latencyMs, endpoint, statusCode: response.status };
-        }
         case 'sentinel_hub': {
           // No direct worker endpoint; report configuration only
           const latencyMs = (typeof performance !== 'undefined' ? performance.now() : Date.now()) - start;
           return { success: this.hasApiKey('sentinel_hub_client_id') && this.hasApiKey('sentinel_hub_client_secret'), latencyMs, endpoint: 'Sentinel Hub (client-side config)', statusCode: 0 };
         }
-        default:
-          return { success: false, error: 'Unknown service' };
+        default: {
+          const { keyId, headers } = await this.storedKeyAuth(service);
+          const url = this.getConnectionTestUrl(service, keyId);
+          if (!url) return { success: false, error: 'Unknown service' };
+          endpoint = url;
+          const response = await fetch(endpoint, { headers });
+          const body = await response.json().catch(() => ({}));
+          const latencyMs = (typeof performance !== 'undefined' ? performance.now() : Date.now()) - start;
+          // A fallback payload with an error means the worker answered but its upstream did not
+          if (response.ok && body?.success && !body.error) return { success: true, latencyMs, endpoint, statusCode: response.status };
+          return { success: false, error: body?.error || `HTTP ${response.status}`, latencyMs, endpoint, statusCode: response.status };
+        }
       }
     } catch (error) {
       let errorMessage = error instanceof Error ? error.message : 'Connection failed';
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateBUI,
+  calculateDC,
+  calculateDMC,
+  calculateFFMC,
+  calculateFWI,
+  calculateFwiDay,
+  calculateFwiSeries,
+  FWI_STARTUP_STATE,
+  getFireWeatherRisk,
+  resolveFwiStartState,
+} from './fireWeatherIndex';
+
+const APRIL_46N = { month: 4, latitude: 46 };
+
+// The opening days of the standard FWI test series, from the start-up codes; published values are
+// rounded to one decimal
+const TEST_SERIES = [
+  { weather: { temperature: 17, humidity: 42, windSpeed: 25, precipitation: 0, ...APRIL_46N }, expected: [87.7, 8.5, 19.0, 10.9, 8.5, 10.1] },
+  { weather: { temperature: 20, humidity: 21, windSpeed: 25, precipitation: 2.4, ...APRIL_46N }, expected: [86.2, 10.4, 23.6, 8.8, 10.4, 9.3] },
+  { weather: { temperature: 8.5, humidity: 40, windSpeed: 17, precipitation: 0, ...APRIL_46N }, expected: [87.0, 11.8, 26.1, 6.5, 11.7, 7.6] },
+];
+
+describe('calculateFwiSeries', () => {
+  it('reproduces the standard test series', () => {
+    const results = calculateFwiSeries(TEST_SERIES.map((day) => day.weather));
+
+    results.forEach(({ ffmc, dmc, dc, isi, bui, fwi }, i) => {
+      const [eFfmc, eDmc, eDc, eIsi, eBui, eFwi] = TEST_SERIES[i].expected;
+      expect(ffmc).toBeCloseTo(eFfmc, 1);
+      expect(dmc).toBeCloseTo(eDmc, 1);
+      expect(dc).toBeCloseTo(eDc, 1);
+      expect(isi).toBeCloseTo(eIsi, 1);
+      expect(bui).toBeCloseTo(eBui, 1);
+      expect(fwi).toBeCloseTo(eFwi, 1);
+    });
+  });
+
+  it('starts each day from the codes of the day before', () => {
+    const [first, second] = TEST_SERIES.map((day) => day.weather);
+    const day1 = calculateFwiDay(FWI_STARTUP_STATE, first);
+
+    expect(calculateFwiSeries([first, second])).toEqual([day1, calculateFwiDay(day1, second)]);
+    expect(calculateFwiSeries([second], day1)).toEqual([calculateFwiDay(day1, second)]);
+  });
+});
+
+describe('moisture codes', () => {
+  it('wets the fuels only above each layer\'s rain threshold', () => {
+    expect(calculateFFMC(90, 20, 40, 10, 0.5)).toBe(calculateFFMC(90, 20, 40, 10, 0));
+    expect(calculateFFMC(90, 20, 40, 10, 10)).toBeLessThan(calculateFFMC(90, 20, 40, 10, 0));
+
+    expect(calculateDMC(40, 20, 40, 1.5, 7, 46)).toBe(calculateDMC(40, 20, 40, 0, 7, 46));
+    expect(calculateDMC(40, 20, 40, 10, 7, 46)).toBeLessThan(calculateDMC(40, 20, 40, 0, 7, 46));
+
+    expect(calculateDC(300, 20, 2.8, 7, 46)).toBe(calculateDC(300, 20, 0, 7, 46));
+    expect(calculateDC(300, 20, 10, 7, 46)).toBeLessThan(calculateDC(300, 20, 0, 7, 46));
+  });
+
+  it('keeps the codes in range through a downpour or a heat wave', () => {
+    const soaked = calculateFwiDay({ ffmc: 99, dmc: 1, dc: 1 }, { temperature: 5, humidity: 100, windSpeed: 0, precipitation: 200, ...APRIL_46N });
+    expect(soaked.ffmc).toBeGreaterThanOrEqual(0);
+    expect(soaked.dmc).toBeGreaterThanOrEqual(0);
+    expect(soaked.dc).toBeGreaterThanOrEqual(0);
+
+    const baked = calculateFFMC(100, 45, 0, 80, 0);
+    expect(baked).toBeLessThanOrEqual(101);
+    expect(baked).toBeGreaterThan(99);
+  });
+
+  it('dries faster under longer days and follows the seasons south of the equator', () => {
+    expect(calculateDMC(10, 20, 40, 0, 7, 46)).toBeGreaterThan(calculateDMC(10, 20, 40, 0, 1, 46));
+    expect(calculateDMC(10, 20, 40, 0, 1, -40)).toBeGreaterThan(calculateDMC(10, 20, 40, 0, 7, -40));
+    expect(calculateDC(100, 20, 0, 1, -40)).toBeGreaterThan(calculateDC(100, 20, 0, 7, -40));
+    // Near the equator day length does not change with the month
+    expect(calculateDMC(10, 20, 40, 0, 1, 0)).toBe(calculateDMC(10, 20, 40, 0, 7, 0));
+    expect(calculateDC(100, 20, 0, 1, 0)).toBe(calculateDC(100, 20, 0, 7, 0));
+  });
+});
+
+describe('calculateBUI and calculateFWI', () => {
+  it('has no buildup without fuel moisture codes', () => {
+    expect(calculateBUI(0, 0)).toBe(0);
+    expect(calculateFWI(0, 0)).toBe(0);
+  });
+
+  it('uses the long-term buildup curve above a BUI of 80', () => {
+    const below = calculateFWI(10, 80);
+    expect(calculateFWI(10, 80.01)).toBeCloseTo(below, 1);
+    expect(calculateFWI(10, 200)).toBeGreaterThan(below);
+  });
+});
+
+describe('getFireWeatherRisk', () => {
+  it.each([
+    [0, 'low'],
+    [4.99, 'low'],
+    [5, 'medium'],
+    [10, 'high'],
+    [20, 'critical'],
+    [60, 'critical'],
+  ])('rates an FWI of %s as %s', (fwi, risk) => {
+    expect(getFireWeatherRisk(fwi)).toBe(risk);
+  });
+});
+
+describe('resolveFwiStartState', () => {
+  const record = { date: '2026-10-10', start: { ffmc: 80, dmc: 20, dc: 200 }, end: { ffmc: 88, dmc: 24, dc: 206 } };
+
+  it('starts from the start-up codes without history', () => {
+    expect(resolveFwiStartState(null, '2026-10-10')).toBe(FWI_STARTUP_STATE);
+    expect(resolveFwiStartState(undefined, '2026-10-10')).toBe(FWI_STARTUP_STATE);
+  });
+
+  it('recomputes the same day from that day\'s start', () => {
+    expect(resolveFwiStartState(record, '2026-10-10')).toBe(record.start);
+  });
+
+  it('carries the last day\'s codes across a short gap', () => {
+    expect(resolveFwiStartState(record, '2026-10-11')).toBe(record.end);
+    expect(resolveFwiStartState(record, '2026-10-17')).toBe(record.end);
+    expect(resolveFwiStartState(record, '2026-10-12', 1)).toBe(FWI_STARTUP_STATE);
+  });
+
+  it('restarts after a long gap or from a record dated in the future', () => {
+    expect(resolveFwiStartState(record, '2026-10-18')).toBe(FWI_STARTUP_STATE);
+    expect(resolveFwiStartState(record, '2026-10-09')).toBe(FWI_STARTUP_STATE);
+  });
+});
@@ -0,0 +1,182 @@
+// Canadian Forest Fire Weather Index (FWI) System - Van Wagner (1987) equations
+// Shared by the Cloudflare worker and the browser services, so it must stay free of DOM and
+// worker APIs. Inputs are noon (local standard time) observations: temperature in °C,
+// relative humidity in %, wind speed in km/h and the rain of the previous 24 hours in mm.
+// The three fuel moisture codes carry over from one day to the next; ISI, BUI and FWI are
+// derived from them each day.
+
+export interface FwiState {
+  ffmc: number; // Fine Fuel Moisture Code
+  dmc: number; // Duff Moisture Code
+  dc: number; // Drought Code
+}
+
+export interface FwiComponents extends FwiState {
+  isi: number; // Initial Spread Index
+  bui: number; // Buildup Index
+  fwi: number; // Fire Weather Index
+}
+
+export interface FwiWeather {
+  temperature: number;
+  humidity: number;
+  windSpeed: number;
+  precipitation: number;
+  month: number; // 1-12
+  latitude: number;
+}
+
+// Standard start-up values for the first day of the season (or when no history exists)
+export const FWI_STARTUP_STATE: FwiState = { ffmc: 85, dmc: 6, dc: 15 };
+
+// Effective day length (DMC) and day length adjustment (DC) by month for each latitude band
+const DMC_DAY_LENGTH = {
+  north: [6.5, 7.5, 9.0, 12.8, 13.9, 13.9, 12.4, 10.9, 9.4, 8.0, 7.0, 6.0],
+  northTropics: [7.9, 8.4, 8.9, 9.5, 9.9, 10.2, 10.1, 9.7, 9.1, 8.6, 8.1, 7.8],
+  southTropics: [10.1, 9.6, 9.1, 8.5, 8.1, 7.8, 7.9, 8.3, 8.9, 9.4, 9.9, 10.2],
+  south: [11.5, 10.5, 9.2, 7.9, 6.8, 6.2, 6.5, 7.4, 8.7, 10.0, 11.2, 11.8],
+};
+const DC_DAY_LENGTH = {
+  north: [-1.6, -1.6, -1.6, 0.9, 3.8, 5.8, 6.4, 5.0, 2.4, 0.4, -1.6, -1.6],
+  south: [6.4, 5.0, 2.4, 0.4, -1.6, -1.6, -1.6, -1.6, -1.6, 0.9, 3.8, 5.8],
+};
+
+const clampHumidity = (humidity: number) => Math.min(100, Math.max(0, humidity));
+
+export function calculateFFMC(previous: number, temperature: number, humidity: number, windSpeed: number, precipitation: number): number {
+  const rh = clampHumidity(humidity);
+  let mo = (147.2 * (101 - previous)) / (59.5 + previous);
+
+  if (precipitation > 0.5) {
+    const rf = precipitation - 0.5;
+    const wetting = 42.5 * rf * Math.exp(-100 / (251 - mo)) * (1 - Math.exp(-6.93 / rf));
+    mo = mo > 150 ? mo + wetting + 0.0015 * (mo - 150) ** 2 * Math.sqrt(rf) : mo + wetting;
+    mo = Math.min(mo, 250);
+  }
+
+  const ed = 0.942 * rh ** 0.679 + 11 * Math.exp((rh - 100) / 10) + 0.18 * (21.1 - temperature) * (1 - Math.exp(-0.115 * rh));
+  let m = mo;
+  if (mo > ed) {
+    const ko = 0.424 * (1 - (rh / 100) ** 1.7) + 0.0694 * Math.sqrt(windSpeed) * (1 - (rh / 100) ** 8);
+    const kd = ko * 0.581 * Math.exp(0.0365 * temperature);
+    m = ed + (mo - ed) * 10 ** -kd;
+  } else {
+    const ew = 0.618 * rh ** 0.753 + 10 * Math.exp((rh - 100) / 10) + 0.18 * (21.1 - temperature) * (1 - Math.exp(-0.115 * rh));
+    if (mo < ew) {
+      const k1 = 0.424 * (1 - ((100 - rh) / 100) ** 1.7) + 0.0694 * Math.sqrt(windSpeed) * (1 - ((100 - rh) / 100) ** 8);
+      const kw = k1 * 0.581 * Math.exp(0.0365 * temperature);
+      m = ew - (ew - mo) * 10 ** -kw;
+    }
+  }
+
+  return Math.min(101, Math.max(0, (59.5 * (250 - m)) / (147.2 + m)));
+}
+
+export function calculateDMC(previous: number, temperature: number, humidity: number, precipitation: number, month: number, latitude: number): number {
+  const rh = clampHumidity(humidity);
+  const index = Math.min(11, Math.max(0, month - 1));
+  const dayLength = latitude > 30 ? DMC_DAY_LENGTH.north[index]
+    : latitude > 10 ? DMC_DAY_LENGTH.northTropics[index]
+    : latitude > -10 ? 9
+    : latitude > -30 ? DMC_DAY_LENGTH.southTropics[index]
+    : DMC_DAY_LENGTH.south[index];
+
+  let pr = previous;
+  if (precipitation > 1.5) {
+    const re = 0.92 * precipitation - 1.27;
+    const mo = 20 + Math.exp(5.6348 - previous / 43.43);
+    const b = previous <= 33 ? 100 / (0.5 + 0.3 * previous)
+      : previous <= 65 ? 14 - 1.3 * Math.log(previous)
+      : 6.2 * Math.log(previous) - 17.2;
+    const mr = mo + (1000 * re) / (48.77 + b * re);
+    pr = Math.max(0, 244.72 - 43.43 * Math.log(mr - 20));
+  }
+
+  const t = Math.max(temperature, -1.1);
+  const k = 1.894 * (t + 1.1) * (100 - rh) * dayLength * 1e-6;
+  return Math.max(0, pr + 100 * k);
+}
+
+export function calculateDC(previous: number, temperature: number, precipitation: number, month: number, latitude: number): number {
+  const index = Math.min(11, Math.max(0, month - 1));
+  const dayLength = latitude > 20 ? DC_DAY_LENGTH.north[index]
+    : latitude > -20 ? 1.4
+    : DC_DAY_LENGTH.south[index];
+
+  let dr = previous;
+  if (precipitation > 2.8) {
+    const rd = 0.83 * precipitation - 1.27;
+    const qo = 800 * Math.exp(-previous / 400);
+    const qr = qo + 3.937 * rd;
+    dr = Math.max(0, 400 * Math.log(800 / qr));
+  }
+
+  const t = Math.max(temperature, -2.8);
+  const v = Math.max(0, 0.36 * (t + 2.8) + dayLength);
+  return Math.max(0, dr + 0.5 * v);
+}
+
+export function calculateISI(ffmc: number, windSpeed: number): number {
+  const m = (147.2 * (101 - ffmc)) / (59.5 + ffmc);
+  const fineFuel = 91.9 * Math.exp(-0.1386 * m) * (1 + m ** 5.31 / 4.93e7);
+  return 0.208 * Math.exp(0.05039 * windSpeed) * fineFuel;
+}
+
+export function calculateBUI(dmc: number, dc: number): number {
+  if (dmc === 0 && dc === 0) return 0;
+  const bui = dmc <= 0.4 * dc
+    ? (0.8 * dmc * dc) / (dmc + 0.4 * dc)
+    : dmc - (1 - (0.8 * dc) / (dmc + 0.4 * dc)) * (0.92 + (0.0114 * dmc) ** 1.7);
+  return Math.max(0, bui);
+}
+
+export function calculateFWI(isi: number, bui: number): number {
+  const fd = bui <= 80 ? 0.626 * bui ** 0.809 + 2 : 1000 / (25 + 108.64 * Math.exp(-0.023 * bui));
+  const b = 0.1 * isi * fd;
+  return b > 1 ? Math.exp(2.72 * (0.434 * Math.log(b)) ** 0.647) : b;
+}
+
+// One day of the system: yesterday's codes plus today's noon weather
+export function calculateFwiDay(previous: FwiState, weather: FwiWeather): FwiComponents {
+  const ffmc = calculateFFMC(previous.ffmc, weather.temperature, weather.humidity, weather.windSpeed, weather.precipitation);
+  const dmc = calculateDMC(previous.dmc, weather.temperature, weather.humidity, weather.precipitation, weather.month, weather.latitude);
+  const dc = calculateDC(previous.dc, weather.temperature, weather.precipitation, weather.month, weather.latitude);
+  const isi = calculateISI(ffmc, weather.windSpeed);
+  const bui = calculateBUI(dmc, dc);
+  return { ffmc, dmc, dc, isi, bui, fwi: calculateFWI(isi, bui) };
+}
+
+// Consecutive days, each starting from the previous day's codes
+export function calculateFwiSeries(days: FwiWeather[], initial: FwiState = FWI_STARTUP_STATE): FwiComponents[] {
+  const results: FwiComponents[] = [];
+  let state = initial;
+  for (const weather of days) {
+    const result = calculateFwiDay(state, weather);
+    results.push(result);
+    state = result;
+  }
+  return results;
+}
+
+// Danger classes commonly used with the FWI: <5 low, 5-10 moderate, 10-20 high, 20+ very high/extreme
+export function getFireWeatherRisk(fwi: number): 'low' | 'medium' | 'high' | 'critical' {
+  if (fwi >= 20) return 'critical';
+  if (fwi >= 10) return 'high';
+  if (fwi >= 5) return 'medium';
+  return 'low';
+}
+
+// Carry-over between days. `start` is what today's calculation began from, so recomputing the
+// same day (a newer observation) does not compound; `end` seeds the following day.
+export interface FwiStateRecord {
+  date: string; // YYYY-MM-DD, local to the location
+  start: FwiState;
+  end: FwiState;
+}
+
+export function resolveFwiStartState(record: FwiStateRecord | null | undefined, date: string, maxGapDays: number = 7): FwiState {
+  if (!record) return FWI_STARTUP_STATE;
+  if (record.date === date) return record.start;
+  const gapDays = (Date.parse(`${date}T00:00:00Z`) - Date.parse(`${record.date}T00:00:00Z`)) / (24 * 60 * 60 * 1000);
+  return gapDays > 0 && gapDays <= maxGapDays ? record.end : FWI_STARTUP_STATE;
+}
@@ -0,0 +1,501 @@
+// Shared domain model for forest monitoring data
+// Used by the Cloudflare worker to check what it returns and by the browser services to check
+// what they receive, so it must stay free of DOM and worker APIs. Records that fail validation
+// are dropped and reported rather than rendered.
+import type { FwiComponents } from './fireWeatherIndex';
+
+export const SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+export type Severity = typeof SEVERITIES[number];
+
+export const ALERT_TYPES = ['fire', 'deforestation', 'biodiversity', 'weather', 'illegal_logging', 'disease'] as const;
+export type AlertType = typeof ALERT_TYPES[number];
+
+export const SPECIES_STATUSES = ['stable', 'declining', 'critically_endangered', 'recovering'] as const;
+export type SpeciesStatus = typeof SPECIES_STATUSES[number];
+
+// What a signed-in user may do: read the stored alert history, administer data sources (syncs and
+// API keys) and export alert lists as GeoJSON/CSV/KML
+export const USER_PERMISSIONS = ['view_alerts', 'manage_regions', 'export_data'] as const;
+export type UserPermission = typeof USER_PERMISSIONS[number];
+
+// Every profile has a role; its permissions are the role's plus any granted to it individually.
+// Volunteers can only read, which is also what signed-out visitors get in the app.
+export const ACCESS_ROLES = {
+  volunteer: ['view_alerts'],
+  researcher: ['view_alerts', 'export_data'],
+  admin: ['view_alerts', 'manage_regions', 'export_data'],
+} as const satisfies Record<string, readonly UserPermission[]>;
+export type AccessRole = keyof typeof ACCESS_ROLES;
+
+export function isAccessRole(value: unknown): value is AccessRole {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ACCESS_ROLES, value);
+}
+
+export function permissionsFor(role: AccessRole, granted: readonly UserPermission[] = []): UserPermission[] {
+  const permissions = new Set<UserPermission>([...ACCESS_ROLES[role], ...granted]);
+  return USER_PERMISSIONS.filter((permission) => permissions.has(permission));
+}
+
+// Upstreams whose API keys users can store in the worker's key vault
+export const API_KEY_SERVICES = ['nasa_firms', 'openweather', 'global_forest_watch'] as const;
+export type ApiKeyService = typeof API_KEY_SERVICES[number];
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface ForestRegion {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  healthScore: number;
+  deforestationRate: number;
+  biodiversityIndex: number;
+  alertLevel: Severity;
+  lastUpdate: string;
+  area: number;
+  forestCover: number;
+  fireRisk: number;
+  temperature: number;
+  precipitation: number;
+  provenance?: Provenance;
+}
+
+export interface ForestAlert {
+  id: string;
+  timestamp: string;
+  location: string;
+  type: AlertType;
+  severity: Severity;
+  confidence: number;
+  description: string;
+  coordinates: Coordinates;
+  metadata?: any;
+  provenance?: Provenance;
+}
+
+export interface BiodiversityData {
+  id: string;
+  name: string;
+  scientificName: string;
+  status: SpeciesStatus;
+  // Survey figures: GBIF's species search does not report them, so only curated and generated
+  // records have them
+  population?: number;
+  trend?: number;
+  habitat: string;
+  lastSeen?: string;
+  confidence?: number;
+  threatLevel?: number;
+  conservationStatus: string;
+  // Set by the worker when one response mixes sources (GBIF rows padded with mock species)
+  source?: string;
+  provenance?: Provenance;
+}
+
+export interface WeatherData {
+  temperature: number;
+  humidity: number;
+  precipitation: number;
+  windSpeed: number;
+  pressure: number;
+  cloudCover: number;
+  uvIndex: number;
+  fireWeatherIndex: number;
+  fwi?: FwiComponents;
+  location?: string;
+  country?: string;
+  description?: string;
+  provenance?: Provenance;
+}
+
+export interface ForecastStep {
+  time: string;
+  temperature: number;
+  humidity: number;
+  precipitation: number;
+  windSpeed: number;
+  cloudCover: number;
+  description?: string;
+  fireWeatherIndex: number;
+}
+
+export interface FireWeatherDay extends Partial<FwiComponents> {
+  date: string;
+  // Daily FWI from the noon step; the max/mean are over the 3-hourly steps of the day
+  fireWeatherIndex: number;
+  maxFireWeatherIndex: number;
+  meanFireWeatherIndex: number;
+  maxTemperature: number;
+  minHumidity: number;
+  precipitation: number;
+  risk: Severity;
+}
+
+export interface WeatherForecast {
+  location?: string;
+  country?: string;
+  timezoneOffset: number;
+  steps: ForecastStep[];
+  daily: FireWeatherDay[];
+  provenance?: Provenance;
+}
+
+// Where a record came from. The worker only reports `source` per response; the browser services
+// stamp each record with it, the worker cache status and the fetch time when they receive it.
+export interface Provenance {
+  // Worker or client source tag, e.g. nasa-firms:viirs_snpp_nrt, gbif, mock-fallback
+  source: string;
+  dataset?: string;
+  // When the upstream was queried; a cached worker response is older than the request
+  fetchedAt: string;
+  cache: CacheStatus;
+  // Generated rather than observed, whether by the worker or by a browser fallback
+  synthetic: boolean;
+}
+
+// Worker cache status (X-Cache); `none` for data that did not pass through the worker cache and
+// `offline` for a last-known-good copy read back from the browser's offline cache
+export const CACHE_STATUSES = ['hit', 'miss', 'stale', 'none', 'offline'] as const;
+export type CacheStatus = typeof CACHE_STATUSES[number];
+
+// Sources that generate data: the worker's mock and fallback payloads and its generated regions,
+// and the browser's own mock generators
+export const SYNTHETIC_SOURCES = ['mock', 'mock-fallback', 'server-generated', 'client-mock'] as const;
+
+export function isSyntheticSource(source: string): boolean {
+  return (SYNTHETIC_SOURCES as readonly string[]).includes(source);
+}
+
+// The dataset defaults to the part of the source after the colon (nasa-firms:viirs_snpp_nrt)
+export function createProvenance(source: string, options: Partial<Pick<Provenance, 'dataset' | 'fetchedAt' | 'cache'>> = {}): Provenance {
+  return {
+    source,
+    dataset: options.dataset ?? (source.includes(':') ? source.slice(source.indexOf(':') + 1) : undefined),
+    fetchedAt: options.fetchedAt ?? new Date().toISOString(),
+    cache: options.cache ?? 'none',
+    synthetic: isSyntheticSource(source),
+  };
+}
+
+// Records naming their own source (mixed worker responses) or their own dataset in metadata (GFW
+// integrated alerts) keep it
+export function withProvenance<T extends object>(records: T[], provenance: Provenance): T[] {
+  return records.map((record) => {
+    const { source, metadata } = record as { source?: unknown; metadata?: any };
+    const own = typeof source === 'string' && source !== provenance.source
+      ? createProvenance(source, { fetchedAt: provenance.fetchedAt, cache: provenance.cache })
+      : provenance;
+    const dataset = metadata?.dataset;
+    return { ...record, provenance: typeof dataset === 'string' ? { ...own, dataset } : own };
+  });
+}
+
+export interface UserProfile {
+  id: string;
+  email?: string;
+  name: string;
+  organization: string;
+  role: string;
+  accessRole: AccessRole;
+  joinDate: string;
+  regions: string[];
+  // Effective permissions: the access role's plus individual grants
+  permissions: UserPermission[];
+}
+
+// The fields users may change on their own profile; `role` is a free-text job title, while access
+// roles and permissions are granted by administrators
+export type UserProfileUpdate = Partial<Pick<UserProfile, 'name' | 'organization' | 'role' | 'regions'>>;
+
+// A stored key as the worker describes it; the key itself never leaves the worker
+export interface ApiKeySummary {
+  id: string;
+  service: ApiKeyService;
+  label: string;
+  hint: string; // last four characters
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export interface ApiKeySubmission {
+  service: ApiKeyService;
+  key: string;
+  label?: string;
+}
+
+// Validation
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+export type Validator<T> = (value: unknown) => ValidationResult<T>;
+
+export interface InvalidRecord {
+  index: number;
+  id?: string;
+  errors: string[];
+}
+
+// JSON Schema fragment describing a field, published in the worker's OpenAPI document
+export type JsonSchema = Record<string, any>;
+
+// A rule returns an error message, or null when the value is acceptable
+type FieldRule = ((value: any) => string | null) & { schema: JsonSchema; optional?: boolean };
+
+const rule = (schema: JsonSchema, check: (value: any) => string | null, optional = false): FieldRule =>
+  Object.assign(check, { schema, optional });
+
+const text = (optional = false, maxLength = Infinity): FieldRule => rule(
+  { type: 'string', ...(Number.isFinite(maxLength) ? { maxLength } : {}) },
+  (value) => {
+    if (optional && value == null) return null;
+    if (typeof value !== 'string') return 'must be a string';
+    return value.length > maxLength ? `must be at most ${maxLength} characters` : null;
+  },
+  optional);
+
+const textList = (optional = false, maxItems = Infinity): FieldRule => rule(
+  { type: 'array', items: { type: 'string' }, ...(Number.isFinite(maxItems) ? { maxItems } : {}) },
+  (value) => {
+    if (optional && value == null) return null;
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) return 'must be an array of strings';
+    return value.length > maxItems ? `must have at most ${maxItems} items` : null;
+  },
+  optional);
+
+const num = (min = -Infinity, max = Infinity, optional = false): FieldRule => rule(
+  { type: 'number', ...(Number.isFinite(min) ? { minimum: min } : {}), ...(Number.isFinite(max) ? { maximum: max } : {}) },
+  (value) => {
+    if (optional && value == null) return null;
+    if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a finite number';
+    return value < min || value > max ? `must be between ${min} and ${max}` : null;
+  },
+  optional);
+
+const oneOf = (values: readonly string[]): FieldRule => rule({ type: 'string', enum: [...values] }, (value) =>
+  values.includes(value) ? null : `must be one of ${values.join(', ')}`);
+
+const timestamp: FieldRule = rule({ type: 'string', format: 'date-time' }, (value) =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? null : 'must be a date string');
+
+const date: FieldRule = rule({ type: 'string', format: 'date' }, (value) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? null : 'must be a YYYY-MM-DD date');
+
+const optionalTimestamp: FieldRule = rule(timestamp.schema, (value) => value == null ? null : timestamp(value), true);
+
+const coordinates: FieldRule = rule(
+  { type: 'object', required: ['lat', 'lng'], properties: { lat: { type: 'number', minimum: -90, maximum: 90 }, lng: { type: 'number', minimum: -180, maximum: 180 } } },
+  (value) => value && num(-90, 90)(value.lat) === null && num(-180, 180)(value.lng) === null ? null : 'must be { lat, lng } within range');
+
+// Nested records; reports the first one that fails
+const listOf = (validate: Validator<unknown> & { schema: JsonSchema }): FieldRule => rule(
+  { type: 'array', items: validate.schema },
+  (value) => {
+    if (!Array.isArray(value)) return 'must be an array';
+    for (let i = 0; i < value.length; i++) {
+      const result = validate(value[i]);
+      if (!result.ok) return `[${i}] ${result.errors.join(', ')}`;
+    }
+    return null;
+  });
+
+const any = (schema: JsonSchema = {}): FieldRule => rule(schema, () => null, true);
+
+// Added by the browser services; the worker does not send it
+const provenance = any({
+  type: 'object',
+  properties: {
+    source: { type: 'string' },
+    dataset: { type: 'string' },
+    fetchedAt: { type: 'string', format: 'date-time' },
+    cache: { type: 'string', enum: [...CACHE_STATUSES] },
+    synthetic: { type: 'boolean' },
+  },
+});
+
+function createValidator<T>(fields: { [K in keyof T]-?: FieldRule }): Validator<T> & { schema: JsonSchema } {
+  const keys = Object.keys(fields) as (keyof T & string)[];
+  const validate: Validator<T> = (value) => {
+    if (!value || typeof value !== 'object') return { ok: false, errors: ['must be an object'] };
+    const errors: string[] = [];
+    for (const key of keys) {
+      const error = fields[key]((value as any)[key]);
+      if (error) errors.push(`${key} ${error}`);
+    }
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: value as T };
+  };
+  const schema: JsonSchema = {
+    type: 'object',
+    required: keys.filter((key) => !fields[key].optional),
+    properties: Object.fromEntries(keys.map((key) => [key, fields[key].schema])),
+  };
+  return Object.assign(validate, { schema });
+}
+
+export const validateForestRegion = createValidator<ForestRegion>({
+  id: text(),
+  name: text(),
+  lat: num(-90, 90),
+  lng: num(-180, 180),
+  healthScore: num(0, 100),
+  deforestationRate: num(),
+  biodiversityIndex: num(0, 100),
+  alertLevel: oneOf(SEVERITIES),
+  lastUpdate: timestamp,
+  area: num(0),
+  forestCover: num(0, 100),
+  fireRisk: num(0),
+  temperature: num(),
+  precipitation: num(0),
+  provenance,
+});
+
+export const validateForestAlert = createValidator<ForestAlert>({
+  id: text(),
+  timestamp,
+  location: text(),
+  type: oneOf(ALERT_TYPES),
+  severity: oneOf(SEVERITIES),
+  confidence: num(0, 100),
+  description: text(),
+  coordinates,
+  metadata: any({ type: 'object', additionalProperties: true }),
+  provenance,
+});
+
+export const validateBiodiversityData = createValidator<BiodiversityData>({
+  id: text(),
+  name: text(),
+  scientificName: text(),
+  status: oneOf(SPECIES_STATUSES),
+  population: num(0, Infinity, true),
+  trend: num(-Infinity, Infinity, true),
+  habitat: text(),
+  lastSeen: optionalTimestamp,
+  confidence: num(0, 100, true),
+  threatLevel: num(0, 100, true),
+  conservationStatus: text(),
+  source: text(true),
+  provenance,
+});
+
+export const validateWeatherData = createValidator<WeatherData>({
+  temperature: num(-90, 70),
+  humidity: num(0, 100),
+  precipitation: num(0),
+  windSpeed: num(0),
+  pressure: num(0),
+  cloudCover: num(0, 100),
+  uvIndex: num(0),
+  fireWeatherIndex: num(0),
+  fwi: any({ type: 'object', properties: Object.fromEntries(['ffmc', 'dmc', 'dc', 'isi', 'bui', 'fwi'].map((key) => [key, { type: 'number' }])) }),
+  location: text(true),
+  country: text(true),
+  description: text(true),
+  provenance,
+});
+
+export const validateForecastStep = createValidator<ForecastStep>({
+  time: timestamp,
+  temperature: num(-90, 70),
+  humidity: num(0, 100),
+  precipitation: num(0),
+  windSpeed: num(0),
+  cloudCover: num(0, 100),
+  description: text(true),
+  fireWeatherIndex: num(0),
+});
+
+export const validateFireWeatherDay = createValidator<FireWeatherDay>({
+  date,
+  fireWeatherIndex: num(0),
+  maxFireWeatherIndex: num(0),
+  meanFireWeatherIndex: num(0),
+  maxTemperature: num(-90, 70),
+  minHumidity: num(0, 100),
+  precipitation: num(0),
+  risk: oneOf(SEVERITIES),
+  ffmc: num(0, 101, true),
+  dmc: num(0, Infinity, true),
+  dc: num(0, Infinity, true),
+  isi: num(0, Infinity, true),
+  bui: num(0, Infinity, true),
+  fwi: num(0, Infinity, true),
+});
+
+export const validateWeatherForecast = createValidator<WeatherForecast>({
+  location: text(true),
+  country: text(true),
+  timezoneOffset: rule({ type: 'integer', description: 'Seconds from UTC' }, (value) =>
+    Number.isInteger(value) ? null : 'must be a whole number of seconds'),
+  steps: listOf(validateForecastStep),
+  daily: listOf(validateFireWeatherDay),
+  provenance,
+});
+
+export const validateUserProfile = createValidator<UserProfile>({
+  id: text(),
+  email: text(true),
+  name: text(),
+  organization: text(),
+  role: text(),
+  accessRole: oneOf(Object.keys(ACCESS_ROLES)),
+  joinDate: timestamp,
+  regions: textList(),
+  permissions: rule({ type: 'array', items: { type: 'string', enum: [...USER_PERMISSIONS] } }, (value) =>
+    Array.isArray(value) && value.every((item) => USER_PERMISSIONS.includes(item)) ? null : `must only contain ${USER_PERMISSIONS.join(', ')}`),
+});
+
+export const validateUserProfileUpdate = createValidator<UserProfileUpdate>({
+  name: text(true, 100),
+  organization: text(true, 200),
+  role: text(true, 100),
+  regions: textList(true, 50),
+});
+
+export const validateApiKeySummary = createValidator<ApiKeySummary>({
+  id: text(),
+  service: oneOf(API_KEY_SERVICES),
+  label: text(),
+  hint: text(),
+  createdAt: timestamp,
+  lastUsedAt: rule({ type: 'string', format: 'date-time', nullable: true }, (value) =>
+    value === null || timestamp(value) === null ? null : 'must be a date string or null'),
+});
+
+export const validateApiKeySubmission = createValidator<ApiKeySubmission>({
+  service: oneOf(API_KEY_SERVICES),
+  key: rule({ type: 'string', minLength: 8, maxLength: 512, pattern: '^\\S+$' }, (value) =>
+    typeof value === 'string' && /^\S{8,512}$/.test(value) ? null : 'must be 8-512 characters without spaces'),
+  label: text(true, 100),
+});
+
+// Schemas of the shared records, keyed by type name
+export const DOMAIN_SCHEMAS: Record<string, JsonSchema> = {
+  ForestRegion: validateForestRegion.schema,
+  ForestAlert: validateForestAlert.schema,
+  BiodiversityData: validateBiodiversityData.schema,
+  WeatherData: validateWeatherData.schema,
+  WeatherForecast: validateWeatherForecast.schema,
+  UserProfile: validateUserProfile.schema,
+  UserProfileUpdate: validateUserProfileUpdate.schema,
+  ApiKeySummary: validateApiKeySummary.schema,
+  ApiKeySubmission: validateApiKeySubmission.schema,
+};
+
+export function validateRecords<T>(items: unknown, validate: Validator<T>): { valid: T[]; invalid: InvalidRecord[] } {
+  if (!Array.isArray(items)) return { valid: [], invalid: [{ index: -1, errors: ['payload must be an array'] }] };
+  const valid: T[] = [];
+  const invalid: InvalidRecord[] = [];
+  items.forEach((item, index) => {
+    const result = validate(item);
+    if (result.ok) valid.push(result.value);
+    else invalid.push({ index, id: typeof item?.id === 'string' ? item.id : undefined, errors: result.errors });
+  });
+  return { valid, invalid };
+}
+
+export function reportInvalidRecords(source: string, invalid: InvalidRecord[] | undefined): void {
+  if (!invalid || invalid.length === 0) return;
+  console.warn(`⚠️ ${source}: dropped ${invalid.length} invalid record(s)`, invalid.slice(0, 10));
+}
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ForestDataProvider } from './forestRepository';
+import type { ForestRegion } from './forestDomain';
+
+const mocks = vi.hoisted(() => ({
+  worker: { providerName: 'worker' } as Record<string, unknown>,
+  direct: { providerName: 'direct' } as Record<string, unknown>,
+  fixtures: { providerName: 'mock' } as Record<string, unknown>,
+  offlineCache: { get: null as any, put: null as any },
+  apiConfigManager: { hasApiKey: null as any, isNoMockEnabled: null as any },
+}));
+
+vi.mock('./serverSideDataService', () => ({ serverSideDataService: mocks.worker }));
+vi.mock('./enhancedForestDataService', () => ({ enhancedForestDataService: mocks.direct }));
+vi.mock('./mockDataService', () => ({ mockDataService: mocks.fixtures }));
+vi.mock('./offlineCache', () => ({ offlineCache: mocks.offlineCache }));
+vi.mock('./apiConfigManager', () => ({ apiConfigManager: mocks.apiConfigManager }));
+
+// The repository is a singleton; each test imports a fresh one
+let repository: typeof import('./forestRepository').forestRepository;
+
+const NOW = Date.parse('2026-10-17T12:00:00.000Z');
+
+function regions(name: string, provenance?: Record<string, unknown>): ForestRegion[] {
+  return [{ id: name, name, provenance } as unknown as ForestRegion];
+}
+
+function provide(provider: Record<string, unknown>, method: keyof ForestDataProvider, impl: (...args: any[]) => unknown) {
+  const fn = vi.fn(impl);
+  provider[method] = fn;
+  return fn;
+}
+
+beforeEach(async () => {
+  for (const provider of [mocks.worker, mocks.direct, mocks.fixtures]) {
+    for (const key of Object.keys(provider)) if (key !== 'providerName') delete provider[key];
+  }
+  mocks.offlineCache.get = vi.fn(async () => null);
+  mocks.offlineCache.put = vi.fn(async () => {});
+  mocks.apiConfigManager.hasApiKey = vi.fn(() => false);
+  mocks.apiConfigManager.isNoMockEnabled = vi.fn(() => false);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+  vi.resetModules();
+  ({ forestRepository: repository } = await import('./forestRepository'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('ForestRepository providers', () => {
+  it('answers from the worker and saves the result as the offline copy', async () => {
+    const worker = provide(mocks.worker, 'getForestRegions', async () => regions('worker'));
+    const direct = provide(mocks.direct, 'getForestRegions', async () => regions('direct'));
+
+    expect(await repository.getForestRegions()).toEqual(regions('worker'));
+    expect(worker).toHaveBeenCalledTimes(1);
+    expect(direct).not.toHaveBeenCalled();
+    expect(mocks.offlineCache.put).toHaveBeenCalledWith('forest_regions', regions('worker'));
+  });
+
+  it('falls through to the next provider when one fails or cannot serve the read', async () => {
+    provide(mocks.worker, 'getForestRegions', async () => { throw new Error('worker down'); });
+    provide(mocks.direct, 'getForestRegions', async () => regions('direct'));
+    provide(mocks.direct, 'getBiodiversityData', async () => [{ id: 'species' }]);
+
+    expect(await repository.getForestRegions()).toEqual(regions('direct'));
+    expect(await repository.getBiodiversityData()).toEqual([{ id: 'species' }]);
+  });
+
+  it('asks direct calls first when the user has a key for the upstream', async () => {
+    mocks.apiConfigManager.hasApiKey.mockImplementation((service: string) => service === 'nasa_firms');
+    const worker = provide(mocks.worker, 'getForestAlerts', async () => []);
+    provide(mocks.direct, 'getForestAlerts', async () => [{ id: 'fire_direct' }]);
+
+    expect(await repository.getForestAlerts()).toEqual([{ id: 'fire_direct' }]);
+    expect(worker).not.toHaveBeenCalled();
+  });
+
+  it('does not keep synthetic worker payloads as the offline copy', async () => {
+    const synthetic = regions('generated', { source: 'server-generated', synthetic: true });
+    provide(mocks.worker, 'getForestRegions', async () => synthetic);
+
+    expect(await repository.getForestRegions()).toEqual(synthetic);
+    expect(mocks.offlineCache.put).not.toHaveBeenCalled();
+  });
+});
+
+describe('ForestRepository fallbacks', () => {
+  beforeEach(() => {
+    provide(mocks.worker, 'getForestRegions', async () => { throw new Error('worker down'); });
+    provide(mocks.direct, 'getForestRegions', async () => { throw new Error('no key'); });
+  });
+
+  it('serves the saved copy, marked offline, when no provider answers', async () => {
+    const savedAt = NOW - 60 * 60 * 1000;
+    mocks.offlineCache.get.mockResolvedValue({ data: regions('saved', { source: 'worker', cache: 'miss' }), savedAt });
+
+    expect(await repository.getForestRegions()).toEqual(regions('saved', { source: 'worker', cache: 'offline' }));
+    expect(repository.getOfflineSince()).toBe(savedAt);
+  });
+
+  it('fills in the fixtures without a saved copy, and only briefly', async () => {
+    const fixture = provide(mocks.fixtures, 'getForestRegions', async () => regions('fixture'));
+
+    expect(await repository.getForestRegions()).toEqual(regions('fixture'));
+    await repository.getForestRegions();
+    expect(fixture).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(NOW + 61 * 1000);
+    await repository.getForestRegions();
+    expect(fixture).toHaveBeenCalledTimes(2);
+    expect(repository.getOfflineSince()).toBeNull();
+  });
+
+  it('throws the last provider error with no-mock on', async () => {
+    mocks.apiConfigManager.isNoMockEnabled.mockReturnValue(true);
+    provide(mocks.fixtures, 'getForestRegions', async () => regions('fixture'));
+
+    await expect(repository.getForestRegions()).rejects.toThrow('no key');
+  });
+
+  it('goes straight to the saved copy while the browser is offline', async () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    mocks.offlineCache.get.mockResolvedValue({ data: regions('saved'), savedAt: NOW });
+
+    expect(await repository.getForestRegions()).toEqual(regions('saved'));
+    expect(mocks.worker.getForestRegions).not.toHaveBeenCalled();
+  });
+});
+
+describe('ForestRepository caching and sharing', () => {
+  it('caches a live result for its TTL unless a fresh read is asked for', async () => {
+    const worker = provide(mocks.worker, 'getWeatherData', async () => ({ temperature: 20 }));
+
+    await repository.getWeatherData(-3.1, -60);
+    await repository.getWeatherData(-3.1, -60);
+    expect(worker).toHaveBeenCalledTimes(1);
+
+    await repository.getWeatherData(-3.1, -60, { fresh: true });
+    expect(worker).toHaveBeenCalledTimes(2);
+
+    vi.setSystemTime(NOW + 10 * 60 * 1000);
+    await repository.getWeatherData(-3.1, -60);
+    expect(worker).toHaveBeenCalledTimes(3);
+  });
+
+  it('shares one call between concurrent reads of the same data', async () => {
+    let release: (data: ForestRegion[]) => void = () => {};
+    const worker = provide(mocks.worker, 'getForestRegions', () => new Promise((resolve) => { release = resolve; }));
+
+    const reads = [repository.getForestRegions(), repository.getForestRegions(), repository.getForestRegions({ fresh: true })];
+    release(regions('worker'));
+
+    expect(await Promise.all(reads)).toEqual([regions('worker'), regions('worker'), regions('worker')]);
+    expect(worker).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts the shared call only once every caller has given up', async () => {
+    let callSignal: AbortSignal | undefined;
+    provide(mocks.worker, 'getForestRegions', (signal: AbortSignal) => {
+      callSignal = signal;
+      return new Promise(() => {});
+    });
+    const first = new AbortController();
+    const second = new AbortController();
+    const reads = [repository.getForestRegions({ signal: first.signal }), repository.getForestRegions({ signal: second.signal })];
+
+    first.abort();
+    await expect(reads[0]).rejects.toMatchObject({ name: 'AbortError' });
+    expect(callSignal?.aborted).toBe(false);
+
+    second.abort();
+    await expect(reads[1]).rejects.toMatchObject({ name: 'AbortError' });
+    expect(callSignal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,306 @@
+// Forest data repository - the one place components read forest data from
+// Each read asks the providers in turn: the worker, then direct upstream calls made with the user's
+// own keys. The first that answers wins. A provider that lacks a method or throws is skipped. When
+// none answers (or the browser is offline) the last real payload saved in the offline cache is
+// served, marked `offline`; only without one do the mock fixtures fill in. With no-mock on, the
+// fixtures are left out and the last error is thrown.
+// Results share one cache; mock and offline results are only kept for CACHE_DURATIONS.FALLBACK_DATA
+// so live data replaces them quickly. Concurrent reads of the same data share one call. A caller's
+// AbortSignal only cancels that caller's wait; the call itself is aborted once no one waits for it.
+import { CACHE_DURATIONS } from './apiConfig';
+import { apiConfigManager } from './apiConfigManager';
+import { enhancedForestDataService } from './enhancedForestDataService';
+import { mockDataService } from './mockDataService';
+import { offlineCache } from './offlineCache';
+import { serverSideDataService, DeforestationQueryOptions, DeforestationReport } from './serverSideDataService';
+import type { SatelliteImagery } from './workerClient';
+import type { ApiKeyService, BiodiversityData, ForestAlert, ForestRegion, Provenance, WeatherData, WeatherForecast } from './forestDomain';
+
+export type ProviderName = 'worker' | 'direct' | 'mock';
+
+// Methods a provider cannot serve are left out; the signal is aborted when no one needs the result
+export interface ForestDataProvider {
+  readonly providerName: ProviderName;
+  getForestRegions?(signal?: AbortSignal): Promise<ForestRegion[]>;
+  getForestAlerts?(signal?: AbortSignal): Promise<ForestAlert[]>;
+  getDeforestationReport?(options: DeforestationQueryOptions, signal?: AbortSignal): Promise<DeforestationReport>;
+  getBiodiversityData?(signal?: AbortSignal): Promise<BiodiversityData[]>;
+  getWeatherData?(lat: number, lng: number, signal?: AbortSignal): Promise<WeatherData>;
+  getWeatherForecast?(lat: number, lng: number, hours: number, signal?: AbortSignal): Promise<WeatherForecast>;
+  getHistoricalData?(region: string, startYear: number, endYear: number, signal?: AbortSignal): Promise<any[]>;
+  getSatelliteData?(lat: number, lng: number, layer?: string, signal?: AbortSignal): Promise<SatelliteImagery>;
+}
+
+export interface QueryOptions {
+  signal?: AbortSignal;
+  // Skip the cache; concurrent reads still share the call
+  fresh?: boolean;
+}
+
+export const OFFLINE_STATUS_EVENT = 'forestDataOffline';
+
+export type QueryResult<T> = { data: T; error?: undefined } | { data?: undefined; error: Error };
+
+interface InflightQuery {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+export class ForestRepository {
+  private static instance: ForestRepository;
+  private cache = new Map<string, { data: unknown; timestamp: number; ttl: number }>();
+  private inflight = new Map<string, InflightQuery>();
+  private listeners = new Set<() => void>();
+  // When each query currently answered from the offline cache was saved
+  private offline = new Map<string, number>();
+
+  private constructor(
+    private readonly worker: ForestDataProvider = serverSideDataService,
+    private readonly direct: ForestDataProvider = enhancedForestDataService,
+    private readonly fixtures: ForestDataProvider = mockDataService,
+  ) {
+    // Stored keys change which upstream key the worker uses
+    if (typeof window !== 'undefined') {
+      window.addEventListener('apiKeysRefreshed', () => this.refresh());
+      window.addEventListener('online', () => this.refresh());
+    }
+  }
+
+  public static getInstance(): ForestRepository {
+    if (!ForestRepository.instance) {
+      ForestRepository.instance = new ForestRepository();
+    }
+    return ForestRepository.instance;
+  }
+
+  public getForestRegions(options: QueryOptions = {}): Promise<ForestRegion[]> {
+    return this.query('forest_regions', CACHE_DURATIONS.FOREST_DATA, this.providers(),
+      (provider, signal) => provider.getForestRegions?.(signal), options);
+  }
+
+  public getForestAlerts(options: QueryOptions = {}): Promise<ForestAlert[]> {
+    return this.query('forest_alerts', CACHE_DURATIONS.FIRE_DATA, this.providers('nasa_firms'),
+      (provider, signal) => provider.getForestAlerts?.(signal), options);
+  }
+
+  public getDeforestationReport(query: DeforestationQueryOptions = {}, options: QueryOptions = {}): Promise<DeforestationReport> {
+    const { regions = ['BRA'], geostore, geometry, days = 90, limit = 50 } = query;
+    const area = geometry ? `geometry_${JSON.stringify(geometry)}` : geostore ? `geostore_${geostore}` : regions.join(',');
+    return this.query(`deforestation_${area}_${days}_${limit}`, CACHE_DURATIONS.DEFORESTATION_DATA, this.providers('global_forest_watch'),
+      (provider, signal) => provider.getDeforestationReport?.({ regions, geostore, geometry, days, limit }, signal), options);
+  }
+
+  public getBiodiversityData(options: QueryOptions = {}): Promise<BiodiversityData[]> {
+    return this.query('biodiversity', CACHE_DURATIONS.SPECIES_DATA, this.providers(),
+      (provider, signal) => provider.getBiodiversityData?.(signal), options);
+  }
+
+  public getWeatherData(lat: number, lng: number, options: QueryOptions = {}): Promise<WeatherData> {
+    return this.query(`weather_${lat.toFixed(2)}_${lng.toFixed(2)}`, CACHE_DURATIONS.WEATHER_DATA, this.providers('openweather'),
+      (provider, signal) => provider.getWeatherData?.(lat, lng, signal), options);
+  }
+
+  public getWeatherForecast(lat: number, lng: number, hours: number = 120, options: QueryOptions = {}): Promise<WeatherForecast> {
+    return this.query(`forecast_${lat.toFixed(2)}_${lng.toFixed(2)}_${hours}`, CACHE_DURATIONS.WEATHER_DATA, this.providers('openweather'),
+      (provider, signal) => provider.getWeatherForecast?.(lat, lng, hours, signal), options);
+  }
+
+  public getHistoricalData(region: string, startYear: number, endYear: number, options: QueryOptions = {}): Promise<any[]> {
+    return this.query(`historical_${region}_${startYear}_${endYear}`, CACHE_DURATIONS.FOREST_DATA, this.providers(),
+      (provider, signal) => provider.getHistoricalData?.(region, startYear, endYear, signal), options);
+  }
+
+  public getSatelliteData(lat: number, lng: number, layer?: string, options: QueryOptions = {}): Promise<SatelliteImagery> {
+    return this.query(`satellite_${lat.toFixed(2)}_${lng.toFixed(2)}_${layer ?? 'default'}`, CACHE_DURATIONS.SATELLITE_DATA, this.providers(),
+      (provider, signal) => provider.getSatelliteData?.(lat, lng, layer, signal), options);
+  }
+
+  // Runs `read` now, every `intervalMs` if given, and after each refresh, passing each outcome to
+  // the listener. A new run aborts the previous one, and unsubscribing aborts the current one, so
+  // a listener never sees a result that was overtaken. Returns the unsubscribe function, so it can
+  // be returned straight from a useEffect.
+  public subscribe<T>(
+    read: (signal: AbortSignal) => Promise<T>,
+    listener: (result: QueryResult<T>) => void,
+    intervalMs?: number,
+  ): () => void {
+    let controller: AbortController | null = null;
+    const run = () => {
+      controller?.abort();
+      const current = new AbortController();
+      controller = current;
+      read(current.signal).then(
+        (data) => { if (!current.signal.aborted) listener({ data }); },
+        (error) => { if (!current.signal.aborted) listener({ error: error instanceof Error ? error : new Error(String(error)) }); },
+      );
+    };
+    this.listeners.add(run);
+    const timer = intervalMs ? setInterval(run, intervalMs) : undefined;
+    run();
+    return () => {
+      this.listeners.delete(run);
+      if (timer) clearInterval(timer);
+      controller?.abort();
+    };
+  }
+
+  // When the oldest saved copy being served was fetched, or null while every read is answered live
+  public getOfflineSince(): number | null {
+    return this.offline.size > 0 ? Math.min(...this.offline.values()) : null;
+  }
+
+  // Runs the listener whenever getOfflineSince() changes; returns the unsubscribe function, so it
+  // can be returned straight from a useEffect
+  public subscribeOffline(listener: (since: number | null) => void): () => void {
+    const handler = () => listener(this.getOfflineSince());
+    window.addEventListener(OFFLINE_STATUS_EVENT, handler);
+    return () => window.removeEventListener(OFFLINE_STATUS_EVENT, handler);
+  }
+
+  // Drops every cached result and reloads all subscriptions, e.g. after settings change
+  public refresh(): void {
+    this.cache.clear();
+    console.log(`🔄 Forest data cache cleared; reloading ${this.listeners.size} subscription(s)`);
+    this.listeners.forEach((run) => run());
+  }
+
+  // Live providers in the order they are asked. A user's own key for the upstream puts direct calls
+  // ahead of the worker.
+  private providers(directKey?: ApiKeyService): ForestDataProvider[] {
+    return directKey && apiConfigManager.hasApiKey(directKey) ? [this.direct, this.worker] : [this.worker, this.direct];
+  }
+
+  private query<T>(
+    key: string,
+    ttl: number,
+    providers: ForestDataProvider[],
+    call: (provider: ForestDataProvider, signal: AbortSignal) => Promise<T> | undefined,
+    { signal, fresh = false }: QueryOptions,
+  ): Promise<T> {
+    const cached = this.cache.get(key);
+    if (!fresh && cached && Date.now() - cached.timestamp < cached.ttl) {
+      return Promise.resolve(cached.data as T);
+    }
+
+    let inflight = this.inflight.get(key);
+    if (!inflight) {
+      const controller = new AbortController();
+      const query: InflightQuery = {
+        controller,
+        waiters: 0,
+        promise: this.ask(key, providers, call, controller.signal)
+          .then(({ data, live }) => {
+            this.cache.set(key, { data, timestamp: Date.now(), ttl: live ? ttl : Math.min(ttl, CACHE_DURATIONS.FALLBACK_DATA) });
+            return data;
+          })
+          .finally(() => {
+            if (this.inflight.get(key) === query) this.inflight.delete(key);
+          }),
+      };
+      this.inflight.set(key, query);
+      inflight = query;
+    }
+    return this.wait(key, inflight, signal) as Promise<T>;
+  }
+
+  private async ask<T>(
+    key: string,
+    providers: ForestDataProvider[],
+    call: (provider: ForestDataProvider, signal: AbortSignal) => Promise<T> | undefined,
+    signal: AbortSignal,
+  ): Promise<{ data: T; live: boolean }> {
+    let lastError: unknown = new Error(`No data source available for ${key}`);
+    // Without a connection the live providers would only wait for their timeouts
+    const online = typeof navigator === 'undefined' || navigator.onLine !== false;
+    for (const provider of online ? providers : []) {
+      const pending = call(provider, signal);
+      if (!pending) continue;
+      try {
+        const data = await pending;
+        return { data, live: this.keep(key, data) };
+      } catch (error) {
+        if (signal.aborted) throw abortError();
+        lastError = error;
+        console.log(`ℹ️ ${key}: ${provider.providerName} provider failed:`, (error as any)?.message || error);
+      }
+    }
+
+    const saved = await offlineCache.get<T>(key).catch(() => null);
+    if (signal.aborted) throw abortError();
+    if (saved) {
+      console.log(`📴 ${key}: serving the copy saved ${new Date(saved.savedAt).toLocaleString()}`);
+      this.setOffline(key, saved.savedAt);
+      return { data: markOffline(saved.data), live: false };
+    }
+
+    this.setOffline(key, null);
+    const fixture = apiConfigManager.isNoMockEnabled() ? undefined : call(this.fixtures, signal);
+    if (fixture) return { data: await fixture, live: false };
+    throw lastError;
+  }
+
+  // Saves a provider's result as the query's last-known-good copy and returns whether it is live.
+  // Worker fallbacks are generated, so they never replace a real copy; responses the service
+  // worker answered from its own cache while offline count as offline copies.
+  private keep(key: string, data: unknown): boolean {
+    const provenance = (Array.isArray(data) ? data : [data])
+      .map((record) => (record as { provenance?: Provenance } | null)?.provenance)
+      .filter((p): p is Provenance => !!p);
+    const offline = provenance.find((p) => p.cache === 'offline');
+    if (offline) {
+      this.setOffline(key, Date.parse(offline.fetchedAt));
+      return false;
+    }
+    this.setOffline(key, null);
+    if (!provenance.some((p) => p.synthetic)) {
+      offlineCache.put(key, data).catch((error) => console.warn(`⚠️ ${key}: could not save offline copy:`, error));
+    }
+    return true;
+  }
+
+  private setOffline(key: string, savedAt: number | null): void {
+    const before = this.getOfflineSince();
+    if (savedAt === null) this.offline.delete(key);
+    else this.offline.set(key, savedAt);
+    if (this.getOfflineSince() !== before && typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(OFFLINE_STATUS_EVENT));
+    }
+  }
+
+  private wait(key: string, inflight: InflightQuery, signal?: AbortSignal): Promise<unknown> {
+    if (!signal) {
+      // A waiter that cannot cancel keeps the call alive
+      inflight.waiters = Infinity;
+      return inflight.promise;
+    }
+    if (signal.aborted) return Promise.reject(abortError());
+    inflight.waiters++;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        reject(abortError());
+        if (--inflight.waiters === 0) {
+          inflight.controller.abort();
+          if (this.inflight.get(key) === inflight) this.inflight.delete(key);
+        }
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      inflight.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+}
+
+// Records keep their original fetch time; the cache status tells the UI they were read back offline
+function markOffline<T>(data: T): T {
+  const mark = (record: any) => (record?.provenance ? { ...record, provenance: { ...record.provenance, cache: 'offline' } } : record);
+  return (Array.isArray(data) ? data.map(mark) : mark(data)) as T;
+}
+
+function abortError(): Error {
+  const error = new Error('The request was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+// Export singleton instance
+export const forestRepository = ForestRepository.getInstance();
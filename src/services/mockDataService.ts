@@ -1,48 +1,13 @@
 // Mock data service for when API calls fail
-// This provides realistic forest monitoring data for the demo
+// This provides realistic forest monitoring data for the demo. It is the forest repository's last
+// provider, asked only when the worker and direct upstream calls fail and no-mock is off.
+import { calculateFwiDay, FWI_STARTUP_STATE, getFireWeatherRisk } from './fireWeatherIndex';
+import { createProvenance, withProvenance } from './forestDomain';
+import type { ForestRegion, ForestAlert, BiodiversityData, FireWeatherDay, WeatherData, WeatherForecast } from './forestDomain';
+import type { ForestDataProvider } from './forestRepository';
+import type { DeforestationReport } from './serverSideDataService';
 
-export interface ForestRegion {
-  id: string;
-  name: string;
-  lat: number;
-  lng: number;
-  healthScore: number;
-  deforestationRate: number;
-  biodiversityIndex: number;
-  alertLevel: 'low' | 'medium' | 'high' | 'critical';
-  lastUpdate: string;
-  area: number;
-  forestCover: number;
-  fireRisk: number;
-  temperature: number;
-  precipitation: number;
-}
-
-export interface ForestAlert {
-  id: string;
-  timestamp: string;
-  location: string;
-  type: 'fire' | 'deforestation' | 'biodiversity' | 'weather';
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  confidence: number;
-  description: string;
-  coordinates: { lat: number; lng: number };
-  metadata?: any;
-}
-
-export interface BiodiversityData {
-  id: string;
-  name: string;
-  scientificName: string;
-  status: 'stable' | 'declining' | 'critically_endangered' | 'recovering';
-  population: number;
-  trend: number;
-  habitat: string;
-  lastSeen: string;
-  confidence: number;
-  threatLevel: number;
-  conservationStatus: string;
-}
+export type { ForestRegion, ForestAlert, BiodiversityData } from './forestDomain';
 
 export interface SatelliteData {
   id: string;
@@ -55,10 +20,99 @@ export interface SatelliteData {
   imageUrl?: string;
 }
 
-export class MockDataService {
+export class MockDataService implements ForestDataProvider {
+  readonly providerName = 'mock';
+
+  async getForestRegions(): Promise<ForestRegion[]> {
+    return this.forestRegions();
+  }
+
+  async getForestAlerts(): Promise<ForestAlert[]> {
+    return this.forestAlerts();
+  }
+
+  async getDeforestationReport(): Promise<DeforestationReport> {
+    return { alerts: this.forestAlerts().filter((alert) => alert.type === 'deforestation'), aggregates: [], aggregated: false, source: 'client-mock' };
+  }
+
+  async getBiodiversityData(): Promise<BiodiversityData[]> {
+    return this.biodiversityData();
+  }
+
+  async getWeatherData(lat: number, lng: number): Promise<WeatherData> {
+    const temp = this.getRegionalTemperature(lat);
+    const humidity = 60 + Math.random() * 30;
+    const precipitation = this.getRegionalDailyRain(lat);
+    const windSpeed = 5 + Math.random() * 15;
+    // Mock data has no history, so the index starts from the standard start-up codes
+    const fwi = calculateFwiDay(FWI_STARTUP_STATE, {
+      temperature: temp,
+      humidity,
+      windSpeed: windSpeed * 3.6,
+      precipitation,
+      month: new Date().getMonth() + 1,
+      latitude: lat
+    });
+
+    return {
+      temperature: temp,
+      humidity,
+      precipitation,
+      windSpeed,
+      pressure: 1013 + (Math.random() - 0.5) * 20,
+      cloudCover: Math.random() * 100,
+      uvIndex: Math.max(0, 11 - Math.abs(lat) / 10),
+      fireWeatherIndex: fwi.fwi,
+      fwi,
+      location: this.getLocationName(lat, lng),
+      country: 'Unknown',
+      description: 'Clear sky',
+      provenance: createProvenance('client-mock')
+    };
+  }
+
+  async getWeatherForecast(lat: number, lng: number, hours: number): Promise<WeatherForecast> {
+    const daily: FireWeatherDay[] = [];
+    // Each day carries its codes into the next, as in the worker's forecast
+    let state = FWI_STARTUP_STATE;
+    for (let day = 0; day < Math.ceil(hours / 24); day++) {
+      const time = Date.now() + day * 24 * 60 * 60 * 1000;
+      const temp = this.getRegionalTemperature(lat);
+      const humidity = 40 + Math.random() * 40;
+      const precipitation = this.getRegionalDailyRain(lat);
+      const windSpeed = 2 + Math.random() * 8;
+      const components = calculateFwiDay(state, {
+        temperature: temp,
+        humidity,
+        windSpeed: windSpeed * 3.6,
+        precipitation,
+        month: new Date(time).getMonth() + 1,
+        latitude: lat
+      });
+      state = components;
+      const fireWeatherIndex = components.fwi;
+      daily.push({
+        date: new Date(time).toISOString().split('T')[0],
+        fireWeatherIndex,
+        ffmc: components.ffmc,
+        dmc: components.dmc,
+        dc: components.dc,
+        isi: components.isi,
+        bui: components.bui,
+        maxFireWeatherIndex: fireWeatherIndex,
+        meanFireWeatherIndex: fireWeatherIndex * 0.8,
+        maxTemperature: temp,
+        minHumidity: humidity,
+        precipitation,
+        risk: getFireWeatherRisk(fireWeatherIndex)
+      });
+    }
+    return { location: this.getLocationName(lat, lng), country: 'Unknown', timezoneOffset: 0, steps: [], daily, provenance: createProvenance('client-mock') };
+  }
+
   // Generate realistic forest regions
-  getForestRegions(): ForestRegion[] {
-    return [
+  private forestRegions(): ForestRegion[] {
+    return withProvenance([
       {
         id: 'amazon',
         name: 'Amazon Basin',
@@ -155,13 +209,13 @@ export class MockDataService {
         temperature: 27.8,
         precipitation: 1600
       }
-    ];
+    ], createProvenance('client-mock'));
   }
 
   // Generate recent forest alerts
-  getForestAlerts(): ForestAlert[] {
+  private forestAlerts(): ForestAlert[] {
     const now = new Date();
-    return [
+    return withProvenance([
       {
         id: 'fire_001',
         timestamp: new Date(now.getTime() - 2 * 60 * 60 * 1000).toISOString(),
@@ -217,12 +271,12 @@ export class MockDataService {
         description: 'Extreme drought conditions increasing fire risk',
         coordinates: { lat: -4.1, lng: -73.2 }
       }
-    ];
+    ], createProvenance('client-mock'));
   }
 
   // Generate biodiversity monitoring data
-  getBiodiversityData(): BiodiversityData[] {
-    return [
+  private biodiversityData(): BiodiversityData[] {
+    return withProvenance([
       {
         id: 'sumatran_orangutan',
         name: 'Sumatran Orangutan',
@@ -301,12 +355,12 @@ export class MockDataService {
         threatLevel: 60,
         conservationStatus: 'Vulnerable'
       }
-    ];
+    ], createProvenance('client-mock'));
   }
 
   // Generate satellite data
-  getSatelliteData(): SatelliteData[] {
-    const regions = this.getForestRegions();
+  getSatelliteSamples(): SatelliteData[] {
+    const regions = this.forestRegions();
     return regions.flatMap(region => [
       {
         id: `sat_${region.id}_1`,
@@ -333,14 +387,15 @@ export class MockDataService {
   }
 
   // Generate historical data for charts
-  getHistoricalData(regionId: string, years: number = 10): any[] {
+  async getHistoricalData(region: string, startYear: number, endYear: number): Promise<any[]> {
     const currentYear = new Date().getFullYear();
     const data = [];
     
-    for (let i = years; i >= 0; i--) {
-      const year = currentYear - i;
+    for (let year = startYear; year <= endYear; year++) {
+      const i = currentYear - year;
       data.push({
         year,
+        region,
         forestCoverage: Math.max(50, 95 - i * 1.2 + (Math.random() - 0.5) * 3),
         deforestationRate: 0.5 + i * 0.05 + Math.random() * 0.3,
         temperature: 13.5 + i * 0.12 + (Math.random() - 0.5) * 0.8,
@@ -352,7 +407,7 @@ export class MockDataService {
       });
     }
     
-    return data;
+    return withProvenance(data, createProvenance('client-mock'));
   }
 
   // Generate analytics data
@@ -373,7 +428,7 @@ export class MockDataService {
         restoration: 20 + Math.random() * 15,
         species: 1200 + Math.random() * 200
       })),
-      regionalComparison: this.getForestRegions().map(region => ({
+      regionalComparison: this.forestRegions().map(region => ({
         name: region.name,
         healthScore: region.healthScore,
         biodiversityIndex: region.biodiversityIndex,
@@ -382,6 +437,26 @@ export class MockDataService {
       }))
     };
   }
+
+  private getRegionalTemperature(lat: number): number {
+    const baseTemp = 30 - Math.abs(lat) * 0.6;
+    return baseTemp + (Math.random() - 0.5) * 10;
+  }
+
+  // Rain over the last 24 hours in mm: about one day in three is wet, and wet days carry the
+  // region's annual rainfall
+  private getRegionalDailyRain(lat: number): number {
+    const annual = Math.abs(lat) < 10 ? 2500 : Math.abs(lat) < 30 ? 1250 : 650;
+    return Math.random() < 1 / 3 ? (annual / 365) * 3 * (0.5 + Math.random()) : 0;
+  }
+
+  private getLocationName(lat: number, lng: number): string {
+    if (lat < -3 && lat > -5 && lng < -60 && lng > -65) return 'Amazon Basin, Brazil';
+    if (lat < 2 && lat > -2 && lng > 14 && lng < 17) return 'Congo Basin, DRC';
+    if (lat > 60 && lng < -150) return 'Boreal Forest, Canada';
+    if (lat > 0 && lat < 5 && lng > 100 && lng < 110) return 'Southeast Asian Rainforest';
+    return `Forest Region (${lat.toFixed(2)}, ${lng.toFixed(2)})`;
+  }
 }
 
 export const mockDataService = new MockDataService();
\ No newline at end of file
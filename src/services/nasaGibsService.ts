@@ -1,5 +1,9 @@
 // NASA GIBS API service for satellite imagery and data
 import { API_CONFIG, CACHE_DURATIONS } from './apiConfig';
+import { apiConfigManager } from './apiConfigManager';
+import { workerClient } from './workerClient';
+import { offlineCache } from './offlineCache';
+import { isSyntheticSource } from './forestDomain';
 
 interface SatelliteData {
   timestamp: string;
@@ -62,6 +66,7 @@ export class NASAGibsService {
       // Parse XML response (simplified for demo)
       const capabilities = this.parseWMSCapabilities(xmlText);
       
+      // The parsed list is a fixed stub, so it is not kept as an offline copy
       this.setCachedData(cacheKey, capabilities);
       return capabilities;
     } catch (error) {
@@ -107,7 +112,7 @@ export class NASAGibsService {
     }
   }
 
-  // Get fire detection data using FIRMS API
+  // Get fire detection data for a bounding box via the Worker's FIRMS proxy
   public async getFireData(area: { 
     north: number; 
     south: number; 
@@ -119,16 +124,26 @@ export class NASAGibsService {
     if (cached) return cached;
 
     try {
-      // Using FIRMS demo endpoint (replace with real API key)
-      const url = `https://firms.modaps.eosdis.nasa.gov/api/area/csv/${API_CONFIG.NASA_FIRMS.API_KEY}/VIIRS_SNPP_NRT/${area.north},${area.west},${area.south},${area.east}/1`;
-      
-      // For demo purposes, we'll return mock data since API key is needed
-      const mockFireData = this.getMockFireData(area);
-      
-      this.setCachedData(cacheKey, mockFireData);
-      return mockFireData;
+      const bbox = [area.west, area.south, area.east, area.north].join(',');
+      const { keyId, headers } = await apiConfigManager.storedKeyAuth('nasa_firms');
+      const response = await workerClient.fetch('/fire-alerts', {
+        query: { bbox, days: 1, key_id: keyId, no_mock: apiConfigManager.isNoMockEnabled() },
+        headers,
+      });
+      const body = await response.json();
+      if (!response.ok || !body?.success) {
+        throw new Error(body?.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const fireData = (body.data as any[]).map((alert) => this.toFireData(alert));
+      // Only observed fires become the offline copy; the worker's mock payloads do not
+      this.setCachedData(cacheKey, fireData, typeof body.source === 'string' && !isSyntheticSource(body.source));
+      return fireData;
     } catch (error) {
       console.error('Error fetching fire data:', error);
+      const saved = await this.getOfflineData(cacheKey);
+      if (saved) return saved;
+      if (apiConfigManager.isNoMockEnabled()) throw error;
       return this.getMockFireData(area);
     }
   }
@@ -188,8 +203,19 @@ export class NASAGibsService {
     return null;
   }
 
-  private setCachedData(key: string, data: any): void {
+  // `persist` also keeps fetched payloads as the offline copy; generated ones are not worth keeping
+  private setCachedData(key: string, data: any, persist: boolean = false): void {
     this.cache.set(key, { data, timestamp: Date.now() });
+    if (persist) {
+      offlineCache.put(`gibs_${key}`, data).catch((error) => console.warn('⚠️ Could not save offline copy:', error));
+    }
+  }
+
+  private async getOfflineData(key: string): Promise<any> {
+    const saved = await offlineCache.get(`gibs_${key}`).catch(() => null);
+    if (!saved) return null;
+    console.log(`📴 ${key}: serving the copy saved ${new Date(saved.savedAt).toLocaleString()}`);
+    return saved.data;
   }
 
   private parseWMSCapabilities(xmlText: string): any {
@@ -206,6 +232,25 @@ export class NASAGibsService {
     };
   }
 
+  private toFireData(alert: any): FireData {
+    const metadata = alert.metadata || {};
+    const acquired = new Date(alert.timestamp).toISOString();
+    return {
+      latitude: alert.coordinates.lat,
+      longitude: alert.coordinates.lng,
+      brightness: metadata.brightness ?? 0,
+      scan: metadata.scan ?? 0,
+      track: metadata.track ?? 0,
+      acq_date: metadata.acqDate || acquired.split('T')[0],
+      acq_time: metadata.acqTime || acquired.slice(11, 16).replace(':', ''),
+      satellite: metadata.satellite || 'Unknown',
+      confidence: alert.confidence,
+      version: metadata.version || '',
+      bright_t31: metadata.brightnessT31 ?? 0,
+      frp: metadata.frp ?? 0
+    };
+  }
+
   private getMockCapabilities(): any {
     return {
       layers: Object.values(API_CONFIG.NASA_GIBS.LAYERS),
@@ -0,0 +1,71 @@
+// Offline cache - the last real payload per query, kept in IndexedDB across reloads
+// The repository writes every live result here and reads it back when no provider answers, so a
+// field team without connectivity sees the last observed data with its age instead of mocks.
+// Where IndexedDB is unavailable (private windows, tests) reads miss and writes are dropped.
+import { CACHE_DURATIONS } from './apiConfig';
+
+const DB_NAME = 'forest-explorer';
+const DB_VERSION = 1;
+const STORE = 'last-known-good';
+
+export interface OfflineEntry<T = unknown> {
+  key: string;
+  data: T;
+  // When the payload was fetched live
+  savedAt: number;
+}
+
+export class OfflineCache {
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  // Entries older than CACHE_DURATIONS.STALE_DATA are treated as missing
+  public async get<T>(key: string, maxAge: number = CACHE_DURATIONS.STALE_DATA): Promise<OfflineEntry<T> | null> {
+    const entry = await this.run<OfflineEntry<T> | undefined>('readonly', (store) => store.get(key));
+    if (!entry || Date.now() - entry.savedAt > maxAge) return null;
+    return entry;
+  }
+
+  public async put<T>(key: string, data: T): Promise<void> {
+    const entry: OfflineEntry<T> = { key, data, savedAt: Date.now() };
+    await this.run('readwrite', (store) => store.put(entry));
+  }
+
+  public async clear(): Promise<void> {
+    await this.run('readwrite', (store) => store.clear());
+    console.log('🗑️ Offline cache cleared');
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T | undefined> {
+    const db = await this.open();
+    if (!db) return undefined;
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('⚠️ Offline cache unavailable:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.db;
+  }
+}
+
+// Export singleton instance
+export const offlineCache = new OfflineCache();
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { formatServerSentEvent, parseServerSentEvent, splitServerSentEvents } from './serverSentEvents';
+
+// Feeds the stream through in chunks, as reads arrive, and parses every complete event
+function readChunks(chunks: string[]) {
+  let buffer = '';
+  const events = [];
+  for (const chunk of chunks) {
+    const { blocks, rest } = splitServerSentEvents(buffer + chunk);
+    buffer = rest;
+    events.push(...blocks.map(parseServerSentEvent));
+  }
+  return { events, buffer };
+}
+
+describe('server-sent events', () => {
+  it('reads back what the worker writes', () => {
+    const alert = { id: 'fire_a', description: 'Line one\nline two: with a colon' };
+    const stream = `retry: 3000\n${formatServerSentEvent('ready', '2026-10-17T08:00:00.000Z|', { cursor: '2026-10-17T08:00:00.000Z|' })}`
+      + formatServerSentEvent('alert', '2026-10-17T08:00:01.000Z|fire_a', alert);
+
+    const { events, buffer } = readChunks([stream]);
+    expect(buffer).toBe('');
+    expect(events).toEqual([
+      { event: 'ready', id: '2026-10-17T08:00:00.000Z|', data: '{"cursor":"2026-10-17T08:00:00.000Z|"}' },
+      { event: 'alert', id: '2026-10-17T08:00:01.000Z|fire_a', data: JSON.stringify(alert) },
+    ]);
+    expect(JSON.parse(events[1].data)).toEqual(alert);
+  });
+
+  it('holds a partial event until the rest of it arrives', () => {
+    const stream = formatServerSentEvent('alert', '1|a', { id: 'a' }) + formatServerSentEvent('alert', '1|b', { id: 'b' });
+    const chunks = [stream.slice(0, 10), stream.slice(10, stream.length - 1), stream.slice(stream.length - 1)];
+
+    const partial = readChunks(chunks.slice(0, 2));
+    expect(partial.events.map((event) => event.id)).toEqual(['1|a']);
+    expect(readChunks(chunks).events.map((event) => event.id)).toEqual(['1|a', '1|b']);
+  });
+
+  it('skips comments such as keepalives', () => {
+    expect(readChunks([': keepalive\n\n']).events).toEqual([{ event: 'message', data: '' }]);
+    expect(parseServerSentEvent(': note\nevent: alert\ndata: {}')).toEqual({ event: 'alert', data: '{}' });
+  });
+
+  it('joins data lines and takes values with or without a space after the colon', () => {
+    expect(parseServerSentEvent('data:first\ndata: second\ndata\nid:7')).toEqual({ event: 'message', id: '7', data: 'first\nsecond\n' });
+    expect(parseServerSentEvent('data:\ndata: x')).toMatchObject({ data: '\nx' });
+  });
+
+  it('leaves the id out when the event does not set one', () => {
+    expect(parseServerSentEvent('event: ping').id).toBeUndefined();
+    expect(parseServerSentEvent('id\nevent: ping').id).toBe('');
+  });
+});
@@ -0,0 +1,40 @@
+// Server-Sent Events framing
+// Written by the worker's /alerts/stream and read back by the browser's alert feed, which uses
+// fetch rather than EventSource so it can send a bearer token; it must stay free of DOM and worker
+// APIs. Only the fields the stream uses are handled: event, id and data.
+
+export interface ServerSentEvent {
+  event: string;
+  // Absent when the event did not set one; the last id seen still applies
+  id?: string;
+  data: string;
+}
+
+export function formatServerSentEvent(event: string, id: string, data: unknown): string {
+  return `id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Splits a read buffer into the complete events and the partial event still being received
+export function splitServerSentEvents(buffer: string): { blocks: string[]; rest: string } {
+  const blocks = buffer.split('\n\n');
+  const rest = blocks.pop() ?? '';
+  return { blocks, rest };
+}
+
+export function parseServerSentEvent(block: string): ServerSentEvent {
+  const parsed: ServerSentEvent = { event: 'message', data: '' };
+  let hasData = false;
+  for (const line of block.split('\n')) {
+    if (line.startsWith(':')) continue;
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'event') parsed.event = value;
+    else if (field === 'id') parsed.id = value;
+    else if (field === 'data') {
+      parsed.data = hasData ? `${parsed.data}\n${value}` : value;
+      hasData = true;
+    }
+  }
+  return parsed;
+}
@@ -0,0 +1,16 @@
+// Service worker registration - makes the built app installable and usable offline (public/sw.js)
+// Only production builds register it: under the dev server it would cache modules that change.
+import { WORKER_BASE_URL } from './workerClient';
+
+export function registerServiceWorker(): void {
+  const env = (import.meta as any).env;
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator) || !env?.PROD) return;
+
+  const base: string = env.BASE_URL || '/';
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${base}sw.js?api=${encodeURIComponent(WORKER_BASE_URL)}`, { scope: base })
+      .then((registration) => console.log('📦 Service worker registered for', registration.scope))
+      .catch((error) => console.warn('⚠️ Service worker registration failed:', error));
+  });
+}
@@ -0,0 +1,136 @@
+// Map tile cache - base layers and pre-downloading their tiles for offline use
+// Downloaded tiles go into a Cache Storage cache that public/sw.js answers tile requests from.
+// The worker keeps its own copy of TILE_CACHE and the tile hosts; keep them in sync.
+
+export const TILE_CACHE = 'forest-tiles-v1';
+
+export type BaseLayer = 'osm' | 'satellite';
+
+export const BASE_LAYERS: Record<BaseLayer, { url: string; downloadUrl: string; attribution: string; maxZoom: number }> = {
+  osm: {
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    // Tiles are stored under the host without a subdomain; the service worker looks them up the same way
+    downloadUrl: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '© OpenStreetMap',
+    maxZoom: 19,
+  },
+  satellite: {
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    downloadUrl: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: '© Esri',
+    maxZoom: 18,
+  },
+};
+
+// Tile servers allow only modest downloads (OSM's usage policy forbids bulk scraping)
+export const MAX_OFFLINE_TILES = 2000;
+const CONCURRENT_DOWNLOADS = 4;
+
+export interface TileBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface TileDownloadProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+// Web Mercator tile indices covering the bounds, clamped to the projection's latitude limit
+function tileRange(bounds: TileBounds, zoom: number) {
+  const n = 2 ** zoom;
+  const x = (lng: number) => Math.min(n - 1, Math.max(0, Math.floor(((lng + 180) / 360) * n)));
+  const y = (lat: number) => {
+    const rad = (Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180;
+    return Math.min(n - 1, Math.max(0, Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * n)));
+  };
+  return { minX: x(bounds.west), maxX: x(bounds.east), minY: y(bounds.north), maxY: y(bounds.south) };
+}
+
+export function countTiles(bounds: TileBounds, minZoom: number, maxZoom: number): number {
+  let total = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+    total += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return total;
+}
+
+export function tileUrls(layer: BaseLayer, bounds: TileBounds, minZoom: number, maxZoom: number): string[] {
+  const template = BASE_LAYERS[layer].downloadUrl;
+  const urls: string[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        urls.push(template.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y)));
+      }
+    }
+  }
+  return urls;
+}
+
+export class TileCacheService {
+  public isSupported(): boolean {
+    return typeof caches !== 'undefined';
+  }
+
+  // Downloads the layer's tiles for the bounds and zoom range, skipping tiles already saved.
+  // Failed tiles are counted rather than thrown so one missing tile does not stop the area.
+  public async downloadRegion(
+    layer: BaseLayer,
+    bounds: TileBounds,
+    minZoom: number,
+    maxZoom: number,
+    onProgress?: (progress: TileDownloadProgress) => void,
+    signal?: AbortSignal,
+  ): Promise<TileDownloadProgress> {
+    const total = countTiles(bounds, minZoom, maxZoom);
+    if (total > MAX_OFFLINE_TILES) {
+      throw new Error(`The area needs ${total} tiles; zoom in or lower the zoom range (limit ${MAX_OFFLINE_TILES})`);
+    }
+
+    const cache = await caches.open(TILE_CACHE);
+    const queue = tileUrls(layer, bounds, minZoom, maxZoom);
+    const progress: TileDownloadProgress = { done: 0, total, failed: 0 };
+
+    const next = async (): Promise<void> => {
+      const url = queue.shift();
+      if (!url || signal?.aborted) return;
+      try {
+        if (!(await cache.match(url))) {
+          const response = await fetch(url, { mode: 'cors', signal });
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          await cache.put(url, response);
+        }
+      } catch {
+        if (!signal?.aborted) progress.failed++;
+      }
+      progress.done++;
+      onProgress?.({ ...progress });
+      return next();
+    };
+    await Promise.all(Array.from({ length: CONCURRENT_DOWNLOADS }, next));
+
+    console.log(`🗺️ Saved ${progress.done - progress.failed}/${total} ${layer} tiles for offline use`);
+    return progress;
+  }
+
+  public async countSaved(): Promise<number> {
+    if (!this.isSupported()) return 0;
+    const cache = await caches.open(TILE_CACHE);
+    return (await cache.keys()).length;
+  }
+
+  public async clear(): Promise<void> {
+    if (!this.isSupported()) return;
+    await caches.delete(TILE_CACHE);
+    console.log('🗑️ Offline map tiles cleared');
+  }
+}
+
+// Export singleton instance
+export const tileCache = new TileCacheService();
@@ -0,0 +1,129 @@
+// OpenWeather parsers
+// Turn OpenWeather current conditions and 5-day/3-hour forecasts into WeatherData and forecasts
+// with the fire weather index. Used by the worker and by the browser's direct provider, so both
+// report the same index in the same shape; it must stay free of DOM and worker APIs.
+import { calculateFwiDay, getFireWeatherRisk, FwiComponents, FwiState } from './fireWeatherIndex';
+import type { WeatherData } from './forestDomain';
+
+export function parseOpenWeatherForecast(data: any, hours: number, start: FwiState, latitude: number): any {
+  const until = Date.now() + hours * 60 * 60 * 1000;
+  const steps = forecastSteps(data).filter((step) => Date.parse(step.time) <= until);
+  const timezoneOffset = Number(data?.city?.timezone) || 0;
+  return {
+    location: data?.city?.name,
+    country: data?.city?.country,
+    timezoneOffset,
+    ...applyFireWeatherIndex(steps, timezoneOffset, latitude, start),
+  };
+}
+
+// Runs the FWI system over a forecast: each local day is computed from its noon step and the
+// day's total rain, carrying the codes forward. Every step also gets an index computed from the
+// codes at the start of its day and its own conditions, to show how danger moves within a day.
+export function applyFireWeatherIndex(steps: any[], timezoneOffset: number, latitude: number, start: FwiState): { steps: any[]; daily: any[] } {
+  const days = new Map<string, any[]>();
+  for (const step of steps) {
+    const date = localDate(Date.parse(step.time), timezoneOffset);
+    if (!days.has(date)) days.set(date, []);
+    days.get(date)!.push(step);
+  }
+
+  const toFwiWeather = (step: any, precipitation: number, month: number) => ({
+    temperature: step.temperature,
+    humidity: step.humidity,
+    windSpeed: step.windSpeed * 3.6,
+    precipitation,
+    month,
+    latitude,
+  });
+
+  let state = start;
+  const outSteps: any[] = [];
+  const daily: any[] = [];
+  for (const [date, daySteps] of days) {
+    const month = parseInt(date.slice(5, 7), 10);
+    const noonStep = daySteps.reduce((best, step) =>
+      Math.abs(localHour(step.time, timezoneOffset) - 12) < Math.abs(localHour(best.time, timezoneOffset) - 12) ? step : best);
+    const precipitation = daySteps.reduce((sum, step) => sum + step.precipitation, 0);
+    const components = calculateFwiDay(state, toFwiWeather(noonStep, precipitation, month));
+
+    const indices = daySteps.map((step) => {
+      const fireWeatherIndex = calculateFwiDay(state, toFwiWeather(step, step.precipitation, month)).fwi;
+      outSteps.push({ ...step, fireWeatherIndex });
+      return fireWeatherIndex;
+    });
+    daily.push({
+      date,
+      fireWeatherIndex: components.fwi,
+      ffmc: components.ffmc,
+      dmc: components.dmc,
+      dc: components.dc,
+      isi: components.isi,
+      bui: components.bui,
+      maxFireWeatherIndex: Math.max(...indices),
+      meanFireWeatherIndex: indices.reduce((sum, value) => sum + value, 0) / indices.length,
+      maxTemperature: Math.max(...daySteps.map((step) => step.temperature)),
+      minHumidity: Math.min(...daySteps.map((step) => step.humidity)),
+      precipitation,
+      risk: getFireWeatherRisk(components.fwi),
+    });
+    state = components;
+  }
+  return { steps: outSteps, daily };
+}
+
+// The FWI is a daily index of noon conditions and 24-hour rain, so one observation cannot give
+// it. Today is run like a forecast day: the current observation and today's remaining forecast
+// steps, with the step nearest local noon as the noon weather and their rain summed.
+export function parseOpenWeatherData(current: any, forecast: any, start: FwiState, latitude: number): WeatherData & { fwi: FwiComponents } {
+  const timezoneOffset = Number(current.timezone) || 0;
+  const observedAt = (Number(current.dt) || Date.now() / 1000) * 1000;
+  const today = localDate(observedAt, timezoneOffset);
+  const observed = {
+    time: new Date(observedAt).toISOString(),
+    temperature: current.main.temp,
+    humidity: current.main.humidity,
+    precipitation: current.rain?.['1h'] || current.snow?.['1h'] || 0,
+    windSpeed: current.wind.speed,
+  };
+  const later = forecastSteps(forecast)
+    .filter((step) => Date.parse(step.time) > observedAt && localDate(Date.parse(step.time), timezoneOffset) === today);
+  const [day] = applyFireWeatherIndex([observed, ...later], timezoneOffset, latitude, start).daily;
+
+  return {
+    temperature: current.main.temp,
+    humidity: current.main.humidity,
+    precipitation: observed.precipitation,
+    windSpeed: current.wind.speed,
+    pressure: current.main.pressure,
+    cloudCover: current.clouds.all,
+    uvIndex: 0,
+    fireWeatherIndex: day.fireWeatherIndex,
+    fwi: { ffmc: day.ffmc, dmc: day.dmc, dc: day.dc, isi: day.isi, bui: day.bui, fwi: day.fireWeatherIndex },
+    location: current.name,
+    country: current.sys?.country,
+    description: current.weather?.[0]?.description,
+  };
+}
+
+export function localDate(time: number, timezoneOffset: number): string {
+  return new Date(time + timezoneOffset * 1000).toISOString().split('T')[0];
+}
+
+function localHour(time: string, timezoneOffset: number): number {
+  return new Date(Date.parse(time) + timezoneOffset * 1000).getUTCHours();
+}
+
+function forecastSteps(data: any): any[] {
+  return (Array.isArray(data?.list) ? data.list : [])
+    .filter((item: any) => item?.main)
+    .map((item: any) => ({
+      time: new Date(item.dt * 1000).toISOString(),
+      temperature: item.main.temp,
+      humidity: item.main.humidity,
+      precipitation: item.rain?.['3h'] || item.snow?.['3h'] || 0,
+      windSpeed: item.wind?.speed ?? 0,
+      cloudCover: item.clouds?.all ?? 0,
+      description: item.weather?.[0]?.description,
+    }));
+}
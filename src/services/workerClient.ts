@@ -0,0 +1,124 @@
+// Typed client for the Cloudflare worker
+// URLs, query parameters and response types all come from the shared route table in
+// workerRoutes.ts, which is also what the worker publishes at /openapi.json.
+import { buildRouteUrl, HttpMethod, RouteMethod, RouteQuery, WorkerPath } from './workerRoutes';
+import { createProvenance, CACHE_STATUSES } from './forestDomain';
+import type { ApiKeySummary, BiodiversityData, CacheStatus, ForestAlert, ForestRegion, InvalidRecord, Provenance, UserProfile, WeatherData, WeatherForecast } from './forestDomain';
+import type { DeforestationAggregate } from './serverSideDataService';
+
+export const WORKER_BASE_URL: string = (typeof window !== 'undefined' && (window as any).__FOREST_WORKER_BASE__) || (import.meta as any).env?.VITE_FOREST_WORKER_BASE || 'https://forest.nicx.me/api';
+
+export interface SatelliteImagery {
+  timestamp: string;
+  coordinates: { lat: number; lng: number };
+  coverage: number;
+  cloudCover: number;
+  resolution: number;
+  layer: string;
+  tileUrl: string;
+  wmsUrl: string;
+  provenance?: Provenance;
+}
+
+export interface WorkerSyncStatus {
+  type: string;
+  intervalMinutes: number;
+  lastRun: string | null;
+  nextRun: string | null;
+  lastResult: Record<string, unknown> | null;
+}
+
+export interface WorkerSyncReport {
+  trigger: 'scheduled' | 'manual';
+  timestamp: string;
+  results: { type: string; success: boolean; skipped?: boolean; count?: number; sources?: string[]; error?: string; nextRun?: string }[];
+}
+
+// Type of `data` returned by each route
+export interface WorkerRouteData {
+  '/health': undefined;
+  '/openapi.json': Record<string, any>;
+  '/fire-alerts': ForestAlert[];
+  '/deforestation-alerts': ForestAlert[];
+  '/alerts/history': (ForestAlert & { source: string })[];
+  // One alert per event rather than an envelope (see alertStream.ts)
+  '/alerts/stream': ForestAlert & { source: string };
+  '/weather': WeatherData;
+  '/weather/forecast': WeatherForecast;
+  '/forest-regions': ForestRegion[];
+  '/biodiversity': BiodiversityData[];
+  '/satellite-data': SatelliteImagery;
+  '/user-profile': UserProfile;
+  '/sync': WorkerSyncStatus[] | WorkerSyncReport;
+  '/api-keys': ApiKeySummary[] | ApiKeySummary;
+  '/api-keys/{id}': { id: string };
+  '/webhooks/{source}': { received: number; created: number; duplicates: number; ids: string[] };
+}
+
+export interface WorkerResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: string;
+  source?: string;
+  cached?: boolean;
+  invalid?: InvalidRecord[];
+  // Added by the client from `source` and the X-Cache/Age headers; the same for every record
+  provenance: Provenance;
+  // Route-specific envelope fields
+  pagination?: { total: number; limit: number; offset: number; hasMore: boolean };
+  aggregated?: boolean;
+  aggregates?: DeforestationAggregate[];
+  apis?: Record<string, boolean>;
+  [key: string]: any;
+}
+
+export interface WorkerRequestOptions<P extends WorkerPath, M extends RouteMethod<P>> {
+  method?: M;
+  query?: RouteQuery<P, M>;
+  // Values for the `{name}` segments of the path
+  params?: Record<string, string>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export class WorkerClient {
+  constructor(readonly baseUrl: string = WORKER_BASE_URL) {}
+
+  url<P extends WorkerPath>(path: P, query?: RouteQuery<P>, params?: Record<string, string>): string {
+    return buildRouteUrl(this.baseUrl, path, query as Record<string, string | number | boolean | undefined>, params);
+  }
+
+  // Raw response, for callers that need the status code
+  fetch<P extends WorkerPath, M extends RouteMethod<P> = RouteMethod<P>>(path: P, options: WorkerRequestOptions<P, M> = {}): Promise<Response> {
+    const method = (options.method || 'get') as HttpMethod;
+    const headers: Record<string, string> = { 'Accept': 'application/json', ...options.headers };
+    if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+    return fetch(this.url(path, options.query as RouteQuery<P>, options.params), {
+      method: method.toUpperCase(),
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      signal: options.signal,
+    });
+  }
+
+  // Parsed envelope; a body that is not JSON becomes a failed envelope carrying the HTTP status
+  async request<P extends WorkerPath, M extends RouteMethod<P> = RouteMethod<P>>(path: P, options: WorkerRequestOptions<P, M> = {}): Promise<WorkerResponse<WorkerRouteData[P]>> {
+    const response = await this.fetch(path, options);
+    const body = await response.json().catch(() => ({ success: false, error: `HTTP ${response.status}` }));
+    return { ...body, provenance: responseProvenance(response, body.source) };
+  }
+}
+
+// A cached response was fetched from the upstream `Age` seconds ago
+function responseProvenance(response: Response, source: unknown): Provenance {
+  const cache = (response.headers.get('X-Cache') || '').toLowerCase();
+  const age = Number(response.headers.get('Age')) || 0;
+  return createProvenance(typeof source === 'string' ? source : 'unknown', {
+    cache: (CACHE_STATUSES as readonly string[]).includes(cache) ? cache as CacheStatus : 'none',
+    fetchedAt: new Date(Date.now() - age * 1000).toISOString(),
+  });
+}
+
+export const workerClient = new WorkerClient();
@@ -0,0 +1,533 @@
+// Worker API route table
+// The single description of the worker's public routes: the worker serves it as an OpenAPI 3
+// document at /openapi.json and the browser client builds URLs and parameter types from it.
+// Shared by both sides, so it must stay free of DOM and worker APIs.
+import { DOMAIN_SCHEMAS, ApiKeyService, JsonSchema, UserPermission } from './forestDomain';
+import { ALERT_FORMATS } from './alertFormats';
+
+// `flag` parameters are sent as `1` when set and omitted otherwise
+export type ParamType = 'string' | 'integer' | 'number' | 'flag';
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+export interface QueryParam {
+  type: ParamType;
+  description: string;
+  required?: boolean;
+  default?: string | number;
+  enum?: readonly string[];
+}
+
+export interface RouteOperation {
+  summary: string;
+  description?: string;
+  query?: Record<string, QueryParam>;
+  // `{name}` segments of the path, and request headers the route reads
+  pathParams?: Record<string, QueryParam>;
+  headers?: Record<string, QueryParam>;
+  // Component schema of the JSON request body
+  body?: string;
+  // Requires `Authorization: Bearer <token>`, and optionally a permission on the caller's profile
+  auth?: boolean;
+  permission?: UserPermission;
+  // Schema of `data` in the success envelope, and any extra envelope fields the route adds
+  data?: JsonSchema;
+  envelope?: Record<string, JsonSchema>;
+  // Response body is `data` itself rather than an envelope
+  raw?: boolean;
+  // Response is a text/event-stream whose events each carry one `data` record as JSON
+  eventStream?: boolean;
+  // Alert list also available as GeoJSON, CSV and KML via `format` or Accept
+  alertFormats?: boolean;
+  // Served from the worker's D1 store (503 when none is bound) instead of an upstream
+  store?: boolean;
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const arrayOf = (name: string) => ({ type: 'array', items: ref(name) });
+
+const NO_MOCK = { type: 'flag', description: 'Fail with 502 instead of returning generated data when the upstream is unavailable' } as const;
+const LAT = { type: 'number', description: 'Latitude in decimal degrees', required: true } as const;
+const LNG = { type: 'number', description: 'Longitude in decimal degrees', required: true } as const;
+
+// References one of the caller's stored keys (POST /api-keys) for the route's upstream
+const keyId = (service: ApiKeyService) => ({
+  type: 'string',
+  description: `Id of a stored ${service} key to use instead of the worker's own; needs the owner's bearer token`,
+} as const);
+
+const FORMAT = {
+  type: 'string',
+  description: 'Response format; overrides the Accept header. Non-JSON formats carry only the alert list and need a bearer token with `export_data`',
+  enum: Object.keys(ALERT_FORMATS) as (keyof typeof ALERT_FORMATS)[],
+  default: 'json',
+} as const;
+
+const FIRE_QUERY = {
+  region: { type: 'string', description: 'FIRMS area: `world`, or west,south,east,north', default: 'world' },
+  bbox: { type: 'string', description: 'Clip to west,south,east,north (overrides region)' },
+  days: { type: 'integer', description: 'Days of detections (1-10)', default: 1 },
+  date: { type: 'string', description: 'Start date YYYY-MM-DD (defaults to yesterday)' },
+  dataset: { type: 'string', description: 'Comma-separated FIRMS datasets, e.g. VIIRS_SNPP_NRT' },
+  mode: { type: 'string', description: '`first` returns the first dataset that answers; `fused` merges all datasets into fire events', enum: ['first', 'fused'], default: 'first' },
+  cluster_km: { type: 'number', description: 'Fusion distance threshold in km', default: 1.5 },
+  cluster_hours: { type: 'number', description: 'Fusion time threshold in hours', default: 6 },
+  limit: { type: 'integer', description: 'Page size (max 5000)', default: 1000 },
+  offset: { type: 'integer', description: 'Page offset', default: 0 },
+  key_id: keyId('nasa_firms'),
+  format: FORMAT,
+  no_mock: NO_MOCK,
+} as const;
+
+const FIRE_ENVELOPE = { pagination: ref('Pagination'), fusion: { type: 'object', additionalProperties: true } };
+
+const DEFORESTATION_QUERY = {
+  region: { type: 'string', description: 'Comma-separated GADM areas: ISO3, ISO3/adm1 or ISO3/adm1/adm2 (max 10)', default: 'BRA' },
+  geostore: { type: 'string', description: 'Existing GFW geostore id (overrides region)' },
+  days: { type: 'integer', description: 'Days of alerts', default: 90 },
+  limit: { type: 'integer', description: 'Maximum alerts returned (max 1000)', default: 50 },
+  key_id: keyId('global_forest_watch'),
+  format: FORMAT,
+  no_mock: NO_MOCK,
+} as const;
+
+const DEFORESTATION_ENVELOPE = { aggregated: { type: 'boolean' }, aggregates: arrayOf('DeforestationAggregate') };
+
+const HISTORY_QUERY = {
+  from: { type: 'string', description: 'Start of the window, ISO date or timestamp (inclusive; defaults to 30 days before `to`)' },
+  to: { type: 'string', description: 'End of the window, ISO date or timestamp (exclusive; defaults to now)' },
+  type: { type: 'string', description: 'Comma-separated alert types, e.g. fire,deforestation' },
+  severity: { type: 'string', description: 'Comma-separated severities, e.g. high,critical' },
+  bbox: { type: 'string', description: 'Only alerts inside west,south,east,north' },
+  limit: { type: 'integer', description: 'Page size (max 5000)', default: 1000 },
+  offset: { type: 'integer', description: 'Page offset', default: 0 },
+  format: FORMAT,
+} as const;
+
+const STREAM_QUERY = {
+  since: { type: 'string', description: 'Resume cursor: the `id` of the last event received. The Last-Event-ID header takes precedence; without either the stream starts after the newest stored alert' },
+  type: HISTORY_QUERY.type,
+  severity: HISTORY_QUERY.severity,
+  bbox: HISTORY_QUERY.bbox,
+} as const;
+
+export const WORKER_ROUTES = {
+  '/health': {
+    get: {
+      summary: 'Service health and configured upstream APIs',
+      envelope: {
+        service: { type: 'string' },
+        timestamp: { type: 'string', format: 'date-time' },
+        apis: { type: 'object', additionalProperties: { type: 'boolean' } },
+        keyVault: { type: 'boolean', description: 'Whether users can store API keys (/api-keys)' },
+        quotas: {
+          type: 'object',
+          description: "Today's upstream calls per provider against its daily quota (UTC days). In `reserve`, cached copies are served instead of calling the upstream.",
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              limit: { type: 'integer' },
+              used: { type: 'integer' },
+              remaining: { type: 'integer' },
+              reserve: { type: 'boolean' },
+              exhausted: { type: 'boolean' },
+              resetsAt: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+        upstreams: {
+          type: 'object',
+          description: 'Circuit breaker per provider. While `open`, calls fail at once and routes fall back (or return 502 with `no_mock`) until `retryAt`.',
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              state: { type: 'string', enum: ['closed', 'open', 'half-open'] },
+              consecutiveFailures: { type: 'integer' },
+              failingSince: { type: 'string', format: 'date-time' },
+              retryAt: { type: 'string', format: 'date-time' },
+              lastError: { type: 'string' },
+            },
+          },
+        },
+        rateLimit: { type: 'object', properties: { perMinute: { type: 'integer', description: 'Requests per minute per client; 0 when unlimited' } } },
+      },
+    },
+  },
+  '/openapi.json': {
+    get: { summary: 'This OpenAPI document', data: { type: 'object' }, raw: true },
+  },
+  '/fire-alerts': {
+    get: { summary: 'Active fire detections from NASA FIRMS', query: FIRE_QUERY, data: arrayOf('ForestAlert'), envelope: FIRE_ENVELOPE, alertFormats: true },
+    post: { summary: 'Active fire detections inside a GeoJSON area', query: FIRE_QUERY, body: 'AreaGeometry', data: arrayOf('ForestAlert'), envelope: FIRE_ENVELOPE, alertFormats: true },
+  },
+  '/deforestation-alerts': {
+    get: {
+      summary: 'GFW integrated deforestation alerts for admin areas or a geostore',
+      description: 'Without a GFW key only per-area counts are returned (`aggregated: true`, empty `data`).',
+      query: DEFORESTATION_QUERY,
+      data: arrayOf('ForestAlert'),
+      envelope: DEFORESTATION_ENVELOPE,
+      alertFormats: true,
+    },
+    post: { summary: 'GFW integrated deforestation alerts inside a GeoJSON area', query: DEFORESTATION_QUERY, body: 'AreaGeometry', data: arrayOf('ForestAlert'), envelope: DEFORESTATION_ENVELOPE, alertFormats: true },
+  },
+  '/alerts/history': {
+    get: {
+      summary: 'Stored alerts from every source, newest first',
+      description: 'Alerts are recorded as the fire and deforestation endpoints fetch them from their upstreams; generated data is never stored.',
+      query: HISTORY_QUERY,
+      data: arrayOf('ForestAlert'),
+      envelope: { pagination: ref('Pagination') },
+      alertFormats: true,
+      store: true,
+      auth: true,
+      permission: 'view_alerts',
+    },
+  },
+  '/alerts/stream': {
+    get: {
+      summary: 'Newly stored alerts as Server-Sent Events',
+      description: 'Opens with a `ready` event carrying the starting cursor, then sends one `alert` event per newly stored alert, oldest first, with its cursor as the event `id`. '
+        + 'The store is checked every few seconds and the stream ends after a few minutes; reconnect with the last cursor to continue without gaps.',
+      query: STREAM_QUERY,
+      headers: { 'Last-Event-ID': { type: 'string', description: 'Resume cursor; sent by EventSource when it reconnects' } },
+      data: ref('ForestAlert'),
+      eventStream: true,
+      store: true,
+      auth: true,
+      permission: 'view_alerts',
+    },
+  },
+  '/weather': {
+    get: {
+      summary: 'Current weather with the Canadian Fire Weather Index',
+      description: '`fireWeatherIndex` and `fwi` are today\'s daily values: the codes are advanced from the observation or forecast step nearest local noon, with today\'s observed and forecast rain.',
+      query: { lat: LAT, lng: LNG, key_id: keyId('openweather'), no_mock: NO_MOCK },
+      data: ref('WeatherData'),
+    },
+  },
+  '/weather/forecast': {
+    get: {
+      summary: '3-hourly forecast with per-step and daily fire weather',
+      query: { lat: LAT, lng: LNG, hours: { type: 'integer', description: 'Forecast horizon in hours (3-120)', default: 120 }, key_id: keyId('openweather'), no_mock: NO_MOCK },
+      data: ref('WeatherForecast'),
+    },
+  },
+  '/forest-regions': {
+    get: { summary: 'Monitored forest regions', query: { no_mock: NO_MOCK }, data: arrayOf('ForestRegion') },
+  },
+  '/biodiversity': {
+    get: {
+      summary: 'Tracked species enriched from GBIF',
+      query: { region: { type: 'string', description: 'Region name', default: 'global' }, limit: { type: 'integer', description: 'Maximum species', default: 20 }, no_mock: NO_MOCK },
+      data: arrayOf('BiodiversityData'),
+    },
+  },
+  '/satellite-data': {
+    get: {
+      summary: 'NASA GIBS imagery links for a location',
+      query: { lat: LAT, lng: LNG, layer: { type: 'string', description: 'GIBS layer id', default: 'MODIS_Terra_CorrectedReflectance_TrueColor' }, no_mock: NO_MOCK },
+      data: ref('SatelliteData'),
+    },
+  },
+  '/user-profile': {
+    get: { summary: 'Profile of the signed-in user, created on first sign-in', auth: true, data: ref('UserProfile') },
+    put: {
+      summary: 'Update the signed-in user\'s profile',
+      description: 'Only the fields in UserProfileUpdate can be changed; access roles and permissions are granted by administrators.',
+      auth: true,
+      body: 'UserProfileUpdate',
+      data: ref('UserProfile'),
+      store: true,
+    },
+  },
+  '/sync': {
+    get: { summary: 'Last and next ingestion run for each source', auth: true, permission: 'manage_regions', data: arrayOf('SyncStatus'), envelope: { tracked: { type: 'boolean', description: 'Whether run times are persisted' } } },
+    post: {
+      summary: 'Refresh sources from their upstreams now',
+      description: 'Sources that completed less than a minute ago are skipped. `success` is false if any source failed.',
+      auth: true,
+      permission: 'manage_regions',
+      query: { type: { type: 'string', description: 'Comma-separated sources, e.g. fire-alerts,weather-data (default all)' } },
+      data: ref('SyncReport'),
+    },
+  },
+  '/api-keys': {
+    get: { summary: 'The signed-in user\'s stored upstream API keys', auth: true, permission: 'manage_regions', data: arrayOf('ApiKeySummary'), store: true },
+    post: {
+      summary: 'Store an upstream API key',
+      description: 'The key is encrypted at rest and never returned, only its last four characters; pass the returned id as `key_id` to the routes that call that upstream.',
+      auth: true,
+      permission: 'manage_regions',
+      body: 'ApiKeySubmission',
+      data: ref('ApiKeySummary'),
+      store: true,
+    },
+  },
+  '/api-keys/{id}': {
+    delete: {
+      summary: 'Delete a stored API key',
+      auth: true,
+      permission: 'manage_regions',
+      pathParams: { id: { type: 'string', description: 'Key id from GET /api-keys' } },
+      data: { type: 'object', required: ['id'], properties: { id: { type: 'string' } } },
+      store: true,
+    },
+  },
+  '/webhooks/{source}': {
+    post: {
+      summary: 'Push alerts from a partner app',
+      description: 'Signed with the source\'s shared secret: `X-Webhook-Signature` is `sha256=` + hex HMAC-SHA256 of `<X-Webhook-Timestamp>.<raw body>`, '
+        + 'and the timestamp must be within 5 minutes. Ids are stored as `webhook_<source>_<id>`; re-sending an id updates that alert.',
+      pathParams: { source: { type: 'string', description: 'Partner source name, lowercase letters, digits, `-` and `_`' } },
+      headers: {
+        'X-Webhook-Timestamp': { type: 'integer', description: 'Send time in Unix seconds', required: true },
+        'X-Webhook-Signature': { type: 'string', description: '`sha256=<hex HMAC>`', required: true },
+      },
+      body: 'WebhookDelivery',
+      data: ref('WebhookReceipt'),
+      store: true,
+    },
+  },
+} as const satisfies Record<string, Partial<Record<HttpMethod, RouteOperation>>>;
+
+export type WorkerPath = keyof typeof WORKER_ROUTES;
+export type RouteMethod<P extends WorkerPath> = keyof typeof WORKER_ROUTES[P] & HttpMethod;
+
+type ParamValue<T extends ParamType> = T extends 'string' ? string : T extends 'flag' ? boolean : number;
+type QuerySpec<P extends WorkerPath, M extends RouteMethod<P>> = typeof WORKER_ROUTES[P][M] extends { query: infer Q } ? Q : Record<never, never>;
+type RequiredKeys<Q> = { [K in keyof Q]: Q[K] extends { required: true } ? K : never }[keyof Q];
+
+// Query parameters accepted by a route, typed from the table above
+export type RouteQuery<P extends WorkerPath, M extends RouteMethod<P> = RouteMethod<P>> =
+  { [K in RequiredKeys<QuerySpec<P, M>>]: QuerySpec<P, M>[K] extends { type: infer T extends ParamType } ? ParamValue<T> : never } &
+  { [K in Exclude<keyof QuerySpec<P, M>, RequiredKeys<QuerySpec<P, M>>>]?: QuerySpec<P, M>[K] extends { type: infer T extends ParamType } ? ParamValue<T> : never };
+
+// Serialises a query object the way the worker reads it: flags become `1`, unset values are dropped.
+// `{name}` segments of the path are filled from pathParams.
+export function buildRouteUrl(
+  baseUrl: string,
+  path: WorkerPath,
+  query: Record<string, string | number | boolean | undefined | null> = {},
+  pathParams: Record<string, string> = {},
+): string {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === false || value === '') continue;
+    params.set(name, value === true ? '1' : String(value));
+  }
+  const search = params.toString();
+  const resolved = path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(pathParams[name] ?? ''));
+  return `${baseUrl.replace(/\/$/, '')}${resolved}${search ? `?${search}` : ''}`;
+}
+
+// Table entry for a request path, with the values of its `{name}` segments
+export function matchRoute(path: string): { path: WorkerPath; params: Record<string, string> } | null {
+  for (const template of Object.keys(WORKER_ROUTES) as WorkerPath[]) {
+    const names: string[] = [];
+    const pattern = template.replace(/\./g, '\\.').replace(/\{(\w+)\}/g, (_, name: string) => {
+      names.push(name);
+      return '([^/]+)';
+    });
+    const match = new RegExp(`^${pattern}$`).exec(path);
+    if (!match) continue;
+    try {
+      return { path: template, params: Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])])) };
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+// Schemas that are not shared domain records
+const API_SCHEMAS: Record<string, JsonSchema> = {
+  InvalidRecord: {
+    type: 'object',
+    required: ['index', 'errors'],
+    properties: { index: { type: 'integer' }, id: { type: 'string' }, errors: { type: 'array', items: { type: 'string' } } },
+  },
+  Pagination: {
+    type: 'object',
+    required: ['total', 'limit', 'offset', 'hasMore'],
+    properties: { total: { type: 'integer' }, limit: { type: 'integer' }, offset: { type: 'integer' }, hasMore: { type: 'boolean' } },
+  },
+  DeforestationAggregate: {
+    type: 'object',
+    required: ['area', 'alerts', 'severity'],
+    properties: {
+      area: { type: 'string' },
+      iso: { type: 'string', nullable: true },
+      adm1: { type: 'string', nullable: true },
+      adm2: { type: 'string', nullable: true },
+      geostore: { type: 'string', nullable: true },
+      alerts: { type: 'integer' },
+      byConfidence: {
+        type: 'object',
+        nullable: true,
+        properties: { nominal: { type: 'integer' }, high: { type: 'integer' }, highest: { type: 'integer' } },
+      },
+      severity: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+    },
+  },
+  SatelliteData: {
+    type: 'object',
+    properties: {
+      timestamp: { type: 'string', format: 'date-time' },
+      coordinates: { type: 'object', properties: { lat: { type: 'number' }, lng: { type: 'number' } } },
+      coverage: { type: 'number' },
+      cloudCover: { type: 'number' },
+      resolution: { type: 'number' },
+      layer: { type: 'string' },
+      tileUrl: { type: 'string', format: 'uri' },
+      wmsUrl: { type: 'string', format: 'uri' },
+    },
+  },
+  WebhookDelivery: {
+    description: 'One alert, an array of alerts, or an object with an `alerts` array (at most 500)',
+    oneOf: [
+      ref('ForestAlert'),
+      arrayOf('ForestAlert'),
+      { type: 'object', required: ['alerts'], properties: { alerts: arrayOf('ForestAlert') } },
+    ],
+  },
+  WebhookReceipt: {
+    type: 'object',
+    required: ['received', 'created', 'duplicates', 'ids'],
+    properties: {
+      received: { type: 'integer' },
+      created: { type: 'integer' },
+      duplicates: { type: 'integer', description: 'Alerts already stored or repeated in the delivery; the stored copy is updated' },
+      ids: { type: 'array', items: { type: 'string' } },
+    },
+  },
+  SyncStatus: {
+    type: 'object',
+    required: ['type', 'intervalMinutes'],
+    properties: {
+      type: { type: 'string' },
+      intervalMinutes: { type: 'number' },
+      lastRun: { type: 'string', format: 'date-time', nullable: true },
+      nextRun: { type: 'string', format: 'date-time', nullable: true },
+      lastResult: { type: 'object', nullable: true, additionalProperties: true },
+    },
+  },
+  SyncReport: {
+    type: 'object',
+    required: ['trigger', 'timestamp', 'results'],
+    properties: {
+      trigger: { type: 'string', enum: ['scheduled', 'manual'] },
+      timestamp: { type: 'string', format: 'date-time' },
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['type', 'success'],
+          properties: {
+            type: { type: 'string' },
+            success: { type: 'boolean' },
+            skipped: { type: 'boolean' },
+            count: { type: 'integer' },
+            sources: { type: 'array', items: { type: 'string' } },
+            error: { type: 'string' },
+            nextRun: { type: 'string', format: 'date-time' },
+          },
+        },
+      },
+    },
+  },
+  AreaGeometry: {
+    description: 'GeoJSON Polygon or MultiPolygon, or a Feature/FeatureCollection of them',
+    type: 'object',
+    required: ['type'],
+    properties: { type: { type: 'string', enum: ['Polygon', 'MultiPolygon', 'Feature', 'FeatureCollection'] } },
+    additionalProperties: true,
+  },
+  Error: {
+    type: 'object',
+    required: ['success', 'error'],
+    properties: { success: { type: 'boolean', enum: [false] }, error: { type: 'string' }, details: { type: 'string' } },
+  },
+};
+
+function toParameter(name: string, param: QueryParam, location: 'query' | 'path' | 'header' = 'query'): JsonSchema {
+  const schema: JsonSchema = param.type === 'flag' ? { type: 'integer', enum: [1] } : { type: param.type };
+  if (param.enum) schema.enum = [...param.enum];
+  if (param.default !== undefined) schema.default = param.default;
+  return { name, in: location, required: location === 'path' || Boolean(param.required), description: param.description, schema };
+}
+
+function toOperation(path: string, method: HttpMethod, operation: RouteOperation): JsonSchema {
+  const optionalAuth = Boolean(operation.alertFormats || operation.query?.key_id);
+  const errorResponse = (description: string) => ({ description, content: { 'application/json': { schema: ref('Error') } } });
+  return {
+    operationId: `${method}${path.replace(/\.json$/, '').replace(/\{(\w+)\}/g, 'by-$1').split(/[/-]/).filter(Boolean).map((part) => part[0].toUpperCase() + part.slice(1)).join('')}`,
+    summary: operation.summary,
+    ...(operation.description || operation.permission ? { description: [operation.description, operation.permission && `Requires the \`${operation.permission}\` permission.`].filter(Boolean).join(' ') } : {}),
+    // Alert exports and stored keys are the only parts of an anonymous route that need a token
+    ...(operation.auth ? { security: [{ bearerAuth: [] }] } : optionalAuth ? { security: [{}, { bearerAuth: [] }] } : {}),
+    parameters: [
+      ...Object.entries(operation.pathParams || {}).map(([name, param]) => toParameter(name, param, 'path')),
+      ...Object.entries(operation.headers || {}).map(([name, param]) => toParameter(name, param, 'header')),
+      ...Object.entries(operation.query || {}).map(([name, param]) => toParameter(name, param)),
+    ],
+    ...(operation.body ? { requestBody: { required: true, content: { 'application/json': { schema: ref(operation.body) } } } } : {}),
+    responses: {
+      200: {
+        description: operation.raw ? 'Document' : operation.eventStream ? 'Event stream' : 'Success envelope',
+        content: operation.eventStream ? {
+          'text/event-stream': { schema: { type: 'string', description: 'Server-Sent Events; each event `data` is one JSON record' }, 'x-event-data': operation.data },
+        } : {
+          'application/json': {
+            schema: operation.raw ? operation.data : {
+              type: 'object',
+              required: ['success'],
+              properties: {
+                success: { type: 'boolean' },
+                ...(operation.data ? { data: operation.data } : {}),
+                source: { type: 'string', description: 'Upstream that produced the data, or `mock`/`mock-fallback`' },
+                error: { type: 'string', description: 'Upstream error behind a fallback response' },
+                invalid: { type: 'array', items: ref('InvalidRecord'), description: 'Records dropped by validation (first 20)' },
+                ...(operation.envelope || {}),
+              },
+            },
+          },
+          ...(operation.alertFormats ? {
+            [ALERT_FORMATS.geojson.contentType]: { schema: { type: 'object', description: 'FeatureCollection of Point features with flat alert properties' } },
+            [ALERT_FORMATS.csv.contentType.split(';')[0]]: { schema: { type: 'string', description: 'One row per alert; metadata columns prefixed meta_' } },
+            [ALERT_FORMATS.kml.contentType]: { schema: { type: 'string', description: 'KML Document with one Placemark per alert' } },
+          } : {}),
+        },
+      },
+      ...(operation.query || operation.body ? { 400: errorResponse('Invalid parameters') } : {}),
+      ...(operation.headers ? { 401: errorResponse('Missing or invalid signature') } : {}),
+      ...(operation.auth || optionalAuth ? { 401: errorResponse('Missing or invalid credentials') } : {}),
+      ...(operation.query?.key_id || operation.pathParams?.id ? { 404: errorResponse('Stored key not found') } : {}),
+      ...(operation.permission || operation.alertFormats ? { 403: errorResponse('Caller lacks the required permission') } : {}),
+      429: errorResponse('Rate limit exceeded; see Retry-After'),
+      ...(operation.store
+        ? { 503: errorResponse('Store not configured') }
+        : { 502: errorResponse('Upstream unavailable and `no_mock` set'), 503: errorResponse('Daily upstream quota used up and nothing cached') }),
+    },
+  };
+}
+
+export function buildOpenApiDocument(serverUrl: string): JsonSchema {
+  const paths: Record<string, JsonSchema> = {};
+  for (const [path, operations] of Object.entries(WORKER_ROUTES) as [string, Partial<Record<HttpMethod, RouteOperation>>][]) {
+    paths[path] = Object.fromEntries(Object.entries(operations).map(([method, operation]) => [method, toOperation(path, method as HttpMethod, operation!)]));
+  }
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Forest Monitoring API',
+      version: '1.0.0',
+      description: 'Fire, deforestation, weather and biodiversity data for forest monitoring. Responses share the `{ success, data, source }` envelope.',
+    },
+    servers: [{ url: serverUrl }],
+    paths,
+    components: {
+      schemas: { ...DOMAIN_SCHEMAS, ...API_SCHEMAS },
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+    },
+  };
+}
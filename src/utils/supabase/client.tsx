@@ -25,4 +25,11 @@ export async function getSupabase() {
   );
   cachedSupabase = client;
   return client;
-}
\ No newline at end of file
+}
+
+// Access token of the current session, for worker routes that need a signed-in user
+export async function getAccessToken(): Promise<string | null> {
+  const supabase = await getSupabase();
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token ?? null;
+}